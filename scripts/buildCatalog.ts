@@ -0,0 +1,99 @@
+/**
+ * Builds the bundled catalog manifest from a local checkout of the SunSpec models
+ * repository, so the app can list every model without downloading each file. Without a
+ * checkout (or SUNSPEC_MODELS_DIR) it shallow-clones the repository; `npm run build`
+ * runs it this way first. When the clone fails (offline or restricted CI) it only warns,
+ * and the build falls back to loading the catalog live from GitHub.
+ *
+ *   npm run catalog -- [../models] [--repo sunspec/models] [--ref master] [--out src/catalog/catalog.json]
+ */
+import { readFileSync, readdirSync, writeFileSync, existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { execFileSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { CatalogService } from '../src/services/catalogService';
+import { CatalogEntry, SunSpecModel } from '../src/types';
+
+const DEFAULT_OUTPUT = 'src/catalog/catalog.json';
+
+const parseArgs = (args: string[]) => {
+  const options = { source: process.env.SUNSPEC_MODELS_DIR ?? '', repo: 'sunspec/models', ref: 'master', out: DEFAULT_OUTPUT };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--repo' || arg === '--ref' || arg === '--out') {
+      options[arg.slice(2) as 'repo' | 'ref' | 'out'] = args[++i] ?? '';
+    } else {
+      options.source = arg;
+    }
+  }
+  return options;
+};
+
+// Same hash GitHub reports as a file's "sha", so the app can compare against live listings
+const gitBlobSha = (content: Buffer): string => {
+  return createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+};
+
+const writeCatalog = (options: ReturnType<typeof parseArgs>) => {
+  // Accept either the repository root or its json/ directory
+  const jsonDir = existsSync(path.join(options.source, 'json')) ? path.join(options.source, 'json') : options.source;
+  const files = readdirSync(jsonDir).filter(name => /^model_\d+\.json$/.test(name));
+
+  const entries: CatalogEntry[] = [];
+  files.forEach(filename => {
+    const content = readFileSync(path.join(jsonDir, filename));
+    try {
+      const model = JSON.parse(content.toString('utf8')) as SunSpecModel;
+      const entry = CatalogService.buildEntry(filename, model, gitBlobSha(content));
+      if (entry) {
+        entries.push(entry);
+      } else {
+        console.warn(`Skipping ${filename}: not a valid SunSpec model`);
+      }
+    } catch (err) {
+      console.warn(`Skipping ${filename}:`, err instanceof Error ? err.message : err);
+    }
+  });
+
+  const manifest = CatalogService.createManifest(options.repo, options.ref, entries);
+  writeFileSync(options.out, JSON.stringify(manifest) + '\n');
+  console.log(`Wrote ${entries.length} models for ${options.repo}@${options.ref} to ${options.out}`);
+};
+
+// Clones just the requested ref into a temporary directory
+const cloneModels = (repo: string, ref: string): string => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'sunspec-models-'));
+  try {
+    execFileSync('git', ['clone', '--depth', '1', '--branch', ref, `https://github.com/${repo}.git`, dir], { stdio: 'inherit' });
+  } catch (err) {
+    rmSync(dir, { recursive: true, force: true });
+    throw err;
+  }
+  return dir;
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.source) {
+    writeCatalog(options);
+    return;
+  }
+
+  let checkout: string;
+  try {
+    checkout = cloneModels(options.repo, options.ref);
+  } catch {
+    const existing = existsSync(options.out) ? `keeping the existing ${options.out}` : 'the app will load the catalog live';
+    console.warn(`Could not clone ${options.repo}@${options.ref}; ${existing}. Pass a local checkout instead:`);
+    console.warn('  npm run catalog -- <models checkout> [--repo owner/name] [--ref ref] [--out file]');
+    return;
+  }
+  try {
+    writeCatalog({ ...options, source: checkout });
+  } finally {
+    rmSync(checkout, { recursive: true, force: true });
+  }
+};
+
+main();
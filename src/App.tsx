@@ -1,50 +1,299 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { ModelList } from './components/ModelList';
 import { TreeView } from './components/TreeView';
-import { SunSpecModel, ModelInfo } from './types';
+import { DeviceScan } from './components/DeviceScan';
+import { ModelDiffView } from './components/ModelDiffView';
+import { ModelCompareView } from './components/ModelCompareView';
+import { CodegenPanel } from './components/CodegenPanel';
+import { ExportPanel } from './components/ExportPanel';
+import { PointSearch } from './components/PointSearch';
+import { ReferenceGraph } from './components/ReferenceGraph';
+import { ModelEditor } from './components/ModelEditor';
+import { ProfileBuilder } from './components/ProfileBuilder';
+import { ReportView } from './components/ReportView';
+import { SunSpecModel, ModelInfo, ModelSource, DeviceScanResult, RegisterMap, ScannedModel, SearchEntry, DeviceProfile, ProfileEntry } from './types';
 import { GitHubService } from './services/githubService';
-import { FileText, RotateCcw } from 'lucide-react';
+import { RouteService, Route, AppView } from './services/routeService';
+import { ValidationService } from './services/validationService';
+import { EditorService } from './services/editorService';
+import { ProfileService } from './services/profileService';
+import { GitHubModelSource, CompositeModelSource, StoredModelSource } from './services/modelSourceService';
+import { MODEL_HEADER_SIZE } from './services/layoutService';
+import { FileText, RotateCcw, Database, Search, Cpu, GitCompare, Columns, Code, Network, Pencil, ListOrdered, FileSpreadsheet, BookOpen } from 'lucide-react';
+
+// Identifies which model a route refers to, so repeated navigation does not reload it
+const modelKey = (route: Route) =>
+  route.modelId === undefined ? null : `${route.local ? 'local' : `${route.repo}@${route.ref}`}:${route.modelId}`;
+
+// A scanned model's own registers, up to the first one missing from the image
+const modelWords = (registers: RegisterMap, address: number, length: number): number[] => {
+  const words: number[] = [];
+  for (let i = 0; i < MODEL_HEADER_SIZE + length && registers.has(address + i); i++) {
+    words.push(registers.get(address + i)!);
+  }
+  return words;
+};
 
 function App() {
+  const [route, setRoute] = useState<Route>(() => {
+    const initial = RouteService.current();
+    GitHubService.setSource(initial.repo, initial.ref);
+    return { ...initial, repo: GitHubService.getRepo(), ref: GitHubService.getRef() };
+  });
+  const [sources, setSources] = useState<ModelSource[]>(() => [new GitHubModelSource()]);
+  const [activeSourceIds, setActiveSourceIds] = useState<string[]>(['github']);
+  const [localSource] = useState(() => new StoredModelSource());
+  // Follows localSource.version, so views holding local definitions load them again
+  const [localVersion, setLocalVersion] = useState(0);
   const [model, setModel] = useState<SunSpecModel | null>(null);
+  const [loadedModelKey, setLoadedModelKey] = useState<string | null>(null);
   const [selectedModelInfo, setSelectedModelInfo] = useState<ModelInfo | null>(null);
   const [error, setError] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
+  const [scanResult, setScanResult] = useState<DeviceScanResult | null>(null);
+  const [scanRegisters, setScanRegisters] = useState<RegisterMap | null>(null);
+  const [showCodegen, setShowCodegen] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showReferences, setShowReferences] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [profile, setProfile] = useState<DeviceProfile>(() => ProfileService.empty());
+  // Models bundled into the printable report, laid out like a profile
+  const [report, setReport] = useState<DeviceProfile>(() => ({ ...ProfileService.empty(), name: 'SunSpec model report' }));
+  // Point search query to restore when leaving a model opened from its results
+  const pointSearchQuery = useRef<string | undefined>(undefined);
+
+  const view = route.view;
+
+  // Several active sources are merged into one catalog
+  const activeSource = useMemo<ModelSource>(() => {
+    const active = sources.filter(candidate => activeSourceIds.includes(candidate.id));
+    return active.length === 1 ? active[0] : new CompositeModelSource(active);
+  }, [sources, activeSourceIds]);
+
+  const searchSources = useMemo(() => [localSource, activeSource], [localSource, activeSource]);
+  // Scans and comparisons look models up by ID in the catalog, then in Local models
+  const lookupSource = useMemo(() => new CompositeModelSource([activeSource, localSource]), [activeSource, localSource]);
+
+  const navigate = useCallback((next: Route, replace: boolean = false) => {
+    RouteService.navigate(next, replace);
+    setRoute(next);
+  }, []);
+
+  // A model opened from a scan or profile keeps its address and registers in the route,
+  // so a reload or shared link shows the same values
+  const modelStartAddress = route.modelId !== undefined ? route.address : undefined;
+  const modelRegisters = useMemo<RegisterMap | undefined>(() => {
+    const { address, registers } = route;
+    return address !== undefined && registers ? new Map(registers.map((word, i) => [address + i, word])) : undefined;
+  }, [route]);
+
+  // Back and forward restore the route; the GitHub source must switch before any child reloads
+  useEffect(() => {
+    const handlePopState = () => {
+      const next = RouteService.current();
+      GitHubService.setSource(next.repo, next.ref);
+      setRoute({ ...next, repo: GitHubService.getRepo(), ref: GitHubService.getRef() });
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Only a different model in the route should trigger a load, so the effect below reads
+  // the rest of the state through this ref
+  const routeModelKey = modelKey(route);
+  const latest = useRef<{ route: Route; loadedModelKey: string | null; loadModel?: (target: Route) => Promise<void> }>({
+    route,
+    loadedModelKey
+  });
+
+  // Declared first, so it has run by the time the load effect reads the ref
+  useEffect(() => {
+    latest.current = { route, loadedModelKey, loadModel };
+  });
+
+  useEffect(() => {
+    if (routeModelKey === null) {
+      setModel(null);
+      setLoadedModelKey(null);
+      return;
+    }
+    if (routeModelKey !== latest.current.loadedModelKey) {
+      latest.current.loadModel?.(latest.current.route);
+    }
+  }, [routeModelKey]);
+
+  // Stable, so the tree's focus effects only run when the focus path changes
+  const handleTreeNodeSelect = useCallback((nodePath: string) => {
+    navigate({ ...latest.current.route, nodePath: nodePath || undefined }, true);
+  }, [navigate]);
+
+  const handleTreeSearchChange = useCallback((search: string) => {
+    navigate({ ...latest.current.route, search: search || undefined }, true);
+  }, [navigate]);
+
+  // Leaving a model, or opening another one, ends any edit session
+  useEffect(() => {
+    setIsEditing(false);
+  }, [loadedModelKey]);
+
+  const fetchModel = useCallback(async (modelId: number, local?: boolean): Promise<SunSpecModel> => {
+    const modelData = local ? await localSource.getModelById(modelId) : await activeSource.getModel(`model_${modelId}.json`);
+
+    // Anything short of a renderable structure is refused; other issues show in the tree view
+    ValidationService.assertDisplayable(modelData);
+    return modelData;
+  }, [activeSource, localSource]);
+
+  // Stable, so the profile and report only load definitions again when a source changes
+  const loadProfileEntry = useCallback((entry: ProfileEntry) => fetchModel(entry.id, entry.local), [fetchModel]);
 
-  const handleModelSelect = async (modelInfo: ModelInfo) => {
+  const loadModel = async (target: Route) => {
     setIsLoading(true);
     setError('');
-    setSelectedModelInfo(modelInfo);
 
     try {
-      const modelData = await GitHubService.getModel(modelInfo.filename);
-
-      // Basic validation to ensure it's a SunSpec model
-      if (!modelData.id || !modelData.group) {
-        throw new Error('Invalid SunSpec model format. Missing required "id" or "group" properties.');
-      }
-
-      setModel(modelData as SunSpecModel);
+      setModel(await fetchModel(target.modelId!, target.local));
+      setLoadedModelKey(modelKey(target));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load the model.');
       setSelectedModelInfo(null);
+      setModel(null);
+      setLoadedModelKey(null);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleModelSelect = (modelInfo: ModelInfo) => {
+    setSelectedModelInfo(modelInfo);
+    navigate({
+      ...route,
+      modelId: modelInfo.id,
+      local: modelInfo.sourceId === localSource.id || undefined,
+      nodePath: undefined,
+      search: undefined,
+      address: undefined,
+      registers: undefined
+    });
+  };
+
+  const handleSourceChange = (repo: string, ref: string) => {
+    GitHubService.setSource(repo, ref);
+    navigate({ ...route, repo: GitHubService.getRepo(), ref: GitHubService.getRef() });
+  };
+
+  const handleSourceToggle = (sourceId: string) => {
+    setActiveSourceIds(current => current.includes(sourceId)
+      ? current.filter(id => id !== sourceId)
+      : sources.filter(candidate => candidate.id === sourceId || current.includes(candidate.id)).map(candidate => candidate.id));
+  };
+
+  const handleSourceAdd = (added: ModelSource) => {
+    setSources(current => [...current.filter(candidate => candidate.id !== added.id), added]);
+    setActiveSourceIds(current => [...current.filter(id => id !== added.id), added.id]);
+  };
+
+  const handleSourceRemove = (sourceId: string) => {
+    setSources(current => current.filter(candidate => candidate.id !== sourceId));
+    setActiveSourceIds(current => current.filter(id => id !== sourceId));
+  };
+
+  const handleLocalModelsChange = () => {
+    setLocalVersion(localSource.version);
+  };
+
+  const handleScanComplete = (result: DeviceScanResult | null, registers: RegisterMap | null) => {
+    setScanResult(result);
+    setScanRegisters(registers);
+  };
+
+  // Shows an already loaded model in the tree at the address it has on the device
+  const openPlacedModel = (placed: SunSpecModel, address: number, local?: boolean, registers?: number[]) => {
+    const next: Route = { ...route, modelId: placed.id, local: local || undefined, nodePath: undefined, search: undefined, address, registers };
+    setError('');
+    setSelectedModelInfo(null);
+    setModel(placed);
+    setLoadedModelKey(modelKey(next));
+    navigate(next);
+  };
+
+  const handleScannedModelOpen = (scanned: ScannedModel) => {
+    if (!scanned.model) return;
+    const registers = scanRegisters ? modelWords(scanRegisters, scanned.address, scanned.length) : undefined;
+    openPlacedModel(scanned.model, scanned.address, false, registers);
+  };
+
+  const handleProfileModelOpen = (entry: ProfileEntry, placed: SunSpecModel, address: number) => {
+    openPlacedModel(placed, address, entry.local);
+  };
+
+  const handleProfileModelAdd = (modelInfo: ModelInfo) => {
+    const entry: ProfileEntry = { id: modelInfo.id };
+    if (modelInfo.sourceId === localSource.id) entry.local = true;
+    setProfile(current => ({ ...current, models: [...current.models, entry] }));
+  };
+
+  const handleReportModelAdd = (modelInfo: ModelInfo) => {
+    const entry: ProfileEntry = { id: modelInfo.id };
+    if (modelInfo.sourceId === localSource.id) entry.local = true;
+    setReport(current => ({ ...current, models: [...current.models, entry] }));
+  };
+
+  // Reports on the open model alone, or on every model of the device profile
+  const openReport = (models: ProfileEntry[], baseAddress: number = report.baseAddress) => {
+    setReport(current => ({ ...current, baseAddress, models }));
+    setSelectedModelInfo(null);
+    setError('');
+    navigate({ ...route, view: 'report', modelId: undefined, local: undefined, nodePath: undefined, search: undefined, address: undefined, registers: undefined });
+  };
+
+  const searchResultRoute = (info: ModelInfo, entry: SearchEntry): Route => ({
+    ...route,
+    modelId: info.id,
+    local: info.sourceId === localSource.id || undefined,
+    nodePath: entry.path,
+    search: undefined,
+    address: undefined,
+    registers: undefined
+  });
+
+  const handleSearchResultOpen = (next: Route) => {
+    pointSearchQuery.current = route.search;
+    navigate(next);
+  };
+
   const handleReset = () => {
-    setModel(null);
     setSelectedModelInfo(null);
     setError('');
+    const search = view === 'search' ? pointSearchQuery.current : undefined;
+    navigate({ ...route, modelId: undefined, local: undefined, nodePath: undefined, search, address: undefined, registers: undefined });
+  };
+
+  // Edited models are kept as local drafts under the usual file name
+  const handleEditedModelSave = async (edited: SunSpecModel): Promise<string> => {
+    const filename = `model_${edited.id}.json`;
+    const file = new File([EditorService.toJson(edited)], filename, { type: 'application/json' });
+    const update = await localSource.addFiles([file]);
+    if (update.errors.length > 0) throw new Error(update.errors[0]);
+    handleLocalModelsChange();
+    return `${update.replaced.length > 0 ? 'Updated' : 'Saved'} ${filename} in Local models`;
+  };
+
+  const handleEditorClose = (edited: SunSpecModel | null) => {
+    if (edited) setModel(edited);
+    setIsEditing(false);
+  };
+
+  const handleViewChange = (next: AppView) => {
+    navigate({ ...route, view: next });
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
-      <div className="container mx-auto px-4 py-8">
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 print:bg-none print:bg-white">
+      <div className="container mx-auto px-4 py-8 print:max-w-none print:p-0">
         {/* Header - only show on model list page */}
         {!model && (
-          <div className="text-center mb-8">
+          <div className="text-center mb-8 print:hidden">
             <div className="flex items-center justify-center space-x-3 mb-4">
               <FileText className="w-8 h-8 text-blue-600" />
               <h1 className="text-3xl font-bold text-slate-800">SunSpec Model Viewer</h1>
@@ -53,28 +302,210 @@ function App() {
               Browse and visualize SunSpec information model definitions from the official GitHub repository. Explore the hierarchical structure 
               with detailed point information and interactive tree navigation.
             </p>
+
+            {/* View Switcher */}
+            <div className="inline-flex mt-6 p-1 bg-white rounded-lg shadow-sm border border-slate-200">
+              <ViewButton active={view === 'catalog'} onClick={() => handleViewChange('catalog')} icon={<Database className="w-4 h-4 mr-2" />}>
+                Model Catalog
+              </ViewButton>
+              <ViewButton active={view === 'search'} onClick={() => handleViewChange('search')} icon={<Search className="w-4 h-4 mr-2" />}>
+                Point Search
+              </ViewButton>
+              <ViewButton active={view === 'scan'} onClick={() => handleViewChange('scan')} icon={<Cpu className="w-4 h-4 mr-2" />}>
+                Device Scan
+              </ViewButton>
+              <ViewButton active={view === 'profile'} onClick={() => handleViewChange('profile')} icon={<ListOrdered className="w-4 h-4 mr-2" />}>
+                Device Profile
+              </ViewButton>
+              <ViewButton active={view === 'report'} onClick={() => handleViewChange('report')} icon={<BookOpen className="w-4 h-4 mr-2" />}>
+                Report
+              </ViewButton>
+              <ViewButton active={view === 'diff'} onClick={() => handleViewChange('diff')} icon={<GitCompare className="w-4 h-4 mr-2" />}>
+                Compare Versions
+              </ViewButton>
+              <ViewButton active={view === 'compare'} onClick={() => handleViewChange('compare')} icon={<Columns className="w-4 h-4 mr-2" />}>
+                Compare Models
+              </ViewButton>
+            </div>
           </div>
         )}
 
         {!model ? (
-          /* Model Selection */
-          <ModelList onModelSelect={handleModelSelect} />
+          view === 'search' ? (
+            /* Catalog-wide Point Search */
+            <PointSearch
+              sources={searchSources}
+              query={route.search ?? ''}
+              onQueryChange={(search) => navigate({ ...route, search: search || undefined }, true)}
+              linkTo={searchResultRoute}
+              onOpen={handleSearchResultOpen}
+            />
+          ) : view === 'scan' ? (
+            /* Device Scan */
+            <DeviceScan source={lookupSource} result={scanResult} onScanComplete={handleScanComplete} onOpenModel={handleScannedModelOpen} />
+          ) : view === 'profile' ? (
+            /* Device Profile Builder, picking models from the catalog */
+            <div className="space-y-6">
+              <ProfileBuilder
+                key={`${route.repo}@${route.ref}`}
+                profile={profile}
+                onChange={setProfile}
+                loadModel={loadProfileEntry}
+                localVersion={localVersion}
+                onOpenModel={handleProfileModelOpen}
+                onReport={() => openReport(profile.models, profile.baseAddress)}
+              />
+              <ModelList
+                source={activeSource}
+                localSource={localSource}
+                sources={sources}
+                activeSourceIds={activeSourceIds}
+                repo={route.repo}
+                gitRef={route.ref}
+                onModelSelect={handleProfileModelAdd}
+                onSourceChange={handleSourceChange}
+                onToggleSource={handleSourceToggle}
+                onAddSource={handleSourceAdd}
+                onRemoveSource={handleSourceRemove}
+                onLocalModelsChange={handleLocalModelsChange}
+                description="Select models to append them to the device profile, in the order the device implements them."
+              />
+            </div>
+          ) : view === 'report' ? (
+            /* Printable report, bundling models from the catalog */
+            <div className="space-y-6">
+              <ReportView
+                key={`${route.repo}@${route.ref}`}
+                report={report}
+                onChange={setReport}
+                loadModel={loadProfileEntry}
+                localVersion={localVersion}
+              />
+              <div className="print:hidden">
+                <ModelList
+                  source={activeSource}
+                  localSource={localSource}
+                  sources={sources}
+                  activeSourceIds={activeSourceIds}
+                  repo={route.repo}
+                  gitRef={route.ref}
+                  onModelSelect={handleReportModelAdd}
+                  onSourceChange={handleSourceChange}
+                  onToggleSource={handleSourceToggle}
+                  onAddSource={handleSourceAdd}
+                  onRemoveSource={handleSourceRemove}
+                  onLocalModelsChange={handleLocalModelsChange}
+                  description="Select models to add them to the report, in the order they should appear."
+                />
+              </div>
+            </div>
+          ) : view === 'diff' ? (
+            /* Version Diff */
+            <ModelDiffView source={lookupSource} />
+          ) : view === 'compare' ? (
+            /* Cross-model Comparison */
+            <ModelCompareView source={lookupSource} />
+          ) : (
+            /* Model Selection */
+            <ModelList
+              source={activeSource}
+              localSource={localSource}
+              sources={sources}
+              activeSourceIds={activeSourceIds}
+              repo={route.repo}
+              gitRef={route.ref}
+              onModelSelect={handleModelSelect}
+              onSourceChange={handleSourceChange}
+              onToggleSource={handleSourceToggle}
+              onAddSource={handleSourceAdd}
+              onRemoveSource={handleSourceRemove}
+            />
+          )
         ) : (
           /* Model View Section */
           <div className="max-w-6xl mx-auto space-y-6">
-            {/* Reset Button */}
-            <div className="flex justify-end">
-              <button
-                onClick={handleReset}
-                className="inline-flex items-center px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors"
-              >
-                <RotateCcw className="w-4 h-4 mr-2" />
-                Back to Model List
-              </button>
-            </div>
+            {isEditing ? (
+              /* Model Editor */
+              <ModelEditor model={model} onSave={handleEditedModelSave} onClose={handleEditorClose} />
+            ) : (
+              <>
+                {/* Model Actions */}
+                <div className="flex justify-end space-x-3">
+                  <button
+                    onClick={() => setIsEditing(true)}
+                    className="inline-flex items-center px-4 py-2 bg-white text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+                  >
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => setShowReferences(!showReferences)}
+                    className={`inline-flex items-center px-4 py-2 rounded-lg transition-colors ${
+                      showReferences ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-white text-slate-700 border border-slate-300 hover:bg-slate-50'
+                    }`}
+                  >
+                    <Network className="w-4 h-4 mr-2" />
+                    References
+                  </button>
+                  <button
+                    onClick={() => setShowCodegen(!showCodegen)}
+                    className={`inline-flex items-center px-4 py-2 rounded-lg transition-colors ${
+                      showCodegen ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-white text-slate-700 border border-slate-300 hover:bg-slate-50'
+                    }`}
+                  >
+                    <Code className="w-4 h-4 mr-2" />
+                    Generate code
+                  </button>
+                  <button
+                    onClick={() => setShowExport(!showExport)}
+                    className={`inline-flex items-center px-4 py-2 rounded-lg transition-colors ${
+                      showExport ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-white text-slate-700 border border-slate-300 hover:bg-slate-50'
+                    }`}
+                  >
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Export
+                  </button>
+                  <button
+                    onClick={() => openReport([route.local ? { id: model.id, local: true } : { id: model.id }])}
+                    className="inline-flex items-center px-4 py-2 bg-white text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+                  >
+                    <BookOpen className="w-4 h-4 mr-2" />
+                    Report
+                  </button>
+                  <button
+                    onClick={handleReset}
+                    className="inline-flex items-center px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    {view === 'scan'
+                      ? 'Back to Device Scan'
+                      : view === 'search'
+                        ? 'Back to Point Search'
+                        : view === 'profile' ? 'Back to Device Profile' : 'Back to Model List'}
+                  </button>
+                </div>
+
+                {showCodegen && <CodegenPanel model={model} />}
+
+                {showExport && <ExportPanel key={model.id} model={model} />}
 
-            {/* Tree View */}
-            <TreeView model={model} />
+                {showReferences && (
+                  <ReferenceGraph model={model} onSelect={(nodePath) => navigate({ ...route, nodePath, search: undefined })} />
+                )}
+
+                {/* Tree View */}
+                <TreeView
+                  key={`${model.id}@${modelStartAddress ?? 'default'}`}
+                  model={model}
+                  initialStartAddress={modelStartAddress}
+                  initialRegisters={modelRegisters}
+                  focusPath={route.nodePath}
+                  searchTerm={route.search}
+                  onNodeSelect={handleTreeNodeSelect}
+                  onSearchChange={handleTreeSearchChange}
+                />
+              </>
+            )}
           </div>
         )}
 
@@ -102,4 +533,25 @@ function App() {
   );
 }
 
+interface ViewButtonProps {
+  active: boolean;
+  onClick: () => void;
+  icon: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const ViewButton: React.FC<ViewButtonProps> = ({ active, onClick, icon, children }) => {
+  return (
+    <button
+      onClick={onClick}
+      className={`inline-flex items-center px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+        active ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-100'
+      }`}
+    >
+      {icon}
+      {children}
+    </button>
+  );
+};
+
 export default App;
\ No newline at end of file
@@ -0,0 +1,6 @@
+import { CatalogManifest } from '../types';
+
+// catalog.json is generated by `npm run catalog`; without it the app loads the catalog live
+const manifests = import.meta.glob<CatalogManifest>('./catalog.json', { eager: true, import: 'default' });
+
+export const bundledManifest: CatalogManifest | null = manifests['./catalog.json'] ?? null;
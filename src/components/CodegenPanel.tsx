@@ -0,0 +1,78 @@
+import React, { useState, useMemo } from 'react';
+import { Code, Copy, Check, Download } from 'lucide-react';
+import { SunSpecModel } from '../types';
+import { CodegenService, CodegenTarget, CODEGEN_TARGETS } from '../services/codegenService';
+import { FileService } from '../services/fileService';
+
+interface CodegenPanelProps {
+  model: SunSpecModel;
+}
+
+export const CodegenPanel: React.FC<CodegenPanelProps> = ({ model }) => {
+  const [target, setTarget] = useState<CodegenTarget>('typescript');
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const code = useMemo(() => CodegenService.generate(model, target), [model, target]);
+
+  const handleCopy = async () => {
+    setError('');
+    try {
+      await FileService.copyToClipboard(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy to the clipboard');
+    }
+  };
+
+  const handleDownload = () => {
+    FileService.download(CodegenService.filename(model, target), code);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 bg-slate-50 border-b border-slate-200 flex flex-wrap items-center gap-3">
+        <div className="flex items-center space-x-2 mr-auto">
+          <Code className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-slate-800">Generate Code</h3>
+        </div>
+
+        <div className="inline-flex p-1 bg-white rounded-lg border border-slate-200">
+          {CODEGEN_TARGETS.map(candidate => (
+            <button
+              key={candidate.id}
+              onClick={() => setTarget(candidate.id)}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                target === candidate.id ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {candidate.label}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={handleCopy}
+          className="inline-flex items-center px-3 py-1.5 bg-slate-100 text-slate-700 text-sm rounded-lg hover:bg-slate-200 transition-colors"
+        >
+          {copied ? <Check className="w-4 h-4 mr-2 text-green-600" /> : <Copy className="w-4 h-4 mr-2" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          onClick={handleDownload}
+          className="inline-flex items-center px-3 py-1.5 bg-slate-600 text-white text-sm rounded-lg hover:bg-slate-700 transition-colors"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {CodegenService.filename(model, target)}
+        </button>
+      </div>
+
+      {error && <p className="px-4 pt-3 text-sm text-red-600">{error}</p>}
+
+      <pre className="p-4 max-h-[32rem] overflow-auto text-xs font-mono text-slate-800 bg-slate-50/50">
+        {code}
+      </pre>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Cpu, Upload, ScanLine, Loader2, AlertCircle, AlertTriangle, CheckCircle, ChevronRight } from 'lucide-react';
+import { DeviceScanResult, ModelSource, RegisterMap, ScannedModel } from '../types';
+import { DeviceScanService } from '../services/deviceScanService';
+import { DecoderService } from '../services/decoderService';
+import { SUNSPEC_BASE_ADDRESSES } from '../services/layoutService';
+
+interface DeviceScanProps {
+  source: ModelSource;
+  result: DeviceScanResult | null;
+  onScanComplete: (result: DeviceScanResult | null, registers: RegisterMap | null) => void;
+  onOpenModel: (scanned: ScannedModel) => void;
+}
+
+export const DeviceScan: React.FC<DeviceScanProps> = ({ source, result, onScanComplete, onOpenModel }) => {
+  const [text, setText] = useState('');
+  const [imageStart, setImageStart] = useState(SUNSPEC_BASE_ADDRESSES[0]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const runScan = async (registers: RegisterMap) => {
+    setIsScanning(true);
+    setError('');
+
+    try {
+      const scanResult = await DeviceScanService.scan(registers, source);
+      onScanComplete(scanResult, registers);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to scan the register image');
+      onScanComplete(null, null);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handlePasteScan = () => {
+    const dump = DecoderService.parseRegisterDump(text, imageStart);
+    if (dump.registers.size === 0) {
+      setError('No registers found in the pasted image');
+      return;
+    }
+    runScan(dump.registers);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const registers = DeviceScanService.parseImageFile(await file.arrayBuffer(), imageStart);
+    runScan(registers);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <Cpu className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-semibold text-slate-800">Device Scan</h2>
+        </div>
+
+        <p className="text-slate-600 mb-4">
+          Load a full register image from a device to discover every model it implements. The scan looks for the
+          SunS marker at {SUNSPEC_BASE_ADDRESSES.join(', ')} and follows the model headers to the end model.
+        </p>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'Paste a register image (hex words or a Modbus poll log)\n5375 6e53 0001 0042 ...'}
+          rows={6}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+        />
+
+        <div className="flex flex-wrap items-center gap-3 mt-3">
+          <label className="flex items-center space-x-2 text-sm text-slate-600">
+            <span>Unaddressed data starts at</span>
+            <input
+              type="number"
+              min={0}
+              value={imageStart}
+              onChange={(e) => setImageStart(Math.max(0, Number(e.target.value) || 0))}
+              className="w-28 px-2 py-1 border border-slate-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+
+          <div className="flex-1" />
+
+          <label className="inline-flex items-center px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors cursor-pointer">
+            <Upload className="w-4 h-4 mr-2" />
+            Load File
+            <input type="file" onChange={handleFileSelect} className="hidden" disabled={isScanning} />
+          </label>
+
+          <button
+            onClick={handlePasteScan}
+            disabled={isScanning || !text.trim()}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isScanning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ScanLine className="w-4 h-4 mr-2" />}
+            Scan
+          </button>
+        </div>
+
+        {error && (
+          <div className="flex items-center space-x-2 mt-4 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+
+      {result && !isScanning && <ScanOutline result={result} onOpenModel={onOpenModel} />}
+    </div>
+  );
+};
+
+const ScanOutline: React.FC<{ result: DeviceScanResult; onOpenModel: (scanned: ScannedModel) => void }> = ({ result, onOpenModel }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 bg-slate-50 border-b border-slate-200 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-slate-800">
+          {result.models.length} model{result.models.length === 1 ? '' : 's'} found
+        </h3>
+        <span className="text-sm text-slate-600 font-mono">SunS @ {result.baseAddress}</span>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {result.models.map((scanned) => {
+          const mismatch = scanned.expectedLength !== undefined && scanned.expectedLength !== scanned.length;
+
+          return (
+            <div
+              key={scanned.address}
+              onClick={() => scanned.model && onOpenModel(scanned)}
+              className={`flex items-center p-4 transition-colors ${scanned.model ? 'hover:bg-slate-50 cursor-pointer' : ''}`}
+            >
+              <span className="w-28 font-mono text-sm text-slate-700">{scanned.address}</span>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="font-semibold text-slate-800">Model {scanned.id}</span>
+                  {scanned.model?.group.label && (
+                    <span className="text-sm text-slate-500 truncate">({scanned.model.group.label})</span>
+                  )}
+                </div>
+                {scanned.error && <p className="text-xs text-red-600 mt-1">{scanned.error}</p>}
+              </div>
+
+              <div className="flex items-center space-x-2 text-xs">
+                <span className="px-2 py-1 bg-slate-100 text-slate-700 rounded-full font-mono">L = {scanned.length}</span>
+                {mismatch ? (
+                  <span className="inline-flex items-center px-2 py-1 bg-amber-100 text-amber-800 rounded-full">
+                    <AlertTriangle className="w-3 h-3 mr-1" />
+                    Definition expects {scanned.expectedLength}
+                  </span>
+                ) : scanned.expectedLength !== undefined && (
+                  <CheckCircle className="w-4 h-4 text-green-600" />
+                )}
+                {scanned.model && <ChevronRight className="w-4 h-4 text-slate-400" />}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex items-center p-4 text-sm">
+          {result.endAddress !== undefined ? (
+            <>
+              <span className="w-28 font-mono text-slate-700">{result.endAddress}</span>
+              <span className="text-slate-500">End model (0xFFFF)</span>
+            </>
+          ) : (
+            <span className="flex items-center text-red-600">
+              <AlertCircle className="w-4 h-4 mr-2" />
+              {result.error}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
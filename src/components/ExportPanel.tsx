@@ -0,0 +1,182 @@
+import React, { useState, useMemo } from 'react';
+import { FileSpreadsheet, Copy, Check, Download, Layers, AlertTriangle } from 'lucide-react';
+import { SunSpecModel, ExportOptions } from '../types';
+import { ExportService, ExportFormat, EXPORT_FORMATS } from '../services/exportService';
+import { LayoutService, MAX_GROUP_INSTANCES } from '../services/layoutService';
+import { FileService } from '../services/fileService';
+import { SmdxService } from '../services/smdxService';
+
+interface ExportPanelProps {
+  model: SunSpecModel;
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ model }) => {
+  const defaults = useMemo(() => ExportService.defaultOptions(model), [model]);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [startAddress, setStartAddress] = useState(defaults.startAddress);
+  // Counts the user changed; the rest keep the model's defaults
+  const [countOverrides, setCountOverrides] = useState<Record<string, number>>({});
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const repeatingGroups = useMemo(() => LayoutService.repeatingGroups(model), [model]);
+
+  const options = useMemo((): ExportOptions => ({
+    startAddress,
+    counts: Object.fromEntries(
+      Object.entries(defaults.counts).map(([path, count]) => [path, countOverrides[path] ?? count])
+    )
+  }), [defaults, startAddress, countOverrides]);
+
+  const output = useMemo(() => ExportService.generate(model, format, options), [model, format, options]);
+  const rows = useMemo(() => ExportService.registerRows(model, options), [model, options]);
+  const symbolCount = useMemo(() => ExportService.symbolRows(model).length, [model]);
+  const sheetCount = new Set(rows.map(row => row.templateGroup)).size;
+  const smdxLosses = useMemo(() => (format === 'smdx' ? SmdxService.toSmdx(model).losses : []), [model, format]);
+
+  const handleCountChange = (path: string, value: string) => {
+    const count = parseInt(value, 10);
+    setCountOverrides(prev => {
+      const next = { ...prev };
+      // An empty field returns the group to its default count
+      if (value === '' || isNaN(count) || count < 0) {
+        delete next[path];
+      } else {
+        next[path] = Math.min(count, MAX_GROUP_INSTANCES);
+      }
+      return next;
+    });
+  };
+
+  const handleCopy = async () => {
+    if (typeof output !== 'string') return;
+    setError('');
+    try {
+      await FileService.copyToClipboard(output);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy to the clipboard');
+    }
+  };
+
+  const handleDownload = () => {
+    FileService.download(ExportService.filename(model, format), output, ExportService.mimeType(format));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 bg-slate-50 border-b border-slate-200 flex flex-wrap items-center gap-3">
+        <div className="flex items-center space-x-2 mr-auto">
+          <FileSpreadsheet className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-slate-800">Export Registers</h3>
+        </div>
+
+        <div className="inline-flex p-1 bg-white rounded-lg border border-slate-200">
+          {EXPORT_FORMATS.map(candidate => (
+            <button
+              key={candidate.id}
+              onClick={() => setFormat(candidate.id)}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                format === candidate.id ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {candidate.label}
+            </button>
+          ))}
+        </div>
+
+        {typeof output === 'string' && (
+          <button
+            onClick={handleCopy}
+            className="inline-flex items-center px-3 py-1.5 bg-slate-100 text-slate-700 text-sm rounded-lg hover:bg-slate-200 transition-colors"
+          >
+            {copied ? <Check className="w-4 h-4 mr-2 text-green-600" /> : <Copy className="w-4 h-4 mr-2" />}
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        )}
+        <button
+          onClick={handleDownload}
+          className="inline-flex items-center px-3 py-1.5 bg-slate-600 text-white text-sm rounded-lg hover:bg-slate-700 transition-colors"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {ExportService.filename(model, format)}
+        </button>
+      </div>
+
+      {format === 'smdx' ? (
+        <div className="p-4 border-b border-slate-200 text-sm">
+          {smdxLosses.length === 0 ? (
+            <p className="text-green-700">Everything in the model is kept in SMDX.</p>
+          ) : (
+            <div className="text-amber-800">
+              <p className="flex items-center font-medium">
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                These parts of the model are not kept in SMDX:
+              </p>
+              <ul className="mt-1 ml-6 list-disc space-y-0.5">
+                {smdxLosses.map(loss => <li key={loss}>{loss}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="p-4 border-b border-slate-200 flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center space-x-2 text-slate-600">
+            <span>Model start</span>
+            <input
+              type="number"
+              min={0}
+              value={startAddress}
+              onChange={(e) => setStartAddress(Math.max(0, Number(e.target.value) || 0))}
+              className="w-28 px-2 py-1 border border-slate-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+          {repeatingGroups.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Layers className="w-4 h-4 text-slate-500" />
+              {repeatingGroups.map(repeating => (
+                <label
+                  key={repeating.path}
+                  className="flex items-center space-x-2 px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  title={repeating.path}
+                >
+                  <span className="font-medium text-amber-800">{repeating.group.name}</span>
+                  <span className="text-xs text-slate-500">×</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_GROUP_INSTANCES}
+                    placeholder={String(defaults.counts[repeating.path])}
+                    value={countOverrides[repeating.path] ?? ''}
+                    // Fixed counts are part of the model
+                    disabled={LayoutService.hasFixedCount(repeating.count)}
+                    onChange={(e) => handleCountChange(repeating.path, e.target.value)}
+                    className="w-16 px-2 py-0.5 border border-slate-300 rounded font-mono disabled:bg-slate-50 disabled:text-slate-500 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+          <span className="ml-auto text-slate-500">
+            {rows.length} rows
+            {format === 'xlsx' && `, ${sheetCount} group sheet${sheetCount === 1 ? '' : 's'}${symbolCount > 0 ? ' and a Symbols sheet' : ''}`}
+          </span>
+        </div>
+      )}
+
+      {error && <p className="px-4 pt-3 text-sm text-red-600">{error}</p>}
+
+      {typeof output === 'string' ? (
+        <pre className="p-4 max-h-[32rem] overflow-auto text-xs font-mono text-slate-800 bg-slate-50/50">
+          {output}
+        </pre>
+      ) : (
+        <p className="p-4 text-sm text-slate-600">
+          The workbook has one sheet per group, holding every instance of the group, and lists enum and bitfield symbols
+          on a sheet of their own.
+        </p>
+      )}
+    </div>
+  );
+};
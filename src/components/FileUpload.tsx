@@ -2,7 +2,7 @@ import React, { useCallback } from 'react';
 import { Upload, FileText, AlertCircle } from 'lucide-react';
 
 interface FileUploadProps {
-  onFileUpload: (file: File) => void;
+  onFileUpload: (files: File[]) => void;
   error?: string;
   isLoading?: boolean;
 }
@@ -11,17 +11,19 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, error, isL
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     const files = Array.from(e.dataTransfer.files);
-    const jsonFile = files.find(file => file.type === 'application/json' || file.name.endsWith('.json'));
+    const modelFiles = files.filter(file => /\.(json|xml)$/i.test(file.name) || file.type === 'application/json');
     
-    if (jsonFile) {
-      onFileUpload(jsonFile);
+    if (modelFiles.length > 0) {
+      onFileUpload(modelFiles);
     }
   }, [onFileUpload]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      onFileUpload(file);
+    const files = Array.from(e.target.files ?? []);
+    // Reset so picking the same file again still fires a change
+    e.target.value = '';
+    if (files.length > 0) {
+      onFileUpload(files);
     }
   }, [onFileUpload]);
 
@@ -56,14 +58,14 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, error, isL
           
           <div className="space-y-2">
             <h3 className="text-lg font-semibold text-slate-700">
-              {isLoading ? 'Processing...' : error ? 'Upload Error' : 'Upload SunSpec Model'}
+              {isLoading ? 'Processing...' : error ? 'Upload Error' : 'Upload SunSpec Models'}
             </h3>
             
             {error ? (
               <p className="text-sm text-red-600">{error}</p>
             ) : (
               <p className="text-sm text-slate-500">
-                Drag and drop your JSON model file here, or click to browse
+                Drag and drop one or more JSON or SMDX (XML) model files here, or click to browse
               </p>
             )}
           </div>
@@ -71,10 +73,11 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, error, isL
           {!isLoading && (
             <label className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors cursor-pointer">
               <FileText className="w-4 h-4 mr-2" />
-              Select File
+              Select Files
               <input
                 type="file"
-                accept=".json,application/json"
+                multiple
+                accept=".json,.xml,application/json,application/xml,text/xml"
                 onChange={handleFileSelect}
                 className="hidden"
               />
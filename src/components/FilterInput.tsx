@@ -0,0 +1,114 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Search, AlertTriangle } from 'lucide-react';
+import { FilterField } from '../types';
+import { FilterService } from '../services/filterService';
+
+interface FilterInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Known values per field for autocomplete
+  vocabulary: Record<FilterField, string[]>;
+  errors: string[];
+}
+
+export const FilterInput: React.FC<FilterInputProps> = ({ value, onChange, vocabulary, errors }) => {
+  const [caret, setCaret] = useState(value.length);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Caret to restore once an accepted suggestion has rendered
+  const pendingCaret = useRef<number | null>(null);
+
+  const completion = useMemo(() => FilterService.complete(value, caret, vocabulary), [value, caret, vocabulary]);
+  const suggestions = isOpen ? completion.suggestions : [];
+
+  useEffect(() => {
+    if (pendingCaret.current !== null && inputRef.current) {
+      inputRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  }, [value]);
+
+  const updateCaret = (input: HTMLInputElement) => setCaret(input.selectionStart ?? input.value.length);
+
+  const accept = (index: number) => {
+    const suggestion = suggestions[index];
+    if (!suggestion) return;
+    const next = value.slice(0, completion.from) + suggestion.insert + value.slice(completion.to);
+    const nextCaret = completion.from + suggestion.insert.length;
+    pendingCaret.current = nextCaret;
+    setCaret(nextCaret);
+    setActiveIndex(0);
+    onChange(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      return;
+    }
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(current => (current + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(Math.min(activeIndex, suggestions.length - 1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-5 transform -translate-y-1/2 w-4 h-4 text-slate-400" />
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder="Search, or filter with type:, access:, units:, sf:*, has:symbols..."
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateCaret(e.target);
+          setIsOpen(true);
+          setActiveIndex(0);
+        }}
+        onSelect={(e) => updateCaret(e.currentTarget)}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-20 left-0 right-0 mt-1 max-h-64 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg text-sm">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.insert}
+              // Keep the focus in the input
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(index);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between px-3 py-1.5 cursor-pointer ${
+                index === activeIndex ? 'bg-blue-50 text-blue-800' : 'text-slate-700'
+              }`}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.detail && <span className="text-xs text-slate-500 ml-3">{suggestion.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <div className="flex items-center mt-2 text-xs text-amber-700">
+          <AlertTriangle className="w-3.5 h-3.5 mr-1.5 flex-shrink-0" />
+          {errors.join('; ')}
+        </div>
+      )}
+    </div>
+  );
+};
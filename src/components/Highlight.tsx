@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface HighlightProps {
+  text: string;
+  // "*" in a term matches any run of characters
+  terms: string[];
+}
+
+// Marks each occurrence of the search terms, ignoring case
+export const Highlight: React.FC<HighlightProps> = ({ text, terms }) => {
+  const pattern = terms
+    .filter(term => term.replace(/\*/g, '') !== '')
+    .map(term => term.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*?'))
+    .join('|');
+  if (!pattern) return <>{text}</>;
+
+  // Splitting on a capturing group puts the matches at the odd indexes
+  return (
+    <>
+      {text.split(new RegExp(`(${pattern})`, 'gi')).map((part, index) =>
+        index % 2 === 1 ? <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">{part}</mark> : part
+      )}
+    </>
+  );
+};
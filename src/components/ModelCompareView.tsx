@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Columns, Loader2, AlertCircle, Download, ArrowLeftRight } from 'lucide-react';
+import { ModelAlignment, AlignedPoint, ModelSource } from '../types';
+import { CompareService } from '../services/compareService';
+import { FileService } from '../services/fileService';
+
+interface ModelCompareViewProps {
+  source: ModelSource;
+}
+
+export const ModelCompareView: React.FC<ModelCompareViewProps> = ({ source }) => {
+  const [leftId, setLeftId] = useState('');
+  const [rightId, setRightId] = useState('');
+  const [alignment, setAlignment] = useState<ModelAlignment | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setAlignment(null);
+
+    try {
+      const [left, right] = await Promise.all([source.getModelById(Number(leftId)), source.getModelById(Number(rightId))]);
+      setAlignment(CompareService.alignModels(left, right));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the models');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSwap = () => {
+    setLeftId(rightId);
+    setRightId(leftId);
+  };
+
+  const handleExport = () => {
+    if (!alignment) return;
+    FileService.download(
+      `model_${alignment.left.id}_vs_${alignment.right.id}.csv`,
+      FileService.toCsv(CompareService.toCsvRows(alignment)),
+      'text/csv'
+    );
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <Columns className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-semibold text-slate-800">Compare Models</h2>
+        </div>
+
+        <p className="text-slate-600 mb-4">
+          Open two different models side by side. Points sharing a name or label are aligned so you can map
+          registers from one model to the other, for example 103 against 701.
+        </p>
+
+        <form onSubmit={handleCompare} className="flex flex-wrap items-end gap-3 text-sm">
+          <ModelIdInput label="Left model" value={leftId} onChange={setLeftId} />
+          <button
+            type="button"
+            onClick={handleSwap}
+            title="Swap models"
+            className="p-2 mb-0.5 text-slate-500 hover:text-blue-600 transition-colors"
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+          </button>
+          <ModelIdInput label="Right model" value={rightId} onChange={setRightId} />
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Columns className="w-4 h-4 mr-2" />}
+            Compare
+          </button>
+        </form>
+
+        {error && (
+          <div className="flex items-center space-x-2 mt-4 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+
+      {alignment && (
+        <>
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="p-4 bg-slate-50 border-b border-slate-200 flex flex-wrap items-center gap-3">
+              <h3 className="text-lg font-semibold text-slate-800 mr-auto">
+                Model {alignment.left.id} ↔ Model {alignment.right.id}
+              </h3>
+              <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium">
+                {alignment.pairs.length} aligned
+              </span>
+              <span className="px-2 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-medium">
+                {alignment.pairs.filter(pair => pair.differences.length > 0).length} with differences
+              </span>
+              <button
+                onClick={handleExport}
+                className="inline-flex items-center px-3 py-1.5 bg-slate-600 text-white text-sm rounded-lg hover:bg-slate-700 transition-colors"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                CSV
+              </button>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-600 text-xs uppercase tracking-wide">
+                  <tr>
+                    <th className="px-3 py-2 text-left" colSpan={4}>Model {alignment.left.id} — {alignment.left.group.label}</th>
+                    <th className="px-3 py-2 text-left border-l border-slate-200" colSpan={4}>Model {alignment.right.id} — {alignment.right.group.label}</th>
+                    <th className="px-3 py-2 text-left border-l border-slate-200">Match</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {alignment.pairs.map(pair => (
+                    <tr key={`${pair.left.path}|${pair.right.path}`} className={pair.differences.length > 0 ? 'bg-amber-50/50' : ''}>
+                      <PointCells point={pair.left} other={pair.right} />
+                      <PointCells point={pair.right} other={pair.left} bordered />
+                      <td className="px-3 py-2 border-l border-slate-200 text-xs text-slate-500">{pair.matchedBy}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <OnlyInList title={`Only in model ${alignment.left.id}`} points={alignment.leftOnly} />
+            <OnlyInList title={`Only in model ${alignment.right.id}`} points={alignment.rightOnly} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const ModelIdInput: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => {
+  return (
+    <label className="flex flex-col text-slate-600">
+      <span className="mb-1">{label}</span>
+      <input
+        type="number"
+        min={1}
+        required
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-28 px-2 py-1.5 border border-slate-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+    </label>
+  );
+};
+
+const PointCells: React.FC<{ point: AlignedPoint; other: AlignedPoint; bordered?: boolean }> = ({ point, other, bordered }) => {
+  const differs = (attribute: 'type' | 'units' | 'sf') => (point[attribute] ?? '') !== (other[attribute] ?? '');
+  const highlight = (attribute: 'type' | 'units' | 'sf') => differs(attribute) ? 'text-amber-800 font-medium' : 'text-slate-600';
+
+  return (
+    <>
+      <td className={`px-3 py-2 ${bordered ? 'border-l border-slate-200' : ''}`}>
+        <div className="font-medium text-green-800">{point.name}</div>
+        <div className="text-xs text-slate-400 font-mono">+{point.offset}</div>
+      </td>
+      <td className={`px-3 py-2 font-mono text-xs ${highlight('type')}`}>{point.type}</td>
+      <td className={`px-3 py-2 text-xs ${highlight('units')}`}>{point.units ?? '—'}</td>
+      <td className={`px-3 py-2 font-mono text-xs ${highlight('sf')}`}>{point.sf ?? '—'}</td>
+    </>
+  );
+};
+
+const OnlyInList: React.FC<{ title: string; points: AlignedPoint[] }> = ({ title, points }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 bg-slate-50 border-b border-slate-200 flex items-center justify-between">
+        <h3 className="font-semibold text-slate-800">{title}</h3>
+        <span className="px-2 py-1 bg-slate-200 text-slate-700 rounded-full text-xs font-medium">{points.length}</span>
+      </div>
+      <div className="p-4 space-y-1 max-h-96 overflow-y-auto">
+        {points.length === 0 ? (
+          <p className="text-sm text-slate-500">Every point has a match.</p>
+        ) : points.map(point => (
+          <div key={point.path} className="flex items-center justify-between text-sm">
+            <span className="font-mono text-slate-700 truncate">{point.path}</span>
+            <span className="ml-3 text-xs text-slate-500 flex-shrink-0">{point.type}{point.units ? ` · ${point.units}` : ''}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
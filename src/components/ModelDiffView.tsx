@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { GitCompare, Loader2, AlertCircle, Download, Folder, File, ArrowRight } from 'lucide-react';
+import { ModelDiff, GroupDiff, PointDiff, DiffStatus, SunSpecModel, ModelSource } from '../types';
+import { GitHubService, GitHubRef } from '../services/githubService';
+import { DiffService } from '../services/diffService';
+import { FileService } from '../services/fileService';
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  added: 'bg-green-50 border-green-200 text-green-800',
+  removed: 'bg-red-50 border-red-200 text-red-800 line-through',
+  moved: 'bg-purple-50 border-purple-200 text-purple-800',
+  changed: 'bg-amber-50 border-amber-200 text-amber-800',
+  unchanged: 'border-transparent text-slate-700'
+};
+
+// Stands for the loaded catalog when a ref is left empty
+const CATALOG_REF = 'catalog';
+
+interface ModelDiffViewProps {
+  source: ModelSource;
+}
+
+export const ModelDiffView: React.FC<ModelDiffViewProps> = ({ source }) => {
+  const [modelId, setModelId] = useState('');
+  const [oldRef, setOldRef] = useState('');
+  const [newRef, setNewRef] = useState('');
+  const [refs, setRefs] = useState<GitHubRef[]>([]);
+  const [diff, setDiff] = useState<ModelDiff | null>(null);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    GitHubService.getRefs()
+      .then(setRefs)
+      .catch(err => console.warn('Failed to load refs for diff:', err));
+  }, []);
+
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setDiff(null);
+
+    // An empty ref reads the model from the catalog, which includes local and vendor models
+    const loadVersion = async (ref: string): Promise<SunSpecModel> =>
+      ref ? (await GitHubService.getModel(`model_${modelId.trim()}.json`, ref)) as SunSpecModel : source.getModelById(Number(modelId));
+    try {
+      const [oldModel, newModel] = await Promise.all([loadVersion(oldRef.trim()), loadVersion(newRef.trim())]);
+      setDiff(DiffService.diffModels(oldModel, newModel, oldRef.trim() || CATALOG_REF, newRef.trim() || CATALOG_REF));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare the model versions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!diff) return;
+    FileService.download(
+      `model_${diff.modelId}_${diff.oldRef}_to_${diff.newRef}.md`.replace(/[^\w.-]+/g, '_'),
+      DiffService.toMarkdown(diff),
+      'text/markdown'
+    );
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <GitCompare className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-semibold text-slate-800">Compare Model Versions</h2>
+        </div>
+
+        <p className="text-slate-600 mb-4">
+          Load the same model at two refs of {GitHubService.getRepo()} to see added, removed and moved points,
+          changed attributes and shifted register offsets. Leave a ref empty to use the model from the catalog,
+          such as a local draft or vendor model.
+        </p>
+
+        <form onSubmit={handleCompare} className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col text-slate-600">
+            <span className="mb-1">Model ID</span>
+            <input
+              type="number"
+              min={1}
+              required
+              value={modelId}
+              onChange={(e) => setModelId(e.target.value)}
+              className="w-28 px-2 py-1.5 border border-slate-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+          <RefInput label="Old ref" value={oldRef} onChange={setOldRef} />
+          <ArrowRight className="w-4 h-4 text-slate-400 mb-2.5" />
+          <RefInput label="New ref" value={newRef} onChange={setNewRef} />
+          <datalist id="diff-refs">
+            {refs.map(ref => <option key={`${ref.type}:${ref.name}`} value={ref.name}>{ref.type}</option>)}
+          </datalist>
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <GitCompare className="w-4 h-4 mr-2" />}
+            Compare
+          </button>
+        </form>
+
+        {error && (
+          <div className="flex items-center space-x-2 mt-4 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+
+      {diff && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-4 bg-slate-50 border-b border-slate-200 flex flex-wrap items-center gap-3">
+            <h3 className="text-lg font-semibold text-slate-800 mr-auto">
+              Model {diff.modelId}: {diff.oldRef} → {diff.newRef}
+            </h3>
+            <SummaryBadge className="bg-green-100 text-green-700" count={diff.summary.added} label="added" />
+            <SummaryBadge className="bg-red-100 text-red-700" count={diff.summary.removed} label="removed" />
+            <SummaryBadge className="bg-purple-100 text-purple-700" count={diff.summary.moved} label="moved" />
+            <SummaryBadge className="bg-amber-100 text-amber-700" count={diff.summary.changed} label="changed" />
+            <SummaryBadge className="bg-blue-100 text-blue-700" count={diff.summary.shifted} label="offsets shifted" />
+            <label className="flex items-center space-x-1 text-sm text-slate-600">
+              <input type="checkbox" checked={onlyChanges} onChange={(e) => setOnlyChanges(e.target.checked)} />
+              <span>Only changes</span>
+            </label>
+            <button
+              onClick={handleExport}
+              className="inline-flex items-center px-3 py-1.5 bg-slate-600 text-white text-sm rounded-lg hover:bg-slate-700 transition-colors"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Markdown
+            </button>
+          </div>
+
+          <div className="p-4">
+            <GroupDiffNode groupDiff={diff.root} level={0} onlyChanges={onlyChanges} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const RefInput: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => {
+  return (
+    <label className="flex flex-col text-slate-600">
+      <span className="mb-1">{label}</span>
+      <input
+        type="text"
+        list="diff-refs"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="catalog, or branch, tag, SHA"
+        className="w-48 px-2 py-1.5 border border-slate-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+    </label>
+  );
+};
+
+const SummaryBadge: React.FC<{ className: string; count: number; label: string }> = ({ className, count, label }) => {
+  return <span className={`px-2 py-1 rounded-full text-xs font-medium ${className}`}>{count} {label}</span>;
+};
+
+const GroupDiffNode: React.FC<{ groupDiff: GroupDiff; level: number; onlyChanges: boolean }> = ({ groupDiff, level, onlyChanges }) => {
+  if (onlyChanges && !DiffService.hasChanges(groupDiff)) return null;
+
+  const points = onlyChanges
+    ? groupDiff.points.filter(pointDiff => pointDiff.status !== 'unchanged' || DiffService.offsetShift(pointDiff) !== 0)
+    : groupDiff.points;
+
+  return (
+    <div style={{ marginLeft: `${level * 20}px` }}>
+      <div className={`flex items-center p-2 rounded-lg border ${STATUS_STYLES[groupDiff.status]}`}>
+        <Folder className="w-4 h-4 text-amber-600 mr-2 flex-shrink-0" />
+        <span className="font-medium">{groupDiff.name}</span>
+        {groupDiff.status !== 'unchanged' && <span className="ml-2 text-xs uppercase tracking-wide">{groupDiff.status}</span>}
+        {groupDiff.changes.map(change => (
+          <span key={change.attribute} className="ml-2 text-xs text-amber-800">
+            {change.attribute}: {change.before ?? '—'} → {change.after ?? '—'}
+          </span>
+        ))}
+      </div>
+
+      <div className="border-l border-slate-200 ml-2 pl-2">
+        {points.map(pointDiff => (
+          <PointDiffRow key={`${pointDiff.status}:${pointDiff.path}`} pointDiff={pointDiff} />
+        ))}
+        {groupDiff.groups.map(sub => (
+          <GroupDiffNode key={sub.path} groupDiff={sub} level={1} onlyChanges={onlyChanges} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const PointDiffRow: React.FC<{ pointDiff: PointDiff }> = ({ pointDiff }) => {
+  const shift = DiffService.offsetShift(pointDiff);
+
+  return (
+    <div className={`flex items-start p-2 my-1 rounded-lg border ${STATUS_STYLES[pointDiff.status]}`}>
+      <File className="w-4 h-4 text-green-600 mr-2 mt-0.5 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center space-x-2">
+          <span className="font-medium">{pointDiff.name}</span>
+          {pointDiff.status !== 'unchanged' && <span className="text-xs uppercase tracking-wide">{pointDiff.status}</span>}
+          {pointDiff.status === 'moved' && pointDiff.oldPath !== pointDiff.path && (
+            <span className="text-xs font-mono text-slate-500">from {pointDiff.oldPath}</span>
+          )}
+        </div>
+        {pointDiff.changes.length > 0 && (
+          <div className="mt-1 space-y-0.5 text-xs text-slate-700">
+            {pointDiff.changes.map(change => (
+              <div key={change.attribute}>
+                <span className="font-medium">{change.attribute}</span>{' '}
+                <span className="font-mono text-red-700">{change.before ?? '—'}</span>
+                {' → '}
+                <span className="font-mono text-green-700">{change.after ?? '—'}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="ml-3 flex-shrink-0 text-right font-mono text-xs">
+        {pointDiff.oldOffset !== undefined && pointDiff.newOffset !== undefined ? (
+          shift !== 0 ? (
+            <span className="text-blue-700">+{pointDiff.oldOffset} → +{pointDiff.newOffset}</span>
+          ) : (
+            <span className="text-slate-400">+{pointDiff.newOffset}</span>
+          )
+        ) : (
+          <span className="text-slate-400">+{pointDiff.newOffset ?? pointDiff.oldOffset}</span>
+        )}
+      </div>
+    </div>
+  );
+};
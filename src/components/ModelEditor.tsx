@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Undo2, Redo2, Download, Copy, Check, Save, X, CheckCircle, AlertCircle, AlertTriangle } from 'lucide-react';
+import { SunSpecModel, EditResult } from '../types';
+import { EditorService } from '../services/editorService';
+import { ValidationService } from '../services/validationService';
+import { FileService } from '../services/fileService';
+import { TreeView } from './TreeView';
+
+interface ModelEditorProps {
+  model: SunSpecModel;
+  // Resolves to a status message for the toolbar
+  onSave: (model: SunSpecModel) => Promise<string>;
+  // Called with the edited model, or null when the edits are discarded
+  onClose: (model: SunSpecModel | null) => void;
+}
+
+interface EditHistory {
+  past: SunSpecModel[];
+  present: SunSpecModel;
+  future: SunSpecModel[];
+  // Key of the last edit; consecutive edits with the same key share one undo step
+  lastKey?: string;
+}
+
+const MAX_UNDO_STEPS = 200;
+
+// Keyboard undo only applies outside form fields, which have their own
+const isEditingText = (target: EventTarget | null) =>
+  target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+
+export const ModelEditor: React.FC<ModelEditorProps> = ({ model, onSave, onClose }) => {
+  const [history, setHistory] = useState<EditHistory>({ past: [], present: model, future: [] });
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const edited = history.present;
+  const validation = useMemo(() => ValidationService.validateModel(edited), [edited]);
+  const filename = `model_${edited.id}.json`;
+
+  const handleEdit = (result: EditResult, key?: string) => {
+    setStatus(null);
+    setHistory(current => key !== undefined && key === current.lastKey
+      ? { ...current, present: result.model, future: [] }
+      : {
+        past: [...current.past, current.present].slice(-MAX_UNDO_STEPS),
+        present: result.model,
+        future: [],
+        lastKey: key
+      });
+  };
+
+  const undo = () => {
+    setHistory(current => current.past.length === 0 ? current : {
+      past: current.past.slice(0, -1),
+      present: current.past[current.past.length - 1],
+      future: [current.present, ...current.future]
+    });
+  };
+
+  const redo = () => {
+    setHistory(current => current.future.length === 0 ? current : {
+      past: [...current.past, current.present],
+      present: current.future[0],
+      future: current.future.slice(1)
+    });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditingText(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleCopy = async () => {
+    try {
+      await FileService.copyToClipboard(EditorService.toJson(edited));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      setStatus({ message: err instanceof Error ? err.message : 'Failed to copy to the clipboard', isError: true });
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      setStatus({ message: await onSave(edited), isError: false });
+    } catch (err) {
+      setStatus({ message: err instanceof Error ? err.message : 'Failed to save the model', isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (edited === model || window.confirm('Discard all changes to this model?')) {
+      onClose(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 flex flex-wrap items-center gap-3">
+        <div className="inline-flex rounded-lg border border-slate-300 overflow-hidden">
+          <button
+            onClick={undo}
+            disabled={history.past.length === 0}
+            title="Undo (Ctrl+Z)"
+            className="px-3 py-1.5 text-slate-700 hover:bg-slate-50 disabled:opacity-40 transition-colors"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={redo}
+            disabled={history.future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+            className="px-3 py-1.5 text-slate-700 hover:bg-slate-50 border-l border-slate-300 disabled:opacity-40 transition-colors"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        <span className="flex items-center text-sm mr-auto">
+          {validation.errorCount > 0 ? (
+            <><AlertCircle className="w-4 h-4 mr-1.5 text-red-600" />{validation.errorCount} errors</>
+          ) : validation.warningCount > 0 ? (
+            <><AlertTriangle className="w-4 h-4 mr-1.5 text-amber-600" />{validation.warningCount} warnings</>
+          ) : (
+            <><CheckCircle className="w-4 h-4 mr-1.5 text-green-600" />Valid</>
+          )}
+          {validation.errorCount > 0 && validation.warningCount > 0 && `, ${validation.warningCount} warnings`}
+        </span>
+
+        {status && (
+          <span className={`text-sm ${status.isError ? 'text-red-600' : 'text-green-700'}`}>{status.message}</span>
+        )}
+
+        <button
+          onClick={handleCopy}
+          className="inline-flex items-center px-3 py-1.5 bg-slate-100 text-slate-700 text-sm rounded-lg hover:bg-slate-200 transition-colors"
+        >
+          {copied ? <Check className="w-4 h-4 mr-2 text-green-600" /> : <Copy className="w-4 h-4 mr-2" />}
+          {copied ? 'Copied' : 'Copy JSON'}
+        </button>
+        <button
+          onClick={() => FileService.download(filename, EditorService.toJson(edited), 'application/json')}
+          className="inline-flex items-center px-3 py-1.5 bg-slate-100 text-slate-700 text-sm rounded-lg hover:bg-slate-200 transition-colors"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {filename}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !validation.displayable}
+          className="inline-flex items-center px-3 py-1.5 bg-slate-600 text-white text-sm rounded-lg hover:bg-slate-700 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save to Local models
+        </button>
+        <button
+          onClick={() => onClose(edited)}
+          className="inline-flex items-center px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Check className="w-4 h-4 mr-2" />
+          Done
+        </button>
+        <button
+          onClick={handleDiscard}
+          title="Discard changes"
+          className="inline-flex items-center px-3 py-1.5 text-sm text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+        >
+          <X className="w-4 h-4 mr-2" />
+          Discard
+        </button>
+      </div>
+
+      <TreeView model={edited} onEdit={handleEdit} />
+    </div>
+  );
+};
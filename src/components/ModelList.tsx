@@ -1,13 +1,47 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { GitHubService } from '../services/githubService';
-import { ModelInfo } from '../types';
-import { Database, Search, ExternalLink, AlertCircle, Loader2, FileText, ChevronDown, ChevronRight } from 'lucide-react';
+import { findGitHubSource, StoredModelSource } from '../services/modelSourceService';
+import { ModelInfo, ModelSource, CatalogManifest, CatalogUpdates } from '../types';
+import { RefSelector } from './RefSelector';
+import { SourceSelector } from './SourceSelector';
+import { FileUpload } from './FileUpload';
+import { Database, Search, ExternalLink, AlertCircle, Loader2, FileText, ChevronDown, ChevronRight, WifiOff, RefreshCw, CheckCircle, Trash2, Upload } from 'lucide-react';
+
+const LOCAL_CATEGORY = 'local';
 
 interface ModelListProps {
+  source: ModelSource;
+  localSource: StoredModelSource;
+  sources: ModelSource[];
+  activeSourceIds: string[];
+  repo: string;
+  gitRef: string;
   onModelSelect: (modelInfo: ModelInfo) => void;
+  onSourceChange: (repo: string, ref: string) => void;
+  onToggleSource: (sourceId: string) => void;
+  onAddSource: (source: ModelSource) => void;
+  onRemoveSource: (sourceId: string) => void;
+  // Called after Local models were added, replaced or removed
+  onLocalModelsChange?: () => void;
+  // Replaces the introduction when the list is used to pick models for something else
+  description?: string;
 }
 
-export const ModelList: React.FC<ModelListProps> = ({ onModelSelect }) => {
+export const ModelList: React.FC<ModelListProps> = ({
+  source,
+  localSource,
+  sources,
+  activeSourceIds,
+  repo,
+  gitRef,
+  onModelSelect,
+  onSourceChange,
+  onToggleSource,
+  onAddSource,
+  onRemoveSource,
+  onLocalModelsChange,
+  description
+}) => {
   const [models, setModels] = useState<ModelInfo[]>([]);
   const [categorizedModels, setCategorizedModels] = useState<Record<string, { range: string; description: string; models: ModelInfo[] }>>({});
   const [filteredModels, setFilteredModels] = useState<ModelInfo[]>([]);
@@ -15,10 +49,15 @@ export const ModelList: React.FC<ModelListProps> = ({ onModelSelect }) => {
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
-
-  useEffect(() => {
-    loadModels();
-  }, []);
+  const [isOffline, setIsOffline] = useState(false);
+  const [manifest, setManifest] = useState<CatalogManifest | null>(null);
+  const [updates, setUpdates] = useState<CatalogUpdates | null>(null);
+  const [isCheckingUpdates, setIsCheckingUpdates] = useState(false);
+  const [updateError, setUpdateError] = useState<string>('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string>('');
+  const [uploadMessage, setUploadMessage] = useState<string>('');
+  const [uploadWarnings, setUploadWarnings] = useState<string[]>([]);
 
   useEffect(() => {
     if (!searchTerm) {
@@ -34,28 +73,140 @@ export const ModelList: React.FC<ModelListProps> = ({ onModelSelect }) => {
     }
   }, [models, searchTerm]);
 
-  const loadModels = async () => {
+  // Local models always get their own category, which also holds the upload area
+  const showModels = useCallback((modelInfos: ModelInfo[], localInfos: ModelInfo[]) => {
+    const categories = {
+      [LOCAL_CATEGORY]: { range: 'local', description: 'Vendor-specific and draft models stored in this browser', models: localInfos },
+      ...GitHubService.categorizeModels(modelInfos)
+    };
+
+    setModels([...localInfos, ...modelInfos]);
+    setCategorizedModels(categories);
+    return categories;
+  }, []);
+
+  const remoteModels = () => models.filter(model => model.sourceId !== localSource.id);
+
+  const refreshLocalModels = async () => {
+    showModels(remoteModels(), await localSource.listModels());
+    setExpandedCategories(prev => new Set(prev).add(LOCAL_CATEGORY));
+    onLocalModelsChange?.();
+  };
+
+  const loadModels = useCallback(async () => {
     setIsLoading(true);
     setError('');
+    setUpdates(null);
+    setUpdateError('');
 
     try {
-      const modelInfos = await GitHubService.getAllModelsWithMetadata();
-      const categories = GitHubService.categorizeModels(modelInfos);
-      
-      setModels(modelInfos);
-      setCategorizedModels(categories);
-      
-      // Auto-expand first category if no search term
-      if (Object.keys(categories).length > 0) {
-        setExpandedCategories(new Set([Object.keys(categories)[0]]));
-      }
+      const [modelInfos, localInfos] = await Promise.all([source.listModels(), localSource.listModels()]);
+      const categories = showModels(modelInfos, localInfos);
+
+      // Auto-expand local models if there are any, otherwise the first category
+      const firstKey = localInfos.length > 0 ? LOCAL_CATEGORY : Object.keys(categories).find(key => key !== LOCAL_CATEGORY);
+      setExpandedCategories(new Set(firstKey ? [firstKey] : []));
+
+      const githubSource = findGitHubSource(source);
+      setManifest(githubSource?.getManifest() ?? null);
+      setIsOffline(githubSource !== null && !githubSource.getManifest() && GitHubService.isUsingCachedListing());
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load models');
     } finally {
       setIsLoading(false);
     }
+  }, [source, localSource, showModels]);
+
+  // The GitHub source lists another repository or ref without changing identity
+  useEffect(() => {
+    loadModels();
+  }, [loadModels, repo, gitRef]);
+
+  const handleCheckForUpdates = async () => {
+    const githubSource = findGitHubSource(source);
+    if (!githubSource) return;
+    setIsCheckingUpdates(true);
+    setUpdateError('');
+
+    try {
+      setUpdates(await githubSource.checkForUpdates());
+    } catch (err) {
+      setUpdateError(err instanceof Error ? err.message : 'Failed to check for updates');
+    } finally {
+      setIsCheckingUpdates(false);
+    }
+  };
+
+  const handleApplyUpdates = async () => {
+    const githubSource = findGitHubSource(source);
+    if (!githubSource || !updates) return;
+    setIsCheckingUpdates(true);
+    setUpdateError('');
+
+    try {
+      await githubSource.applyUpdates(updates);
+      setUpdates(null);
+      showModels(await source.listModels(), await localSource.listModels());
+      setManifest(githubSource.getManifest());
+    } catch (err) {
+      setUpdateError(err instanceof Error ? err.message : 'Failed to update the catalog');
+    } finally {
+      setIsCheckingUpdates(false);
+    }
   };
 
+  const handleUpload = async (files: File[]) => {
+    setIsUploading(true);
+    setUploadError('');
+    setUploadMessage('');
+    setUploadWarnings([]);
+
+    try {
+      const update = await localSource.addFiles(files);
+      const parts = [
+        update.added.length > 0 && `Added ${update.added.join(', ')}`,
+        update.replaced.length > 0 && `Replaced ${update.replaced.join(', ')}`
+      ].filter(Boolean);
+      setUploadMessage(parts.join('. '));
+      setUploadWarnings(update.warnings);
+      setUploadError(update.errors.join('; '));
+      await refreshLocalModels();
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to add the files');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleReplace = async (model: ModelInfo, file: File) => {
+    setUploadError('');
+    setUploadMessage('');
+    setUploadWarnings([]);
+
+    try {
+      const losses = await localSource.replaceModel(model.filename, file);
+      setUploadMessage(`Replaced ${model.filename} with ${file.name}`);
+      setUploadWarnings(losses.map(loss => `${file.name}: ${loss}`));
+      await refreshLocalModels();
+    } catch (err) {
+      setUploadError(`${file.name}: ${err instanceof Error ? err.message : 'Failed to read file'}`);
+    }
+  };
+
+  const handleRemove = async (model: ModelInfo) => {
+    setUploadError('');
+    setUploadMessage('');
+    setUploadWarnings([]);
+    try {
+      await localSource.deleteModel(model.filename);
+      await refreshLocalModels();
+    } catch (err) {
+      setUploadError(`${model.filename}: ${err instanceof Error ? err.message : 'Failed to remove the model'}`);
+    }
+  };
+
+  const updateCount = updates ? updates.changed.length + updates.added.length + updates.removed.length : 0;
+
   const toggleCategory = (categoryKey: string) => {
     setExpandedCategories(prev => {
       const newSet = new Set(prev);
@@ -77,7 +228,7 @@ export const ModelList: React.FC<ModelListProps> = ({ onModelSelect }) => {
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8">
           <div className="flex items-center justify-center space-x-3">
             <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
-            <span className="text-slate-600">Loading models from GitHub...</span>
+            <span className="text-slate-600">Loading models from {source.label}...</span>
           </div>
         </div>
       </div>
@@ -93,12 +244,24 @@ export const ModelList: React.FC<ModelListProps> = ({ onModelSelect }) => {
             <h3 className="text-lg font-semibold text-red-800">Error Loading Models</h3>
           </div>
           <p className="text-red-600 mb-4">{error}</p>
-          <button
-            onClick={loadModels}
-            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-          >
-            Try Again
-          </button>
+          <div className="flex flex-wrap items-center gap-4">
+            <button
+              onClick={loadModels}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            >
+              Try Again
+            </button>
+            {findGitHubSource(source) && <RefSelector repo={repo} gitRef={gitRef} onChange={onSourceChange} />}
+          </div>
+          <div className="mt-4">
+            <SourceSelector
+              sources={sources}
+              activeSourceIds={activeSourceIds}
+              onToggle={onToggleSource}
+              onAdd={onAddSource}
+              onRemove={onRemoveSource}
+            />
+          </div>
         </div>
       </div>
     );
@@ -114,7 +277,7 @@ export const ModelList: React.FC<ModelListProps> = ({ onModelSelect }) => {
             <h2 className="text-xl font-semibold text-slate-800">SunSpec Models</h2>
           </div>
           <a
-            href="https://github.com/sunspec/models"
+            href={GitHubService.getBrowseUrl()}
             target="_blank"
             rel="noopener noreferrer"
             className="flex items-center space-x-2 text-sm text-slate-600 hover:text-blue-600 transition-colors"
@@ -125,9 +288,66 @@ export const ModelList: React.FC<ModelListProps> = ({ onModelSelect }) => {
         </div>
         
         <p className="text-slate-600 mb-4">
-          Browse and explore SunSpec information model definitions. Select a model to view its detailed structure and points.
+          {description ?? 'Browse and explore SunSpec information model definitions. Select a model to view its detailed structure and points.'}
         </p>
 
+        {isOffline && (
+          <div className="flex items-center space-x-2 mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            <WifiOff className="w-4 h-4 flex-shrink-0" />
+            <span>GitHub is unreachable. Showing the cached catalog for {repo}@{gitRef}.</span>
+          </div>
+        )}
+
+        {/* Model Sources */}
+        <div className="mb-4 p-3 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+          <SourceSelector
+            sources={sources}
+            activeSourceIds={activeSourceIds}
+            onToggle={onToggleSource}
+            onAdd={onAddSource}
+            onRemove={onRemoveSource}
+          />
+          {findGitHubSource(source) && <RefSelector repo={repo} gitRef={gitRef} onChange={onSourceChange} />}
+        </div>
+
+        {/* Bundled Catalog */}
+        {manifest && (
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-slate-600">
+            <span>
+              Catalog bundled {new Date(manifest.generatedAt).toLocaleDateString()} ({manifest.models.length} models)
+            </span>
+            <button
+              onClick={handleCheckForUpdates}
+              disabled={isCheckingUpdates}
+              className="inline-flex items-center px-3 py-1 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${isCheckingUpdates ? 'animate-spin' : ''}`} />
+              Check for updates
+            </button>
+            {updates && updateCount === 0 && (
+              <span className="inline-flex items-center text-green-700">
+                <CheckCircle className="w-4 h-4 mr-1" />
+                Up to date
+              </span>
+            )}
+            {updates && updateCount > 0 && (
+              <>
+                <span className="text-amber-700">
+                  {updates.changed.length} changed, {updates.added.length} added, {updates.removed.length} removed
+                </span>
+                <button
+                  onClick={handleApplyUpdates}
+                  disabled={isCheckingUpdates}
+                  className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Update catalog
+                </button>
+              </>
+            )}
+            {updateError && <span className="text-red-600">{updateError}</span>}
+          </div>
+        )}
+
         {/* Search */}
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-slate-400" />
@@ -152,7 +372,7 @@ export const ModelList: React.FC<ModelListProps> = ({ onModelSelect }) => {
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {filteredModels.map((model) => (
-              <ModelCard key={model.filename} model={model} onClick={handleModelClick} />
+              <ModelCard key={`${model.sourceId}:${model.filename}`} model={model} onClick={handleModelClick} />
             ))}
           </div>
         </div>
@@ -174,7 +394,7 @@ export const ModelList: React.FC<ModelListProps> = ({ onModelSelect }) => {
                     )}
                     <div>
                       <h3 className="text-lg font-semibold text-slate-800">
-                        Models {category.range}
+                        {categoryKey === LOCAL_CATEGORY ? 'Local models' : `Models ${category.range}`}
                       </h3>
                       <p className="text-sm text-slate-600">{category.description}</p>
                     </div>
@@ -186,10 +406,34 @@ export const ModelList: React.FC<ModelListProps> = ({ onModelSelect }) => {
               </div>
               
               {expandedCategories.has(categoryKey) && (
-                <div className="p-4">
+                <div className="p-4 space-y-4">
+                  {categoryKey === LOCAL_CATEGORY && (
+                    <>
+                      <FileUpload onFileUpload={handleUpload} error={uploadError} isLoading={isUploading} />
+                      {uploadMessage && <p className="text-sm text-center text-green-700">{uploadMessage}</p>}
+                      {uploadWarnings.length > 0 && (
+                        <div className="max-w-2xl mx-auto p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                          <p className="font-medium">Not carried over from SMDX:</p>
+                          <ul className="mt-1 list-disc list-inside space-y-0.5">
+                            {uploadWarnings.map(warning => <li key={warning}>{warning}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                    </>
+                  )}
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                     {category.models.map((model) => (
-                      <ModelCard key={model.filename} model={model} onClick={handleModelClick} />
+                      categoryKey === LOCAL_CATEGORY ? (
+                        <ModelCard
+                          key={`${model.sourceId}:${model.filename}`}
+                          model={model}
+                          onClick={handleModelClick}
+                          onReplace={handleReplace}
+                          onRemove={handleRemove}
+                        />
+                      ) : (
+                        <ModelCard key={`${model.sourceId}:${model.filename}`} model={model} onClick={handleModelClick} />
+                      )
                     ))}
                   </div>
                 </div>
@@ -215,9 +459,11 @@ export const ModelList: React.FC<ModelListProps> = ({ onModelSelect }) => {
 interface ModelCardProps {
   model: ModelInfo;
   onClick: (model: ModelInfo) => void;
+  onReplace?: (model: ModelInfo, file: File) => void;
+  onRemove?: (model: ModelInfo) => void;
 }
 
-const ModelCard: React.FC<ModelCardProps> = ({ model, onClick }) => {
+const ModelCard: React.FC<ModelCardProps> = ({ model, onClick, onReplace, onRemove }) => {
   return (
     <div
       onClick={() => onClick(model)}
@@ -252,10 +498,41 @@ const ModelCard: React.FC<ModelCardProps> = ({ model, onClick }) => {
           <div className="mt-2 flex items-center justify-between">
             <span className="text-xs text-slate-500">
               ID: {model.id}
+              {model.pointCount !== undefined && ` · ${model.pointCount} points`}
+              {model.length !== undefined && ` · L ${model.length}`}
             </span>
-            <div className="w-3 h-3 text-slate-400 group-hover:text-blue-600 transition-colors">
-              →
-            </div>
+            {onReplace || onRemove ? (
+              <div className="flex items-center space-x-2" onClick={(e) => e.stopPropagation()}>
+                {onReplace && (
+                  <label title={`Replace ${model.filename}`} className="text-slate-400 hover:text-blue-600 transition-colors cursor-pointer">
+                    <Upload className="w-3.5 h-3.5" />
+                    <input
+                      type="file"
+                      accept=".json,.xml,application/json,application/xml,text/xml"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) onReplace(model, file);
+                      }}
+                    />
+                  </label>
+                )}
+                {onRemove && (
+                  <button
+                    onClick={() => onRemove(model)}
+                    title={`Remove ${model.filename}`}
+                    className="text-slate-400 hover:text-red-600 transition-colors"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            ) : (
+              <div className="w-3 h-3 text-slate-400 group-hover:text-blue-600 transition-colors">
+                →
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,469 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, FolderPlus, ArrowUp, ArrowDown, Copy, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { TreeNode, SunSpecModel, Group, Point, Symbol, EditTarget, EditResult } from '../types';
+import { EditorService, EDITABLE_POINT_TYPES } from '../services/editorService';
+import { SYMBOL_TYPES } from '../services/validationService';
+
+interface NodeEditorProps {
+  node: TreeNode;
+  model: SunSpecModel;
+  // Edits sharing a key, such as typing into one field, are undone together
+  onEdit: (result: EditResult, key?: string) => void;
+}
+
+type TextFields = 'label' | 'desc' | 'detail' | 'notes';
+
+const INPUT_CLASS = 'w-full px-2 py-1 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Empty fields are removed; whole numbers become numbers and anything else a point name
+const parseNumberOrName = (text: string): number | string | undefined => {
+  const trimmed = text.trim();
+  if (trimmed === '') return undefined;
+  return Number.isInteger(Number(trimmed)) ? Number(trimmed) : trimmed;
+};
+
+const parseList = (text: string, separator: RegExp) => {
+  const items = text.split(separator).map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+export const NodeEditor: React.FC<NodeEditorProps> = ({ node, model, onEdit }) => {
+  const [error, setError] = useState<string>('');
+  const templatePath = node.path?.replace(/\[\d+\]/g, '');
+  const isRoot = templatePath === model.group.name;
+  const target: EditTarget | null = templatePath && node.type !== 'model' ? { kind: node.type, path: templatePath } : null;
+
+  useEffect(() => setError(''), [node.id]);
+
+  // Structural edits report their errors here instead of throwing out of the handler
+  const run = (edit: () => EditResult | SunSpecModel, key?: string) => {
+    try {
+      const result = edit();
+      const edited = 'model' in result ? result : { model: result };
+      if (edited.model !== model) onEdit(edited, key);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Edit failed');
+    }
+  };
+
+  const updateFields = (patch: object, field: string) => {
+    const key = `${node.id}:${field}`;
+    if (node.type === 'model') run(() => EditorService.updateModel(model, patch as Partial<SunSpecModel>), key);
+    else if (node.type === 'group' && templatePath) run(() => EditorService.updateGroup(model, templatePath, patch as Partial<Group>), key);
+    else if (templatePath) run(() => EditorService.updatePoint(model, templatePath, patch as Partial<Point>), key);
+  };
+
+  const data = node.data as SunSpecModel | Group | Point;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {(node.type === 'group' || node.type === 'model') && (
+          <>
+            <ActionButton
+              icon={<Plus className="w-4 h-4" />}
+              label="Add point"
+              onClick={() => run(() => EditorService.addPoint(model, templatePath ?? model.group.name))}
+            />
+            <ActionButton
+              icon={<FolderPlus className="w-4 h-4" />}
+              label="Add group"
+              onClick={() => run(() => EditorService.addGroup(model, templatePath ?? model.group.name))}
+            />
+          </>
+        )}
+        {target && !isRoot && (
+          <>
+            <ActionButton icon={<ArrowUp className="w-4 h-4" />} label="Move up" onClick={() => run(() => EditorService.move(model, target, -1))} />
+            <ActionButton icon={<ArrowDown className="w-4 h-4" />} label="Move down" onClick={() => run(() => EditorService.move(model, target, 1))} />
+            <ActionButton icon={<Copy className="w-4 h-4" />} label="Duplicate" onClick={() => run(() => EditorService.duplicate(model, target))} />
+            <ActionButton
+              icon={<Trash2 className="w-4 h-4" />}
+              label="Delete"
+              danger
+              onClick={() => run(() => ({ model: EditorService.remove(model, target), path: target.path.split('.').slice(0, -1).join('.') }))}
+            />
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="space-y-3">
+        {node.type === 'model' ? (
+          <EditorField label="Model ID">
+            <input
+              type="number"
+              min={1}
+              value={model.id}
+              onChange={(e) => updateFields({ id: Number(e.target.value) || 0 }, 'id')}
+              className={`${INPUT_CLASS} font-mono`}
+            />
+          </EditorField>
+        ) : target && (
+          <EditorField label="Name">
+            <NameInput
+              key={node.id}
+              name={(data as Group | Point).name}
+              onCommit={(name) => run(() => EditorService.rename(model, target, name))}
+            />
+          </EditorField>
+        )}
+
+        {node.type === 'group' && <GroupFields group={data as Group} isRoot={isRoot} onChange={updateFields} />}
+        {node.type === 'point' && <PointFields point={data as Point} onChange={updateFields} />}
+
+        {(['label', 'desc', 'detail', 'notes'] as TextFields[]).map(field => (
+          <EditorField key={field} label={field === 'desc' ? 'Description' : field.charAt(0).toUpperCase() + field.slice(1)}>
+            {field === 'label' ? (
+              <input
+                type="text"
+                value={data[field] ?? ''}
+                onChange={(e) => updateFields({ [field]: e.target.value || undefined }, field)}
+                className={INPUT_CLASS}
+              />
+            ) : (
+              <textarea
+                rows={2}
+                value={data[field] ?? ''}
+                onChange={(e) => updateFields({ [field]: e.target.value || undefined }, field)}
+                className={INPUT_CLASS}
+              />
+            )}
+          </EditorField>
+        ))}
+
+        <EditorField label="Comments" hint="One per line">
+          <ListInput
+            key={`${node.id}:comments`}
+            items={data.comments}
+            separator={/\n/}
+            join={'\n'}
+            multiline
+            onChange={(comments) => updateFields({ comments }, 'comments')}
+          />
+        </EditorField>
+
+        {node.type === 'point' && (
+          <SymbolsEditor
+            point={data as Point}
+            onChange={(symbols, field) => updateFields({ symbols }, field)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+const GroupFields: React.FC<{ group: Group; isRoot: boolean; onChange: (patch: Partial<Group>, field: string) => void }> = ({ group, isRoot, onChange }) => {
+  return (
+    <>
+      <EditorField label="Type">
+        <select value={group.type} onChange={(e) => onChange({ type: e.target.value as Group['type'] }, 'type')} className={INPUT_CLASS}>
+          <option value="group">group</option>
+          <option value="sync">sync</option>
+        </select>
+      </EditorField>
+      {!isRoot && (
+        <EditorField label="Count" hint="Number or point name; empty for a single instance">
+          <input
+            type="text"
+            value={group.count ?? ''}
+            onChange={(e) => onChange({ count: parseNumberOrName(e.target.value) }, 'count')}
+            className={`${INPUT_CLASS} font-mono`}
+          />
+        </EditorField>
+      )}
+    </>
+  );
+};
+
+const PointFields: React.FC<{ point: Point; onChange: (patch: Partial<Point>, field: string) => void }> = ({ point, onChange }) => {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <EditorField label="Type" hint="Sets the default size">
+          <select value={point.type} onChange={(e) => onChange({ type: e.target.value }, 'type')} className={INPUT_CLASS}>
+            {!EDITABLE_POINT_TYPES.includes(point.type) && <option value={point.type}>{point.type}</option>}
+            {EDITABLE_POINT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </EditorField>
+        <EditorField label="Size" hint="Registers">
+          <input
+            type="number"
+            min={1}
+            value={point.size ?? ''}
+            onChange={(e) => onChange({ size: Number(e.target.value) || EditorService.defaultSize(point.type) }, 'size')}
+            className={`${INPUT_CLASS} font-mono`}
+          />
+        </EditorField>
+        <EditorField label="Scale factor" hint="Number or point name">
+          <input
+            type="text"
+            value={point.sf ?? ''}
+            onChange={(e) => onChange({ sf: parseNumberOrName(e.target.value) }, 'sf')}
+            className={`${INPUT_CLASS} font-mono`}
+          />
+        </EditorField>
+        <EditorField label="Units">
+          <input
+            type="text"
+            value={point.units ?? ''}
+            onChange={(e) => onChange({ units: e.target.value || undefined }, 'units')}
+            className={INPUT_CLASS}
+          />
+        </EditorField>
+        <EditorField label="Value" hint="Fixed value, e.g. the model ID">
+          <input
+            type="text"
+            value={point.value ?? ''}
+            onChange={(e) => {
+              const value = parseNumberOrName(e.target.value);
+              onChange({ value: typeof value === 'string' ? e.target.value : value }, 'value');
+            }}
+            className={`${INPUT_CLASS} font-mono`}
+          />
+        </EditorField>
+        <EditorField label="Count" hint="Repeated points">
+          <input
+            type="number"
+            min={1}
+            value={point.count ?? ''}
+            onChange={(e) => onChange({ count: e.target.value === '' ? undefined : Number(e.target.value) }, 'count')}
+            className={`${INPUT_CLASS} font-mono`}
+          />
+        </EditorField>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <EditorField label="Access">
+          <select
+            value={point.access ?? ''}
+            onChange={(e) => onChange({ access: (e.target.value || undefined) as Point['access'] }, 'access')}
+            className={INPUT_CLASS}
+          >
+            <option value="">—</option>
+            <option value="R">R</option>
+            <option value="RW">RW</option>
+          </select>
+        </EditorField>
+        <EditorField label="Mandatory">
+          <select
+            value={point.mandatory ?? ''}
+            onChange={(e) => onChange({ mandatory: (e.target.value || undefined) as Point['mandatory'] }, 'mandatory')}
+            className={INPUT_CLASS}
+          >
+            <option value="">—</option>
+            <option value="M">M</option>
+            <option value="O">O</option>
+          </select>
+        </EditorField>
+        <EditorField label="Static">
+          <select
+            value={point.static ?? ''}
+            onChange={(e) => onChange({ static: (e.target.value || undefined) as Point['static'] }, 'static')}
+            className={INPUT_CLASS}
+          >
+            <option value="">—</option>
+            <option value="D">D</option>
+            <option value="S">S</option>
+          </select>
+        </EditorField>
+      </div>
+
+      <EditorField label="Standards" hint="Comma separated">
+        <ListInput
+          key={`${point.name}:standards`}
+          items={point.standards}
+          separator={/,/}
+          join=", "
+          onChange={(standards) => onChange({ standards }, 'standards')}
+        />
+      </EditorField>
+    </>
+  );
+};
+
+const SymbolsEditor: React.FC<{ point: Point; onChange: (symbols: Symbol[] | undefined, field: string) => void }> = ({ point, onChange }) => {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const symbols = point.symbols ?? [];
+
+  if (!SYMBOL_TYPES.has(point.type) && symbols.length === 0) return null;
+
+  const update = (index: number, patch: Partial<Symbol>, field: string) => {
+    const next = symbols.map((symbol, position) => {
+      if (position !== index) return symbol;
+      const updated: Symbol = { ...symbol, ...patch };
+      (Object.keys(patch) as (keyof Symbol)[]).forEach(key => {
+        if (patch[key] === undefined) delete updated[key];
+      });
+      return updated;
+    });
+    onChange(next, `symbols[${index}].${field}`);
+  };
+
+  const move = (index: number, offset: number) => {
+    const destination = index + offset;
+    if (destination < 0 || destination >= symbols.length) return;
+    const next = [...symbols];
+    next.splice(destination, 0, ...next.splice(index, 1));
+    onChange(next, 'symbols');
+  };
+
+  const add = () => {
+    const values = symbols.map(symbol => Number(symbol.value)).filter(value => Number.isFinite(value));
+    const value = values.length > 0 ? Math.max(...values) + 1 : 0;
+    onChange([...symbols, { name: `SYMBOL_${value}`, value }], 'symbols');
+    setExpanded(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-slate-700">
+          Symbols {point.type.startsWith('bitfield') ? '(value is the bit number)' : ''}
+        </span>
+        <ActionButton icon={<Plus className="w-4 h-4" />} label="Add symbol" onClick={add} />
+      </div>
+      <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+        {symbols.map((symbol, index) => (
+          <div key={index} className="p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <button onClick={() => setExpanded(expanded === index ? null : index)} className="text-slate-400 hover:text-slate-600">
+                {expanded === index ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </button>
+              <input
+                type="text"
+                value={symbol.name}
+                onChange={(e) => update(index, { name: e.target.value }, 'name')}
+                className={`${INPUT_CLASS} font-mono`}
+                aria-label="Symbol name"
+              />
+              <input
+                type="number"
+                value={symbol.value ?? ''}
+                onChange={(e) => update(index, { value: Number(e.target.value) }, 'value')}
+                className={`${INPUT_CLASS} font-mono w-20 flex-shrink-0`}
+                aria-label="Symbol value"
+              />
+              <button onClick={() => move(index, -1)} title="Move up" className="text-slate-400 hover:text-slate-600">
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button onClick={() => move(index, 1)} title="Move down" className="text-slate-400 hover:text-slate-600">
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onChange(symbols.length > 1 ? symbols.filter((_, position) => position !== index) : undefined, 'symbols')}
+                title="Remove symbol"
+                className="text-slate-400 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {expanded === index && (
+              <div className="pl-6 space-y-2">
+                {(['label', 'desc', 'detail', 'notes'] as TextFields[]).map(field => (
+                  <input
+                    key={field}
+                    type="text"
+                    placeholder={field === 'desc' ? 'Description' : field.charAt(0).toUpperCase() + field.slice(1)}
+                    value={symbol[field] ?? ''}
+                    onChange={(e) => update(index, { [field]: e.target.value || undefined }, field)}
+                    className={INPUT_CLASS}
+                  />
+                ))}
+                <ListInput
+                  items={symbol.comments}
+                  separator={/\n/}
+                  join={'\n'}
+                  multiline
+                  placeholder="Comments, one per line"
+                  onChange={(comments) => update(index, { comments }, 'comments')}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Names are committed on blur or Enter, since a half-typed name may clash with a sibling
+const NameInput: React.FC<{ name: string; onCommit: (name: string) => void }> = ({ name, onCommit }) => {
+  const [draft, setDraft] = useState(name);
+
+  useEffect(() => setDraft(name), [name]);
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => onCommit(draft.trim())}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') onCommit(draft.trim());
+        if (e.key === 'Escape') setDraft(name);
+      }}
+      className={`${INPUT_CLASS} font-mono`}
+    />
+  );
+};
+
+interface ListInputProps {
+  items?: string[];
+  separator: RegExp;
+  join: string;
+  multiline?: boolean;
+  placeholder?: string;
+  onChange: (items: string[] | undefined) => void;
+}
+
+// Keeps the raw text while typing, so separators and blank lines are not swallowed
+const ListInput: React.FC<ListInputProps> = ({ items, separator, join, multiline, placeholder, onChange }) => {
+  const [text, setText] = useState((items ?? []).join(join));
+
+  // Undo and redo replace the items from outside; typing leaves the text alone
+  useEffect(() => {
+    const itemsText = (items ?? []).join(join);
+    setText(current => ((parseList(current, separator) ?? []).join(join) === itemsText ? current : itemsText));
+  }, [items, separator, join]);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    onChange(parseList(value, separator));
+  };
+
+  return multiline ? (
+    <textarea rows={2} value={text} placeholder={placeholder} onChange={(e) => handleChange(e.target.value)} className={INPUT_CLASS} />
+  ) : (
+    <input type="text" value={text} placeholder={placeholder} onChange={(e) => handleChange(e.target.value)} className={INPUT_CLASS} />
+  );
+};
+
+const EditorField: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => {
+  return (
+    <label className="block">
+      <span className="text-xs font-medium text-slate-600">{label}</span>
+      {hint && <span className="ml-2 text-xs text-slate-400">{hint}</span>}
+      <div className="mt-1">{children}</div>
+    </label>
+  );
+};
+
+const ActionButton: React.FC<{ icon: React.ReactNode; label: string; danger?: boolean; onClick: () => void }> = ({ icon, label, danger, onClick }) => {
+  return (
+    <button
+      onClick={onClick}
+      title={label}
+      className={`inline-flex items-center px-2.5 py-1 text-sm rounded-lg border transition-colors ${
+        danger ? 'border-red-200 text-red-700 hover:bg-red-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'
+      }`}
+    >
+      {icon}
+      <span className="ml-1.5">{label}</span>
+    </button>
+  );
+};
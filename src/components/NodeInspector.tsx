@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { Database, Folder, File, Braces, Copy, Check } from 'lucide-react';
+import { TreeNode, SunSpecModel, Group, Point, DecodedPoint, ModelReferences, PointReference } from '../types';
+import { LayoutService } from '../services/layoutService';
+import { DecoderService } from '../services/decoderService';
+import { FileService } from '../services/fileService';
+import { ReferenceLink } from './ReferenceLink';
+
+interface NodeInspectorProps {
+  node: TreeNode;
+  model: SunSpecModel;
+  decoded?: DecodedPoint;
+  references: ModelReferences;
+  onFollow: (path: string) => void;
+}
+
+const ACCESS_LABELS: Record<string, string> = { R: 'Read only (R)', RW: 'Read/write (RW)' };
+const MANDATORY_LABELS: Record<string, string> = { M: 'Mandatory (M)', O: 'Optional (O)' };
+const STATIC_LABELS: Record<string, string> = { D: 'Dynamic (D)', S: 'Static (S)' };
+
+export const NodeInspector: React.FC<NodeInspectorProps> = ({ node, model, decoded, references, onFollow }) => {
+  const [showJson, setShowJson] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const jsonPath = node.type === 'model' ? '$' : node.path ? LayoutService.jsonPath(model, node.path) : null;
+  const json = JSON.stringify(node.data, null, 2);
+  const templatePath = node.path?.replace(/\[\d+\]/g, '');
+  const reference = templatePath ? references.bySource.get(templatePath) : undefined;
+  const referenceLink = reference && node.path
+    ? <ReferenceLink reference={reference} sourcePath={node.path} onFollow={onFollow} />
+    : undefined;
+
+  const handleCopy = async () => {
+    try {
+      await FileService.copyToClipboard(json);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy the node JSON:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start space-x-2">
+        {node.type === 'model' && <Database className="w-5 h-5 mt-0.5 text-blue-600 flex-shrink-0" />}
+        {node.type === 'group' && <Folder className="w-5 h-5 mt-0.5 text-amber-600 flex-shrink-0" />}
+        {node.type === 'point' && <File className="w-5 h-5 mt-0.5 text-green-600 flex-shrink-0" />}
+        <div className="min-w-0">
+          <h3 className="font-semibold text-slate-800 break-words">{node.name}</h3>
+          {node.label && <p className="text-sm text-slate-600">{node.label}</p>}
+        </div>
+      </div>
+
+      <InspectorSection title="Location">
+        {node.address !== undefined && node.size !== undefined && (
+          <Field label="Address">
+            <span className="font-mono">
+              {node.size > 1 ? `${node.address}–${node.address + node.size - 1}` : node.address}
+              <span className="ml-2 text-slate-400">0x{node.address.toString(16).toUpperCase().padStart(4, '0')}</span>
+            </span>
+          </Field>
+        )}
+        <Field label="Offset"><span className="font-mono">+{node.offset ?? 0}</span></Field>
+        <Field label="Size">{node.size === 1 ? '1 register' : `${node.size ?? 0} registers`}</Field>
+        {node.path && <Field label="Tree path"><span className="font-mono break-all">{node.path}</span></Field>}
+        <Field label="JSON path"><span className="font-mono break-all">{jsonPath}</span></Field>
+      </InspectorSection>
+
+      {node.type === 'point' && <PointFields point={node.data as Point} decoded={decoded} sfLink={referenceLink} />}
+      {node.type === 'group' && <GroupFields group={node.data as Group} countLink={referenceLink} />}
+      {node.type === 'model' && (
+        <InspectorSection title="Model">
+          <Field label="ID"><span className="font-mono">{model.id}</span></Field>
+          <Field label="Root group"><span className="font-mono">{model.group.name}</span></Field>
+        </InspectorSection>
+      )}
+
+      <TextFields data={node.data as SunSpecModel | Group | Point} />
+
+      {node.type === 'point' && (node.data as Point).symbols && (
+        <SymbolTable point={node.data as Point} />
+      )}
+
+      {templatePath && references.usedBy.has(templatePath) && (
+        <UsedBy references={references.usedBy.get(templatePath) ?? []} onFollow={onFollow} />
+      )}
+
+      <div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowJson(!showJson)}
+            className={`inline-flex items-center px-3 py-1.5 text-sm rounded-lg transition-colors ${
+              showJson ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            <Braces className="w-4 h-4 mr-2" />
+            Raw JSON
+          </button>
+          {showJson && (
+            <button
+              onClick={handleCopy}
+              className="inline-flex items-center px-3 py-1.5 text-sm bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors"
+            >
+              {copied ? <Check className="w-4 h-4 mr-2 text-green-600" /> : <Copy className="w-4 h-4 mr-2" />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          )}
+        </div>
+        {showJson && (
+          <pre className="mt-2 p-3 max-h-96 overflow-auto text-xs font-mono text-slate-800 bg-slate-50 rounded-lg border border-slate-200">
+            {json}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const PointFields: React.FC<{ point: Point; decoded?: DecodedPoint; sfLink?: React.ReactNode }> = ({ point, decoded, sfLink }) => {
+  return (
+    <InspectorSection title="Point">
+      <Field label="Type"><span className="font-mono">{point.type}</span></Field>
+      <Field label="Size"><span className="font-mono">{point.size}</span></Field>
+      <Field label="Count" value={point.count} />
+      <Field label="Value" value={point.value} />
+      <Field label="Scale factor" value={point.sf}>{sfLink}</Field>
+      <Field label="Units" value={point.units} />
+      <Field label="Access" value={point.access && ACCESS_LABELS[point.access]} />
+      <Field label="Mandatory" value={point.mandatory && MANDATORY_LABELS[point.mandatory]} />
+      <Field label="Static" value={point.static && STATIC_LABELS[point.static]} />
+      <Field label="Standards" value={point.standards?.join(', ')} />
+      {decoded && (
+        <Field label="Decoded">
+          <span className={`font-mono ${decoded.implemented ? 'text-sky-800' : 'text-slate-500 italic'}`}>
+            {DecoderService.formatValue(decoded, point)}
+          </span>
+        </Field>
+      )}
+    </InspectorSection>
+  );
+};
+
+const GroupFields: React.FC<{ group: Group; countLink?: React.ReactNode }> = ({ group, countLink }) => {
+  return (
+    <InspectorSection title="Group">
+      <Field label="Type"><span className="font-mono">{group.type}</span></Field>
+      <Field label="Count" value={group.count}>{countLink}</Field>
+      <Field label="Points" value={group.points?.length ?? 0} />
+      <Field label="Groups" value={group.groups?.length ?? 0} />
+    </InspectorSection>
+  );
+};
+
+const TextFields: React.FC<{ data: SunSpecModel | Group | Point }> = ({ data }) => {
+  return (
+    <InspectorSection title="Documentation">
+      <Field label="Description" value={data.desc} />
+      <Field label="Detail" value={data.detail} />
+      <Field label="Notes" value={data.notes} />
+      <Field label="Comments">
+        {data.comments && data.comments.length > 0 ? (
+          <ul className="list-disc pl-4 space-y-1">
+            {data.comments.map((comment, index) => <li key={index}>{comment}</li>)}
+          </ul>
+        ) : undefined}
+      </Field>
+    </InspectorSection>
+  );
+};
+
+const SymbolTable: React.FC<{ point: Point }> = ({ point }) => {
+  const symbols = point.symbols ?? [];
+  const isBitfield = point.type.startsWith('bitfield');
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-slate-700 mb-2">Symbols ({symbols.length})</h4>
+      <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+        {symbols.map((symbol, index) => (
+          <div key={index} className="p-2 text-xs space-y-1">
+            <div className="flex items-start justify-between">
+              <div className="min-w-0">
+                <span className="font-mono font-medium text-slate-800">{symbol.name}</span>
+                {symbol.label && <span className="ml-2 text-slate-600">{symbol.label}</span>}
+              </div>
+              <span className="ml-2 px-1.5 py-0.5 bg-slate-200 text-slate-700 rounded font-mono flex-shrink-0">
+                {isBitfield ? `bit ${symbol.value}` : String(symbol.value)}
+              </span>
+            </div>
+            {symbol.desc && <p className="text-slate-600">{symbol.desc}</p>}
+            {symbol.detail && <p className="text-slate-500">{symbol.detail}</p>}
+            {symbol.notes && <p className="text-slate-500 italic">{symbol.notes}</p>}
+            {symbol.comments?.map((comment, commentIndex) => (
+              <p key={commentIndex} className="text-slate-500">• {comment}</p>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Points and groups whose scale factor or count names this point
+const UsedBy: React.FC<{ references: PointReference[]; onFollow: (path: string) => void }> = ({ references, onFollow }) => {
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-slate-700 mb-2">Used by ({references.length})</h4>
+      <ul className="space-y-1 text-sm">
+        {references.map(reference => (
+          <li key={`${reference.kind}:${reference.source}`} className="flex items-center justify-between">
+            <button
+              onClick={() => onFollow(reference.source)}
+              className="font-mono text-blue-700 hover:underline truncate text-left"
+              title={`Go to ${reference.source}`}
+            >
+              {reference.source}
+            </button>
+            <span className="ml-2 text-xs text-slate-500 flex-shrink-0">{reference.kind === 'sf' ? 'scale factor' : 'count'}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const InspectorSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => {
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-slate-700 mb-2">{title}</h4>
+      <dl className="space-y-1.5 text-sm">{children}</dl>
+    </div>
+  );
+};
+
+// Absent fields show a dash, so every field the model format defines is listed
+const Field: React.FC<{ label: string; value?: string | number; children?: React.ReactNode }> = ({ label, value, children }) => {
+  const content = children ?? (value !== undefined && value !== '' ? String(value) : undefined);
+  return (
+    <div className="grid grid-cols-[7rem_1fr] gap-2">
+      <dt className="text-slate-500">{label}</dt>
+      <dd className="text-slate-800 min-w-0 leading-relaxed">{content ?? <span className="text-slate-300">—</span>}</dd>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Search, Loader2, AlertCircle, RefreshCw, Folder, Circle } from 'lucide-react';
+import { ModelInfo, ModelSource, SearchEntry, SearchIndex, SearchMatch } from '../types';
+import { SearchService } from '../services/searchService';
+import { RouteService, Route } from '../services/routeService';
+
+// Matches listed per model until the user asks for the rest
+const VISIBLE_MATCHES = 25;
+
+interface PointSearchProps {
+  sources: ModelSource[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  linkTo: (info: ModelInfo, entry: SearchEntry) => Route;
+  onOpen: (route: Route) => void;
+}
+
+export const PointSearch: React.FC<PointSearchProps> = ({ sources, query, onQueryChange, linkTo, onOpen }) => {
+  const [input, setInput] = useState(query);
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [error, setError] = useState<string>('');
+  const [showAll, setShowAll] = useState<Set<string>>(new Set());
+
+  const loadIndex = useCallback(async (refresh: boolean = false) => {
+    setError('');
+    setIndex(null);
+    setProgress(null);
+    try {
+      const loaded = await SearchService.getIndex(sources, (done, total) => setProgress({ loaded: done, total }), refresh);
+      setIndex(loaded);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build the search index');
+    }
+  }, [sources]);
+
+  useEffect(() => {
+    loadIndex();
+  }, [loadIndex]);
+
+  // Back and forward change the query from outside
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  const results = useMemo(() => index ? SearchService.search(index, input) : [], [index, input]);
+  const matchCount = results.reduce((count, result) => count + result.matches.length, 0);
+
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    setShowAll(new Set());
+    onQueryChange(value);
+  };
+
+  const handleOpen = (e: React.MouseEvent, route: Route) => {
+    // Let modified clicks open the link in a new tab
+    if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+    e.preventDefault();
+    onOpen(route);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <Search className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-semibold text-slate-800 mr-auto">Point Search</h2>
+          <button
+            onClick={() => loadIndex(true)}
+            disabled={!index && !error}
+            title="Reload every model and rebuild the index"
+            className="inline-flex items-center px-3 py-1.5 text-sm text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Rebuild index
+          </button>
+        </div>
+
+        <p className="text-slate-600 mb-4">
+          Search the points and groups of every model in the catalog by name, label, description, units, type and
+          standards. All terms must match; scope a term to one field with <code className="text-sm">name:</code>,{' '}
+          <code className="text-sm">label:</code>, <code className="text-sm">desc:</code>,{' '}
+          <code className="text-sm">units:</code>, <code className="text-sm">type:</code> or{' '}
+          <code className="text-sm">standard:</code>, e.g. <code className="text-sm">units:VAr</code>.
+        </p>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            autoFocus
+            placeholder="Search points, e.g. WMaxLim or units:VAr"
+            value={input}
+            onChange={(e) => handleInputChange(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+          />
+        </div>
+
+        <div className="mt-3 text-sm text-slate-500">
+          {error ? (
+            <span className="flex items-center text-red-600">
+              <AlertCircle className="w-4 h-4 mr-2" />
+              {error}
+            </span>
+          ) : !index ? (
+            <span className="flex items-center">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Indexing models{progress ? ` (${progress.loaded}/${progress.total})` : ''}...
+            </span>
+          ) : (
+            <span>
+              {index.models.length} models indexed
+              {index.failed.length > 0 && `, ${index.failed.length} could not be loaded`}
+              {input.trim() && ` · ${matchCount} matches in ${results.length} models`}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {results.map(result => {
+        const key = `${result.info.sourceId}:${result.info.filename}`;
+        const visible = showAll.has(key) ? result.matches : result.matches.slice(0, VISIBLE_MATCHES);
+
+        return (
+          <div key={key} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="p-4 bg-slate-50 border-b border-slate-200 flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-slate-800">
+                  Model {result.info.id}{result.info.label && ` — ${result.info.label}`}
+                </h3>
+                <p className="text-sm text-slate-500">{result.info.filename}</p>
+              </div>
+              <span className="px-3 py-1 bg-blue-100 text-blue-700 text-sm rounded-full font-medium">
+                {result.matches.length} matches
+              </span>
+            </div>
+
+            <ul className="divide-y divide-slate-100">
+              {visible.map(match => {
+                const route = linkTo(result.info, match.entry);
+                return (
+                  <li key={match.entry.path}>
+                    <a
+                      href={RouteService.format(route)}
+                      onClick={(e) => handleOpen(e, route)}
+                      className="flex items-start px-4 py-2 hover:bg-blue-50 transition-colors"
+                    >
+                      {match.entry.kind === 'group' ? (
+                        <Folder className="w-4 h-4 mt-0.5 mr-3 text-amber-500 flex-shrink-0" />
+                      ) : (
+                        <Circle className="w-4 h-4 mt-0.5 mr-3 text-blue-500 flex-shrink-0" />
+                      )}
+                      <SearchMatchRow match={match} />
+                    </a>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {visible.length < result.matches.length && (
+              <button
+                onClick={() => setShowAll(current => new Set(current).add(key))}
+                className="w-full p-2 text-sm text-blue-600 hover:bg-slate-50 border-t border-slate-100 transition-colors"
+              >
+                Show all {result.matches.length} matches
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {index && input.trim() && results.length === 0 && (
+        <div className="text-center py-12">
+          <Search className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+          <p className="text-slate-600">No points match "{input.trim()}"</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SearchMatchRow: React.FC<{ match: SearchMatch }> = ({ match }) => {
+  const { entry, fields } = match;
+  return (
+    <div className="min-w-0 flex-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono font-medium text-slate-800">{entry.name}</span>
+        {entry.label && <span className="text-slate-600">{entry.label}</span>}
+        {entry.kind === 'point' && entry.type && (
+          <span className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded text-xs">{entry.type}</span>
+        )}
+        {entry.units && <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded text-xs">{entry.units}</span>}
+        {entry.standards?.map(standard => (
+          <span key={standard} className="px-2 py-0.5 bg-purple-100 text-purple-700 rounded text-xs">{standard}</span>
+        ))}
+      </div>
+      <div className="font-mono text-xs text-slate-400 truncate">{entry.path}</div>
+      {entry.desc && <p className="text-sm text-slate-500 truncate">{entry.desc}</p>}
+      <div className="text-xs text-slate-400">Matched {fields.join(', ')}</div>
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useMemo, useEffect, useRef } from 'react';
+import { ArrowUp, ArrowDown, Columns, Folder, RotateCcw } from 'lucide-react';
+import { TreeNode, Point, PointTableColumn, PointTableSettings } from '../types';
+import { Highlight } from './Highlight';
+
+interface PointTableProps {
+  // The filtered tree; every point left in it becomes a row
+  tree: TreeNode | null;
+  selectedId: string | null;
+  // Changes whenever the selection should be scrolled into view
+  focusRequest: number;
+  highlightTerms: string[];
+  settings: PointTableSettings;
+  onSettingsChange: (settings: PointTableSettings) => void;
+  onSelect: (node: TreeNode) => void;
+}
+
+interface PointRow {
+  node: TreeNode;
+  point: Point;
+  group: TreeNode;
+}
+
+interface ColumnDefinition {
+  id: PointTableColumn;
+  label: string;
+  width: number;
+  numeric?: boolean;
+  value: (row: PointRow) => string | number | undefined;
+}
+
+// Absent attributes show their SunSpec defaults, as the filters match them
+const COLUMNS: ColumnDefinition[] = [
+  { id: 'group', label: 'Group', width: 180, value: row => row.group.path },
+  { id: 'name', label: 'Name', width: 140, value: row => row.node.name },
+  { id: 'label', label: 'Label', width: 160, value: row => row.point.label },
+  { id: 'address', label: 'Address', width: 80, numeric: true, value: row => row.node.address },
+  { id: 'offset', label: 'Offset', width: 70, numeric: true, value: row => row.node.offset },
+  { id: 'size', label: 'Size', width: 60, numeric: true, value: row => row.node.size },
+  { id: 'type', label: 'Type', width: 100, value: row => row.point.type },
+  { id: 'units', label: 'Units', width: 70, value: row => row.point.units },
+  { id: 'sf', label: 'SF', width: 90, value: row => row.point.sf === undefined ? undefined : String(row.point.sf) },
+  { id: 'access', label: 'Access', width: 70, value: row => row.point.access ?? 'R' },
+  { id: 'mandatory', label: 'Mandatory', width: 90, value: row => row.point.mandatory ?? 'O' },
+  { id: 'static', label: 'Static', width: 70, value: row => row.point.static ?? 'D' },
+  { id: 'desc', label: 'Description', width: 320, value: row => row.point.desc }
+];
+
+const MIN_COLUMN_WIDTH = 48;
+
+const DEFAULT_HIDDEN: PointTableColumn[] = ['address'];
+
+// Points in register order, each with the group that holds it
+const collectRows = (node: TreeNode, group: TreeNode, rows: PointRow[] = []): PointRow[] => {
+  node.children.forEach(child => {
+    if (child.type === 'point') {
+      rows.push({ node: child, point: child.data as Point, group });
+    } else {
+      collectRows(child, child, rows);
+    }
+  });
+  return rows;
+};
+
+// Empty values sort last in either direction
+const compareValues = (a: string | number | undefined, b: string | number | undefined, descending: boolean) => {
+  if (a === undefined || a === '') return b === undefined || b === '' ? 0 : 1;
+  if (b === undefined || b === '') return -1;
+  const order = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true });
+  return descending ? -order : order;
+};
+
+/**
+ * The model's points as one flat table. Shares the tree's filter and selection; columns
+ * sort on click, resize by dragging their right edge and can be hidden.
+ */
+export const PointTable: React.FC<PointTableProps> = ({
+  tree,
+  selectedId,
+  focusRequest,
+  highlightTerms,
+  settings,
+  onSettingsChange,
+  onSelect
+}) => {
+  const rowRefs = useRef(new Map<string, HTMLTableRowElement>());
+
+  const hidden = settings.hidden ?? DEFAULT_HIDDEN;
+  const widths = settings.widths ?? {};
+  const columns = COLUMNS.filter(column => !hidden.includes(column.id));
+  const widthOf = (column: ColumnDefinition) => widths[column.id] ?? column.width;
+
+  const registerOrder = useMemo(() => tree ? collectRows(tree, tree) : [], [tree]);
+
+  const rows = useMemo(() => {
+    const sort = settings.sort;
+    const sortColumn = sort && COLUMNS.find(column => column.id === sort.column);
+    if (!sort || !sortColumn) return registerOrder;
+    return [...registerOrder].sort((a, b) => compareValues(sortColumn.value(a), sortColumn.value(b), sort.descending));
+  }, [registerOrder, settings.sort]);
+
+  // Groups keep register order; the sort applies within each group
+  const sections = useMemo((): { group: TreeNode | null; rows: PointRow[] }[] => {
+    if (!settings.groupByGroup) return [{ group: null, rows }];
+    const byGroup = new Map<string, { group: TreeNode; rows: PointRow[] }>();
+    registerOrder.forEach(row => {
+      if (!byGroup.has(row.group.id)) byGroup.set(row.group.id, { group: row.group, rows: [] });
+    });
+    rows.forEach(row => byGroup.get(row.group.id)?.rows.push(row));
+    return Array.from(byGroup.values());
+  }, [registerOrder, rows, settings.groupByGroup]);
+
+  // Only a new focus request should scroll, not selecting a row, so the selection is read from a ref
+  const selectedIdRef = useRef(selectedId);
+  useEffect(() => {
+    selectedIdRef.current = selectedId;
+  }, [selectedId]);
+
+  useEffect(() => {
+    if (selectedIdRef.current) rowRefs.current.get(selectedIdRef.current)?.scrollIntoView({ block: 'nearest' });
+  }, [focusRequest]);
+
+  const handleSort = (column: PointTableColumn) => {
+    // Ascending, then descending, then back to register order
+    const sort = settings.sort?.column !== column
+      ? { column, descending: false }
+      : settings.sort.descending ? undefined : { column, descending: true };
+    onSettingsChange({ ...settings, sort });
+  };
+
+  const toggleColumn = (column: PointTableColumn) => {
+    onSettingsChange({
+      ...settings,
+      hidden: hidden.includes(column) ? hidden.filter(id => id !== column) : [...hidden, column]
+    });
+  };
+
+  const startResize = (event: React.MouseEvent, column: ColumnDefinition) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const startX = event.clientX;
+    const startWidth = widthOf(column);
+
+    // Nothing else changes the settings while the mouse is held down
+    const handleMove = (moveEvent: MouseEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + moveEvent.clientX - startX));
+      onSettingsChange({ ...settings, widths: { ...widths, [column.id]: width } });
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const renderCell = (column: ColumnDefinition, row: PointRow) => {
+    const value = column.value(row);
+    if (value === undefined) return null;
+    const text = String(value);
+    if (column.id === 'name' || column.id === 'label' || column.id === 'desc') {
+      return <Highlight text={text} terms={highlightTerms} />;
+    }
+    return text;
+  };
+
+  const totalWidth = columns.reduce((sum, column) => sum + widthOf(column), 0);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-3 mb-3 text-sm">
+        <span className="text-slate-600 mr-auto">{rows.length} point{rows.length === 1 ? '' : 's'}</span>
+        <label className="flex items-center space-x-2 text-slate-600">
+          <input
+            type="checkbox"
+            checked={settings.groupByGroup ?? false}
+            onChange={(e) => onSettingsChange({ ...settings, groupByGroup: e.target.checked })}
+          />
+          <span>Group by group</span>
+        </label>
+        <details className="relative">
+          <summary className="inline-flex items-center px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors cursor-pointer list-none">
+            <Columns className="w-4 h-4 mr-2" />
+            Columns
+          </summary>
+          <div className="absolute right-0 z-20 mt-1 w-44 p-2 bg-white border border-slate-200 rounded-lg shadow-lg space-y-1">
+            {COLUMNS.map(column => (
+              <label key={column.id} className="flex items-center space-x-2 text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={!hidden.includes(column.id)}
+                  // At least one column stays visible
+                  disabled={columns.length === 1 && columns[0].id === column.id}
+                  onChange={() => toggleColumn(column.id)}
+                />
+                <span>{column.label}</span>
+              </label>
+            ))}
+            <button
+              onClick={() => onSettingsChange({})}
+              className="inline-flex items-center pt-1 text-blue-600 hover:underline"
+            >
+              <RotateCcw className="w-3.5 h-3.5 mr-1" />
+              Reset table
+            </button>
+          </div>
+        </details>
+      </div>
+
+      <div className="flex-1 overflow-auto border border-slate-200 rounded-lg">
+        <table className="table-fixed text-sm" style={{ width: totalWidth }}>
+          <colgroup>
+            {columns.map(column => <col key={column.id} style={{ width: widthOf(column) }} />)}
+          </colgroup>
+          <thead className="sticky top-0 z-10 bg-white shadow-sm text-left text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              {columns.map(column => (
+                <th
+                  key={column.id}
+                  onClick={() => handleSort(column.id)}
+                  className="relative px-3 py-2 cursor-pointer select-none hover:bg-slate-50"
+                >
+                  <span className="flex items-center truncate">
+                    {column.label}
+                    {settings.sort?.column === column.id && (settings.sort.descending
+                      ? <ArrowDown className="w-3 h-3 ml-1 flex-shrink-0" />
+                      : <ArrowUp className="w-3 h-3 ml-1 flex-shrink-0" />)}
+                  </span>
+                  <div
+                    onMouseDown={(e) => startResize(e, column)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300"
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sections.map(({ group, rows: sectionRows }) => (
+              <React.Fragment key={group?.id ?? 'all'}>
+                {group && (
+                  <tr
+                    onClick={() => onSelect(group)}
+                    className={`border-t border-slate-200 bg-slate-50 cursor-pointer ${
+                      selectedId === group.id ? 'ring-2 ring-inset ring-blue-400' : ''
+                    }`}
+                  >
+                    <td colSpan={columns.length} className="px-3 py-1.5 truncate">
+                      <Folder className="inline w-4 h-4 mr-2 text-amber-600" />
+                      <span className="font-medium text-amber-800">{group.path}</span>
+                      {group.label && <span className="ml-2 text-xs text-slate-500">({group.label})</span>}
+                      <span className="ml-2 text-xs text-slate-400">{sectionRows.length}</span>
+                    </td>
+                  </tr>
+                )}
+                {sectionRows.map(row => (
+                  <tr
+                    key={row.node.id}
+                    ref={element => {
+                      if (element) {
+                        rowRefs.current.set(row.node.id, element);
+                      } else {
+                        rowRefs.current.delete(row.node.id);
+                      }
+                    }}
+                    onClick={() => onSelect(row.node)}
+                    className={`border-t border-slate-100 cursor-pointer ${
+                      selectedId === row.node.id ? 'bg-blue-50 ring-2 ring-inset ring-blue-400' : 'hover:bg-slate-50'
+                    }`}
+                  >
+                    {columns.map(column => (
+                      <td
+                        key={column.id}
+                        title={column.value(row) === undefined ? undefined : String(column.value(row))}
+                        className={`px-3 py-1.5 truncate ${column.numeric ? 'font-mono text-right' : ''} ${
+                          column.id === 'name' ? 'font-medium text-green-800' :
+                          column.id === 'group' || column.id === 'type' ? 'font-mono text-slate-700' : 'text-slate-600'
+                        }`}
+                      >
+                        {renderCell(column, row)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="text-center py-8 text-slate-500">No points match the filter</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useState, useMemo } from 'react';
+import { Table, Download, Shuffle, Eraser, Binary, FileText, Braces, AlertCircle } from 'lucide-react';
+import { Point, DeviceProfile, ComposedProfile, ProfileRow, SimulatedValue, SimulatedImage } from '../types';
+import { ProfileService } from '../services/profileService';
+import { SimulatorService } from '../services/simulatorService';
+import { DecoderService } from '../services/decoderService';
+import { FileService } from '../services/fileService';
+
+interface ProfileAddressTableProps {
+  profile: DeviceProfile;
+  composed: ComposedProfile;
+  onChange: (profile: DeviceProfile) => void;
+}
+
+const ROW_DESCRIPTIONS: Record<Exclude<ProfileRow['kind'], 'point'>, Record<string, string>> = {
+  marker: { SunS: 'SunSpec marker (0x5375 0x6E53)' },
+  header: { ID: 'Model ID', L: 'Model length' },
+  end: { ID: 'End model ID', L: 'End model length' }
+};
+
+const hex = (address: number) => `0x${address.toString(16).toUpperCase().padStart(4, '0')}`;
+
+const describeRow = (row: ProfileRow) =>
+  row.kind === 'point' ? row.point?.label ?? '' : ROW_DESCRIPTIONS[row.kind][row.name] ?? row.point?.label ?? '';
+
+const rowWords = (image: SimulatedImage, row: ProfileRow) =>
+  image.words.slice(row.address - image.startAddress, row.address - image.startAddress + row.size);
+
+// Rows with a value fixed by the profile (marker, headers, counts) cannot be edited
+const isEditable = (row: ProfileRow) => row.kind === 'point' && row.value === undefined && row.point?.type !== 'pad';
+
+/**
+ * The composed map as one address table. Points take values for a simulated register
+ * image, which can be exported for Modbus simulators.
+ */
+export const ProfileAddressTable: React.FC<ProfileAddressTableProps> = ({ profile, composed, onChange }) => {
+  const [mandatoryOnly, setMandatoryOnly] = useState(false);
+
+  const image = useMemo(() => SimulatorService.encode(composed), [composed]);
+  const valueOf = (row: ProfileRow) => row.modelIndex !== undefined && row.path
+    ? profile.models[row.modelIndex].values?.[row.path]
+    : undefined;
+
+  const handleValueChange = (row: ProfileRow, value: SimulatedValue | undefined) => {
+    onChange({
+      ...profile,
+      models: profile.models.map((entry, index) => {
+        if (index !== row.modelIndex || !row.path) return entry;
+        const values = { ...entry.values };
+        if (value === undefined) {
+          delete values[row.path];
+        } else {
+          values[row.path] = value;
+        }
+        return { ...entry, values: Object.keys(values).length > 0 ? values : undefined };
+      })
+    });
+  };
+
+  const download = (extension: string, content: BlobPart, mimeType: string) => {
+    FileService.download(ProfileService.filename(profile).replace(/\.json$/, extension), content, mimeType);
+  };
+
+  const handleCsvExport = () => {
+    const rows = composed.rows.map(row => {
+      const value = valueOf(row);
+      return [
+        row.address,
+        hex(row.address),
+        row.size,
+        row.modelId,
+        row.path ?? row.name,
+        row.point?.type,
+        row.point?.units,
+        Array.isArray(value) ? value.join('|') : value ?? row.value,
+        DecoderService.formatWords(rowWords(image, row)),
+        describeRow(row)
+      ];
+    });
+    download(
+      '.csv',
+      FileService.toCsv([['Address', 'Hex', 'Size', 'Model', 'Point', 'Type', 'Units', 'Value', 'Registers', 'Description'], ...rows]),
+      'text/csv'
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 bg-slate-50 border-b border-slate-200 flex flex-wrap items-center gap-3">
+        <div className="flex items-center space-x-2 mr-auto">
+          <Table className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-slate-800">Address table</h3>
+        </div>
+        <span className="text-sm text-slate-600">
+          {composed.size} registers, {composed.baseAddress}–{composed.endAddress + 1}
+        </span>
+        <button
+          onClick={handleCsvExport}
+          className="inline-flex items-center px-3 py-1.5 bg-slate-100 text-slate-700 text-sm rounded-lg hover:bg-slate-200 transition-colors"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          CSV
+        </button>
+      </div>
+
+      {/* Simulated register image */}
+      <div className="p-4 border-b border-slate-200 flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-slate-600 mr-auto">
+          Enter point values in engineering units to build a register image; unset points are not implemented.
+        </span>
+        <label className="flex items-center space-x-2 text-slate-600">
+          <input type="checkbox" checked={mandatoryOnly} onChange={(e) => setMandatoryOnly(e.target.checked)} />
+          <span>Mandatory only</span>
+        </label>
+        <button
+          onClick={() => onChange({ ...profile, models: SimulatorService.randomize(composed, mandatoryOnly) })}
+          title="Give every unset point a random value"
+          className="inline-flex items-center px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors"
+        >
+          <Shuffle className="w-4 h-4 mr-2" />
+          Randomize
+        </button>
+        <button
+          onClick={() => onChange({ ...profile, models: profile.models.map(entry => ({ ...entry, values: undefined })) })}
+          className="inline-flex items-center px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors"
+        >
+          <Eraser className="w-4 h-4 mr-2" />
+          Clear values
+        </button>
+        <div className="inline-flex rounded-lg border border-slate-300 overflow-hidden">
+          <button
+            onClick={() => download('.bin', SimulatorService.toBinary(image), 'application/octet-stream')}
+            title="Big-endian registers"
+            className="inline-flex items-center px-3 py-1.5 text-slate-700 hover:bg-slate-50 transition-colors"
+          >
+            <Binary className="w-4 h-4 mr-2" />
+            Binary
+          </button>
+          <button
+            onClick={() => download('.txt', SimulatorService.toHexDump(image), 'text/plain')}
+            className="inline-flex items-center px-3 py-1.5 text-slate-700 hover:bg-slate-50 border-l border-slate-300 transition-colors"
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            Hex dump
+          </button>
+          <button
+            onClick={() => download('.registers.json', SimulatorService.toRegisterJson(image), 'application/json')}
+            title="Register address to value map"
+            className="inline-flex items-center px-3 py-1.5 text-slate-700 hover:bg-slate-50 border-l border-slate-300 transition-colors"
+          >
+            <Braces className="w-4 h-4 mr-2" />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      {image.errors.size > 0 && (
+        <div className="flex items-center px-4 py-2 bg-red-50 border-b border-red-200 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+          {image.errors.size} value{image.errors.size === 1 ? '' : 's'} could not be encoded and are left not implemented.
+        </div>
+      )}
+
+      <div className="max-h-[40rem] overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 z-10 bg-white shadow-sm text-left text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="px-4 py-2">Address</th>
+              <th className="px-4 py-2">Hex</th>
+              <th className="px-4 py-2">Size</th>
+              <th className="px-4 py-2">Model</th>
+              <th className="px-4 py-2">Point</th>
+              <th className="px-4 py-2">Type</th>
+              <th className="px-4 py-2">Units</th>
+              <th className="px-4 py-2">Value</th>
+              <th className="px-4 py-2">Registers</th>
+              <th className="px-4 py-2">Description</th>
+            </tr>
+          </thead>
+          <tbody>
+            {composed.rows.map((row, index) => {
+              // A rule above each model's ID register separates the models
+              const startsBlock = index > 0 && row.modelIndex !== composed.rows[index - 1].modelIndex;
+              const error = image.errors.get(row.address);
+              return (
+                <tr
+                  key={index}
+                  className={`${startsBlock ? 'border-t-2 border-slate-300' : 'border-t border-slate-100'} ${
+                    row.kind === 'point' ? '' : 'bg-slate-50 text-slate-600'
+                  }`}
+                >
+                  <td className="px-4 py-1 font-mono">{row.address}</td>
+                  <td className="px-4 py-1 font-mono text-slate-500">{hex(row.address)}</td>
+                  <td className="px-4 py-1 font-mono">{row.size}</td>
+                  <td className="px-4 py-1">{row.modelId}</td>
+                  <td className="px-4 py-1 font-mono text-slate-800">{row.path ?? row.name}</td>
+                  <td className="px-4 py-1 font-mono">{row.point?.type}</td>
+                  <td className="px-4 py-1">{row.point?.units}</td>
+                  <td className="px-4 py-1 font-mono">
+                    {isEditable(row) && row.point ? (
+                      <ValueInput
+                        point={row.point}
+                        value={valueOf(row)}
+                        error={error}
+                        onChange={(value) => handleValueChange(row, value)}
+                      />
+                    ) : row.kind === 'end' && row.name === 'ID' ? '0xFFFF' : row.value}
+                  </td>
+                  <td className="px-4 py-1 font-mono text-xs text-slate-500 whitespace-nowrap">
+                    {DecoderService.formatWords(rowWords(image, row))}
+                  </td>
+                  <td className="px-4 py-1 text-slate-600">{describeRow(row)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+interface ValueInputProps {
+  point: Point;
+  value?: SimulatedValue;
+  error?: string;
+  // Undefined leaves the point not implemented
+  onChange: (value: SimulatedValue | undefined) => void;
+}
+
+const inputClass = (error?: string) =>
+  `w-40 px-2 py-0.5 border rounded text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+    error ? 'border-red-400 bg-red-50' : 'border-slate-300'
+  }`;
+
+// Enums pick a symbol by name and bitfields toggle named bits; everything else is typed
+const ValueInput: React.FC<ValueInputProps> = ({ point, value, error, onChange }) => {
+  const symbols = point.symbols || [];
+  const names = Array.isArray(value) ? value : [];
+
+  let input: React.ReactNode;
+  if (symbols.length > 0 && point.type.startsWith('enum')) {
+    input = (
+      <select
+        value={names[0] ?? ''}
+        onChange={(e) => onChange(e.target.value ? [e.target.value] : undefined)}
+        className={inputClass(error)}
+      >
+        <option value="">not implemented</option>
+        {symbols.map(symbol => <option key={symbol.name} value={symbol.name}>{symbol.name}</option>)}
+      </select>
+    );
+  } else if (symbols.length > 0 && point.type.startsWith('bitfield')) {
+    input = (
+      <details className="w-40">
+        <summary className={`${inputClass(error)} cursor-pointer truncate`}>
+          {value === undefined ? 'not implemented' : names.length === 0 ? 'no bits set' : names.join(' | ')}
+        </summary>
+        <div className="mt-1 p-2 bg-white border border-slate-200 rounded shadow-sm space-y-1">
+          {symbols.map(symbol => (
+            <label key={symbol.name} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={names.includes(symbol.name)}
+                onChange={(e) => onChange(e.target.checked
+                  ? [...names, symbol.name]
+                  : names.filter(name => name !== symbol.name))}
+              />
+              <span>{symbol.name}</span>
+              <span className="text-slate-400">bit {symbol.value}</span>
+            </label>
+          ))}
+          <button onClick={() => onChange(undefined)} className="text-blue-600 hover:underline">
+            Not implemented
+          </button>
+        </div>
+      </details>
+    );
+  } else {
+    input = (
+      <input
+        type="text"
+        value={typeof value === 'string' ? value : ''}
+        placeholder="not implemented"
+        onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+        className={inputClass(error)}
+      />
+    );
+  }
+
+  return (
+    <div title={error}>
+      {input}
+      {error && <p className="mt-0.5 text-xs text-red-600 font-sans">{error}</p>}
+    </div>
+  );
+};
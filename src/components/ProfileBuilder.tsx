@@ -0,0 +1,252 @@
+import React, { useState, useMemo } from 'react';
+import { ListOrdered, FolderOpen, Download, Trash2, ArrowUp, ArrowDown, X, ChevronRight, AlertCircle, AlertTriangle, Loader2, BookOpen } from 'lucide-react';
+import { SunSpecModel, DeviceProfile, ProfileEntry } from '../types';
+import { ProfileService } from '../services/profileService';
+import { LayoutService, MAX_GROUP_INSTANCES } from '../services/layoutService';
+import { FileService } from '../services/fileService';
+import { useProfileDefinitions } from '../hooks/useProfileDefinitions';
+import { ProfileAddressTable } from './ProfileAddressTable';
+
+interface ProfileBuilderProps {
+  profile: DeviceProfile;
+  onChange: (profile: DeviceProfile) => void;
+  loadModel: (entry: ProfileEntry) => Promise<SunSpecModel>;
+  // Changes whenever Local models change, so their definitions are loaded again
+  localVersion: number;
+  // Opens a model of the profile in the tree at its place in the map
+  onOpenModel: (entry: ProfileEntry, model: SunSpecModel, address: number) => void;
+  // Opens the printable report for every model of the profile
+  onReport: () => void;
+}
+
+export const ProfileBuilder: React.FC<ProfileBuilderProps> = ({ profile, onChange, loadModel, localVersion, onOpenModel, onReport }) => {
+  const [error, setError] = useState<string>('');
+  const { definitionOf, models, isLoading, updateModels, moveEntry } = useProfileDefinitions(profile, onChange, loadModel, localVersion);
+
+  // The map is only composed once every model is available
+  const composed = useMemo(() => (models ? ProfileService.compose(profile, models) : null), [profile, models]);
+
+  const handleCountChange = (index: number, path: string, value: string) => {
+    updateModels(models => models.map((entry, position) => {
+      if (position !== index) return entry;
+      const counts = { ...entry.counts };
+      if (value === '') {
+        delete counts[path];
+      } else {
+        counts[path] = Math.min(MAX_GROUP_INSTANCES, Math.max(0, Math.floor(Number(value) || 0)));
+      }
+      return { ...entry, counts: Object.keys(counts).length > 0 ? counts : undefined };
+    }));
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onChange(ProfileService.parse(await file.text()));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? `${file.name}: ${err.message}` : `Failed to load ${file.name}`);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <ListOrdered className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-semibold text-slate-800">Device Profile</h2>
+        </div>
+
+        <p className="text-slate-600 mb-4">
+          Compose the chain of models a device implements. Pick models from the catalog below in register order and
+          set how many instances each repeating group has; the map runs from the SunS marker to the end model.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => onChange({ ...profile, name: e.target.value })}
+            aria-label="Profile name"
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+          />
+          <label className="flex items-center space-x-2 text-sm text-slate-600">
+            <span>Base address</span>
+            <input
+              type="number"
+              min={0}
+              max={0xffff}
+              value={profile.baseAddress}
+              onChange={(e) => onChange({ ...profile, baseAddress: Math.min(0xffff, Math.max(0, Number(e.target.value) || 0)) })}
+              className="w-28 px-2 py-1 border border-slate-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+
+          <label className="inline-flex items-center px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors cursor-pointer">
+            <FolderOpen className="w-4 h-4 mr-2" />
+            Load
+            <input type="file" accept=".json,application/json" onChange={handleFileSelect} className="hidden" />
+          </label>
+          <button
+            onClick={() => FileService.download(ProfileService.filename(profile), ProfileService.toJson(profile), 'application/json')}
+            className="inline-flex items-center px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Save
+          </button>
+          <button
+            onClick={onReport}
+            disabled={profile.models.length === 0}
+            className="inline-flex items-center px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+          >
+            <BookOpen className="w-4 h-4 mr-2" />
+            Report
+          </button>
+          <button
+            onClick={() => onChange({ ...profile, models: [] })}
+            disabled={profile.models.length === 0}
+            className="inline-flex items-center px-4 py-2 text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear
+          </button>
+        </div>
+
+        {error && (
+          <div className="flex items-center space-x-2 mt-4 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 bg-slate-50 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-slate-800">
+            {profile.models.length} model{profile.models.length === 1 ? '' : 's'}
+          </h3>
+          <span className="text-sm text-slate-600 font-mono">SunS @ {profile.baseAddress}</span>
+        </div>
+
+        {profile.models.length > 0 && profile.models[0].id !== 1 && (
+          <div className="flex items-center px-4 py-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-800">
+            <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+            Devices start with the common model (1), which clients read first.
+          </div>
+        )}
+
+        <div className="divide-y divide-slate-100">
+          {profile.models.length === 0 && (
+            <p className="p-4 text-sm text-slate-500">No models yet. Select models in the catalog below to add them in order.</p>
+          )}
+
+          {profile.models.map((entry, index) => {
+            const definition = definitionOf(entry);
+            const model = typeof definition === 'object' ? definition : undefined;
+            const placed = composed?.models[index];
+
+            return (
+              <div key={index} className="flex items-start p-4">
+                <span className="w-28 pt-0.5 font-mono text-sm text-slate-700">{placed?.layout.startAddress ?? '…'}</span>
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-semibold text-slate-800">Model {entry.id}</span>
+                    {model?.group.label && <span className="text-sm text-slate-500 truncate">({model.group.label})</span>}
+                    {entry.local && <span className="px-2 py-0.5 bg-slate-100 text-slate-600 text-xs rounded-full">Local</span>}
+                  </div>
+                  {typeof definition === 'string' && <p className="text-xs text-red-600 mt-1">{definition}</p>}
+
+                  {model && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {LayoutService.repeatingGroups(model).map(repeating => (
+                        <label
+                          key={repeating.path}
+                          className="flex items-center space-x-2 px-2 py-1 bg-white border border-slate-200 rounded-lg text-sm"
+                          title={repeating.path}
+                        >
+                          <span className="font-medium text-amber-800">{repeating.group.name}</span>
+                          {LayoutService.hasFixedCount(repeating.count) ? (
+                            <span className="text-xs text-slate-500">× {repeating.count} fixed</span>
+                          ) : (
+                            <>
+                              <span className="text-xs text-slate-500">× {repeating.count === 0 ? 'L' : repeating.count}</span>
+                              <input
+                                type="number"
+                                min={0}
+                                max={MAX_GROUP_INSTANCES}
+                                placeholder={String(ProfileService.instanceCount(repeating))}
+                                value={entry.counts?.[repeating.path] ?? ''}
+                                onChange={(e) => handleCountChange(index, repeating.path, e.target.value)}
+                                className="w-16 px-2 py-0.5 border border-slate-300 rounded font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </>
+                          )}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-1 text-xs">
+                  {placed && (
+                    <span className="px-2 py-1 mr-2 bg-slate-100 text-slate-700 rounded-full font-mono">L = {placed.layout.length}</span>
+                  )}
+                  <IconButton title="Move up" disabled={index === 0} onClick={() => moveEntry(index, -1)}>
+                    <ArrowUp className="w-4 h-4" />
+                  </IconButton>
+                  <IconButton title="Move down" disabled={index === profile.models.length - 1} onClick={() => moveEntry(index, 1)}>
+                    <ArrowDown className="w-4 h-4" />
+                  </IconButton>
+                  <IconButton title="Remove" onClick={() => updateModels(models => models.filter((_, position) => position !== index))}>
+                    <X className="w-4 h-4" />
+                  </IconButton>
+                  <IconButton
+                    title="Open in the tree at this address"
+                    disabled={!placed}
+                    onClick={() => placed && onOpenModel(entry, placed.model, placed.layout.startAddress)}
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </IconButton>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex items-center p-4 text-sm">
+            <span className="w-28 font-mono text-slate-700">{composed?.endAddress ?? '…'}</span>
+            <span className="text-slate-500">End model (0xFFFF)</span>
+          </div>
+        </div>
+      </div>
+
+      {isLoading && profile.models.length > 0 && (
+        <div className="flex items-center justify-center space-x-2 text-slate-600">
+          <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+          <span>Loading model definitions...</span>
+        </div>
+      )}
+
+      {composed && <ProfileAddressTable profile={profile} composed={composed} onChange={onChange} />}
+    </div>
+  );
+};
+
+const IconButton: React.FC<{ title: string; disabled?: boolean; onClick: () => void; children: React.ReactNode }> = ({
+  title,
+  disabled,
+  onClick,
+  children
+}) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className="p-1 text-slate-500 hover:text-blue-600 hover:bg-slate-100 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+  >
+    {children}
+  </button>
+);
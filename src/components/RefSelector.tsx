@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { GitBranch, Tag, GitCommit, Loader2 } from 'lucide-react';
+import { GitHubService, GitHubRef } from '../services/githubService';
+
+interface RefSelectorProps {
+  repo: string;
+  gitRef: string;
+  onChange: (repo: string, ref: string) => void;
+}
+
+export const RefSelector: React.FC<RefSelectorProps> = ({ repo, gitRef, onChange }) => {
+  const [repoInput, setRepoInput] = useState(repo);
+  const [refInput, setRefInput] = useState(gitRef);
+  const [refs, setRefs] = useState<GitHubRef[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    setRepoInput(repo);
+    setRefInput(gitRef);
+  }, [repo, gitRef]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError('');
+
+    GitHubService.getRefs()
+      .then(result => !cancelled && setRefs(result))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to load refs'))
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repo]);
+
+  const branches = refs.filter(ref => ref.type === 'branch');
+  const tags = refs.filter(ref => ref.type === 'tag');
+  const isKnownRef = refs.some(ref => ref.name === gitRef);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange(repoInput, refInput);
+  };
+
+  return (
+    <form onSubmit={handleApply} className="flex flex-wrap items-center gap-3 text-sm">
+      <label className="flex items-center space-x-2 text-slate-600">
+        <GitBranch className="w-4 h-4 text-slate-500" />
+        <input
+          type="text"
+          value={repoInput}
+          onChange={(e) => setRepoInput(e.target.value)}
+          placeholder="owner/repo"
+          className="w-44 px-2 py-1 border border-slate-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </label>
+
+      <select
+        value={isKnownRef ? gitRef : ''}
+        onChange={(e) => e.target.value && onChange(repo, e.target.value)}
+        disabled={isLoading || refs.length === 0}
+        className="px-2 py-1 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      >
+        <option value="">{isLoading ? 'Loading refs…' : isKnownRef ? 'Select a ref' : 'Pinned commit'}</option>
+        {branches.length > 0 && (
+          <optgroup label="Branches">
+            {branches.map(ref => <option key={`branch:${ref.name}`} value={ref.name}>{ref.name}</option>)}
+          </optgroup>
+        )}
+        {tags.length > 0 && (
+          <optgroup label="Tags">
+            {tags.map(ref => <option key={`tag:${ref.name}`} value={ref.name}>{ref.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+
+      <label className="flex items-center space-x-2 text-slate-600">
+        {tags.some(ref => ref.name === refInput) ? (
+          <Tag className="w-4 h-4 text-slate-500" />
+        ) : (
+          <GitCommit className="w-4 h-4 text-slate-500" />
+        )}
+        <input
+          type="text"
+          value={refInput}
+          onChange={(e) => setRefInput(e.target.value)}
+          placeholder="branch, tag or commit SHA"
+          className="w-56 px-2 py-1 border border-slate-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </label>
+
+      <button
+        type="submit"
+        disabled={repoInput === repo && refInput === gitRef}
+        className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        Load
+      </button>
+
+      {isLoading && <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />}
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </form>
+  );
+};
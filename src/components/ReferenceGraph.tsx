@@ -0,0 +1,174 @@
+import React, { useState, useMemo } from 'react';
+import { Network, AlertCircle } from 'lucide-react';
+import { SunSpecModel } from '../types';
+import { ReferenceService } from '../services/referenceService';
+
+interface ReferenceGraphProps {
+  model: SunSpecModel;
+  onSelect: (path: string) => void;
+}
+
+const ROW_HEIGHT = 22;
+const WIDTH = 760;
+// Referenced points are right-aligned against the left column, their users start the right one
+const TARGET_X = 300;
+const SOURCE_X = 460;
+
+const EDGE_COLORS = { sf: '#0d9488', count: '#d97706' };
+
+export const ReferenceGraph: React.FC<ReferenceGraphProps> = ({ model, onSelect }) => {
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const graph = useMemo(() => {
+    const { references, usedBy } = ReferenceService.collect(model);
+    const resolved = references.filter(reference => reference.target);
+    const sources = resolved.map(reference => reference.source);
+    const sourceRows = new Map(sources.map((source, index) => [source, index]));
+
+    // Ordering targets by the mean row of their users keeps edges from crossing much
+    const meanRow = (target: string) => {
+      const rows = (usedBy.get(target) ?? []).map(reference => sourceRows.get(reference.source) ?? 0);
+      return rows.reduce((sum, row) => sum + row, 0) / rows.length;
+    };
+    const targets = Array.from(usedBy.keys()).sort((a, b) => meanRow(a) - meanRow(b));
+
+    // Scale factors whose users sit in more than one group
+    const sharedGroups = new Map(targets.map(target => [
+      target,
+      new Set((usedBy.get(target) ?? []).map(reference => ReferenceService.parentPath(reference.source))).size
+    ]));
+
+    const rows = Math.max(sources.length, targets.length, 1);
+    const height = rows * ROW_HEIGHT;
+    const targetY = new Map(targets.map((target, index) => [target, (index + 0.5) * height / targets.length]));
+    const sourceY = new Map(sources.map((source, index) => [source, (index + 0.5) * height / sources.length]));
+
+    return {
+      edges: resolved,
+      targets,
+      sources,
+      targetY,
+      sourceY,
+      height,
+      sharedGroups,
+      unresolved: references.filter(reference => !reference.target)
+    };
+  }, [model]);
+
+  const sharedCount = graph.targets.filter(target => (graph.sharedGroups.get(target) ?? 0) > 1).length;
+  // Everything stays visible until a point is hovered, then only its neighbourhood does
+  const isActive = (path: string) => hovered === null || hovered === path || graph.edges.some(edge =>
+    (edge.source === hovered && edge.target === path) || (edge.target === hovered && edge.source === path));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 bg-slate-50 border-b border-slate-200 flex flex-wrap items-center gap-3">
+        <div className="flex items-center space-x-2 mr-auto">
+          <Network className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-slate-800">References</h3>
+        </div>
+        <div className="flex items-center space-x-4 text-sm text-slate-600">
+          <span className="flex items-center">
+            <span className="inline-block w-4 h-0.5 mr-2" style={{ backgroundColor: EDGE_COLORS.sf }} />
+            Scale factor
+          </span>
+          <span className="flex items-center">
+            <span className="inline-block w-4 h-0.5 mr-2" style={{ backgroundColor: EDGE_COLORS.count }} />
+            Count
+          </span>
+        </div>
+      </div>
+
+      <div className="p-4">
+        {graph.edges.length === 0 && graph.unresolved.length === 0 ? (
+          <p className="text-sm text-slate-500">This model has no scale factors or counts that name another point.</p>
+        ) : (
+          <>
+            <p className="text-sm text-slate-600 mb-3">
+              {graph.edges.length} references to {graph.targets.length} points
+              {sharedCount > 0 && `; ${sharedCount} shared across groups (bold)`}. Hover a point to trace its edges, click
+              it to show it in the tree.
+            </p>
+
+            <div className="max-h-[32rem] overflow-auto">
+              <svg viewBox={`0 0 ${WIDTH} ${graph.height}`} width={WIDTH} height={graph.height} className="font-mono text-[11px]">
+                {graph.edges.map(reference => {
+                  const y1 = graph.targetY.get(reference.target!) ?? 0;
+                  const y2 = graph.sourceY.get(reference.source) ?? 0;
+                  const mid = (TARGET_X + SOURCE_X) / 2;
+                  const active = hovered === reference.source || hovered === reference.target;
+                  return (
+                    <path
+                      key={`${reference.kind}:${reference.source}`}
+                      d={`M ${TARGET_X + 6} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${SOURCE_X - 6} ${y2}`}
+                      fill="none"
+                      stroke={EDGE_COLORS[reference.kind]}
+                      strokeWidth={active ? 2 : 1}
+                      opacity={hovered === null || active ? 0.8 : 0.1}
+                    />
+                  );
+                })}
+
+                {graph.targets.map(target => {
+                  const y = graph.targetY.get(target) ?? 0;
+                  const groups = graph.sharedGroups.get(target) ?? 0;
+                  return (
+                    <g
+                      key={target}
+                      className="cursor-pointer"
+                      opacity={isActive(target) ? 1 : 0.3}
+                      onMouseEnter={() => setHovered(target)}
+                      onMouseLeave={() => setHovered(null)}
+                      onClick={() => onSelect(target)}
+                    >
+                      <title>{`${target}: used by ${graph.edges.filter(edge => edge.target === target).length}, in ${groups} groups`}</title>
+                      <circle cx={TARGET_X + 3} cy={y} r={3} fill="#334155" />
+                      <text x={TARGET_X - 4} y={y} dy="0.35em" textAnchor="end" fill="#1e293b" fontWeight={groups > 1 ? 700 : 400}>
+                        {truncate(target)}
+                      </text>
+                    </g>
+                  );
+                })}
+
+                {graph.sources.map(source => {
+                  const y = graph.sourceY.get(source) ?? 0;
+                  return (
+                    <g
+                      key={source}
+                      className="cursor-pointer"
+                      opacity={isActive(source) ? 1 : 0.3}
+                      onMouseEnter={() => setHovered(source)}
+                      onMouseLeave={() => setHovered(null)}
+                      onClick={() => onSelect(source)}
+                    >
+                      <title>{source}</title>
+                      <circle cx={SOURCE_X - 3} cy={y} r={3} fill="#334155" />
+                      <text x={SOURCE_X + 4} y={y} dy="0.35em" fill="#475569">
+                        {truncate(source)}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+
+            {graph.unresolved.length > 0 && (
+              <div className="mt-3 space-y-1">
+                {graph.unresolved.map(reference => (
+                  <div key={`${reference.kind}:${reference.source}`} className="flex items-center text-sm text-red-600">
+                    <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                    <span className="font-mono mr-1">{reference.source}</span>
+                    names {reference.kind === 'sf' ? 'scale factor' : 'count'} "{reference.name}", which does not resolve
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Long paths keep their tail, which names the point
+const truncate = (path: string, length: number = 42) => path.length > length ? `…${path.slice(-(length - 1))}` : path;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Link2 } from 'lucide-react';
+import { PointReference } from '../types';
+import { ReferenceService } from '../services/referenceService';
+
+interface ReferenceLinkProps {
+  label?: string;
+  reference: PointReference;
+  // Instance path of the referencing node, so the link stays within its instance
+  sourcePath: string;
+  onFollow: (path: string) => void;
+}
+
+export const ReferenceLink: React.FC<ReferenceLinkProps> = ({ label, reference, sourcePath, onFollow }) => {
+  if (!reference.target) {
+    return (
+      <span className="px-2 py-0.5 bg-red-50 text-red-700 rounded-full text-xs font-mono" title={`"${reference.name}" does not resolve`}>
+        {label && `${label} `}{reference.name}
+      </span>
+    );
+  }
+
+  const target = ReferenceService.targetInstance(sourcePath, reference.target);
+  return (
+    <button
+      onClick={(e) => {
+        // Following a link should not also toggle or select the row it sits in
+        e.stopPropagation();
+        onFollow(target);
+      }}
+      title={`Go to ${target}`}
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-mono hover:underline ${
+        reference.kind === 'sf' ? 'bg-teal-100 text-teal-700' : 'bg-amber-100 text-amber-700'
+      }`}
+    >
+      <Link2 className="w-3 h-3 mr-1" />
+      {label && `${label} `}{reference.name}
+    </button>
+  );
+};
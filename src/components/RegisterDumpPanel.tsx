@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ClipboardPaste, AlertCircle, X } from 'lucide-react';
+import { RegisterDump } from '../types';
+import { DecoderService } from '../services/decoderService';
+
+interface RegisterDumpPanelProps {
+  defaultStartAddress: number;
+  onDecode: (dump: RegisterDump | null) => void;
+  stats?: { decoded: number; notImplemented: number; missing: number };
+}
+
+export const RegisterDumpPanel: React.FC<RegisterDumpPanelProps> = ({ defaultStartAddress, onDecode, stats }) => {
+  const [text, setText] = useState('');
+  const [dumpStart, setDumpStart] = useState<string>('');
+  const [oneBased, setOneBased] = useState(false);
+  const [invalidLines, setInvalidLines] = useState<number[]>([]);
+  const [registerCount, setRegisterCount] = useState(0);
+
+  const handleDecode = () => {
+    if (!text.trim()) {
+      handleClear();
+      return;
+    }
+
+    // Unaddressed dumps are assumed to start at the model's ID register
+    const start = dumpStart === '' ? defaultStartAddress : Number(dumpStart);
+    const dump = DecoderService.parseRegisterDump(text, start, oneBased);
+    setInvalidLines(dump.invalidLines);
+    setRegisterCount(dump.registers.size);
+    onDecode(dump.registers.size > 0 ? dump : null);
+  };
+
+  const handleClear = () => {
+    setText('');
+    setInvalidLines([]);
+    setRegisterCount(0);
+    onDecode(null);
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-slate-700 mb-3">Register Dump</h3>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={'Paste hex words (02c1 0029 0001 ...)\nor a Modbus poll log (40071: 705 or 40071<TAB>705)'}
+        rows={5}
+        className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+      />
+
+      <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-slate-600">
+        <label className="flex items-center space-x-2">
+          <span>Dump starts at</span>
+          <input
+            type="number"
+            min={0}
+            value={dumpStart}
+            placeholder={String(defaultStartAddress)}
+            onChange={(e) => setDumpStart(e.target.value)}
+            className="w-24 px-2 py-1 border border-slate-300 rounded font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </label>
+        <label className="flex items-center space-x-1">
+          <input type="checkbox" checked={oneBased} onChange={(e) => setOneBased(e.target.checked)} />
+          <span>1-based addresses</span>
+        </label>
+      </div>
+
+      <div className="flex items-center space-x-2 mt-3">
+        <button
+          onClick={handleDecode}
+          className="inline-flex items-center px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <ClipboardPaste className="w-4 h-4 mr-2" />
+          Decode
+        </button>
+        {registerCount > 0 && (
+          <button
+            onClick={handleClear}
+            className="inline-flex items-center px-3 py-1.5 bg-slate-100 text-slate-700 text-sm rounded-lg hover:bg-slate-200 transition-colors"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      {registerCount > 0 && stats && (
+        <div className="flex flex-wrap gap-2 mt-3 text-xs">
+          <span className="px-2 py-1 bg-slate-100 text-slate-700 rounded-full">{registerCount} registers</span>
+          <span className="px-2 py-1 bg-green-100 text-green-700 rounded-full">{stats.decoded} decoded</span>
+          <span className="px-2 py-1 bg-slate-200 text-slate-600 rounded-full">{stats.notImplemented} not implemented</span>
+          {stats.missing > 0 && (
+            <span className="px-2 py-1 bg-amber-100 text-amber-700 rounded-full">{stats.missing} missing</span>
+          )}
+        </div>
+      )}
+
+      {invalidLines.length > 0 && (
+        <div className="flex items-start space-x-2 mt-3 text-xs text-red-600">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            Could not parse line{invalidLines.length > 1 ? 's' : ''} {invalidLines.slice(0, 10).join(', ')}
+            {invalidLines.length > 10 ? '…' : ''}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
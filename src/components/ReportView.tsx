@@ -0,0 +1,348 @@
+import React, { useMemo } from 'react';
+import { BookOpen, Printer, Trash2, ArrowUp, ArrowDown, X, Loader2 } from 'lucide-react';
+import { SunSpecModel, DeviceProfile, ProfileEntry, ComposedModel, ComposedProfile, ReportNote, ReportSection, ReportSymbolPoint } from '../types';
+import { ProfileService } from '../services/profileService';
+import { ReportService } from '../services/reportService';
+import { useProfileDefinitions } from '../hooks/useProfileDefinitions';
+
+interface ReportViewProps {
+  // The bundled models, laid out like a device profile so every point has an address
+  report: DeviceProfile;
+  onChange: (report: DeviceProfile) => void;
+  loadModel: (entry: ProfileEntry) => Promise<SunSpecModel>;
+  // Changes whenever Local models change, so their definitions are loaded again
+  localVersion: number;
+}
+
+const modelTitle = (model: SunSpecModel) => {
+  const label = model.label ?? model.group.label;
+  return label ? `Model ${model.id}: ${label}` : `Model ${model.id}`;
+};
+
+// Page breaks for print; on screen a dashed rule shows where the page ends
+const PAGE_CLASS = 'break-before-page mt-12 pt-12 border-t border-dashed border-slate-300 print:mt-0 print:pt-0 print:border-0';
+
+export const ReportView: React.FC<ReportViewProps> = ({ report, onChange, loadModel, localVersion }) => {
+  const { definitionOf, models, isLoading, updateModels, moveEntry } = useProfileDefinitions(report, onChange, loadModel, localVersion);
+
+  const composed = useMemo(
+    () => (models && models.length > 0 ? ProfileService.compose(report, models) : null),
+    [report, models]
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 print:max-w-none print:space-y-0">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 print:hidden">
+        <div className="flex items-center space-x-3 mb-4">
+          <BookOpen className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-semibold text-slate-800">Report</h2>
+        </div>
+
+        <p className="text-slate-600 mb-4">
+          A printable reference for one or more models, with a title page, contents, point tables and a symbol appendix.
+          Print it and choose "Save as PDF" to attach it to a submission.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {/* A single model's report takes the model's label as its title */}
+          {report.models.length > 1 && (
+            <input
+              type="text"
+              value={report.name}
+              onChange={(e) => onChange({ ...report, name: e.target.value })}
+              aria-label="Report title"
+              className="flex-1 min-w-[12rem] px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            />
+          )}
+          <button
+            onClick={() => window.print()}
+            disabled={!composed}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </button>
+          <button
+            onClick={() => onChange({ ...report, models: [] })}
+            disabled={report.models.length === 0}
+            className="inline-flex items-center px-4 py-2 text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-4">
+          {report.models.length === 0 && (
+            <p className="text-sm text-slate-500">No models yet. Select models in the catalog below to add them to the report.</p>
+          )}
+          {report.models.map((entry, index) => {
+            const definition = definitionOf(entry);
+            return (
+              <div key={index} className="flex items-center pl-3 pr-1 py-1 bg-slate-50 border border-slate-200 rounded-lg text-sm">
+                <span className="font-medium text-slate-800 mr-1">Model {entry.id}</span>
+                {typeof definition === 'object' && definition.group.label && (
+                  <span className="text-slate-500 mr-1">({definition.group.label})</span>
+                )}
+                {typeof definition === 'string' && <span className="text-red-600 mr-1">{definition}</span>}
+                <IconButton title="Move up" disabled={index === 0} onClick={() => moveEntry(index, -1)}>
+                  <ArrowUp className="w-4 h-4" />
+                </IconButton>
+                <IconButton title="Move down" disabled={index === report.models.length - 1} onClick={() => moveEntry(index, 1)}>
+                  <ArrowDown className="w-4 h-4" />
+                </IconButton>
+                <IconButton title="Remove" onClick={() => updateModels(models => models.filter((_, position) => position !== index))}>
+                  <X className="w-4 h-4" />
+                </IconButton>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {isLoading && report.models.length > 0 && (
+        <div className="flex items-center justify-center space-x-2 text-slate-600 print:hidden">
+          <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+          <span>Loading model definitions...</span>
+        </div>
+      )}
+
+      {composed && <ReportDocument name={report.name} composed={composed} />}
+    </div>
+  );
+};
+
+const ReportDocument: React.FC<{ name: string; composed: ComposedProfile }> = ({ name, composed }) => {
+  const models = useMemo(() => composed.models.map(placed => placed.model), [composed]);
+  const sections = useMemo(
+    () => composed.models.map((placed, index) => ReportService.sections(placed.layout.root, index + 1)),
+    [composed]
+  );
+  const symbolPoints = useMemo(() => ReportService.symbolPoints(models), [models]);
+  const hasSymbols = symbolPoints.some(points => points.length > 0);
+
+  const single = models.length === 1 ? models[0] : undefined;
+  const title = single ? single.label ?? single.group.label ?? `Model ${single.id}` : name;
+  const description = single ? single.desc ?? single.group.desc : undefined;
+
+  return (
+    <article className="bg-white rounded-xl shadow-sm border border-slate-200 p-12 text-slate-800 print:p-0 print:border-0 print:shadow-none print:rounded-none">
+      {/* Title page */}
+      <header className="min-h-[50vh] flex flex-col justify-center">
+        <p className="text-sm uppercase tracking-widest text-slate-500">
+          {single ? `SunSpec model ${single.id}` : `${models.length} SunSpec models`}
+        </p>
+        <h1 className="mt-2 text-4xl font-bold">{title}</h1>
+        {description && <p className="mt-6 text-lg text-slate-600 max-w-3xl">{description}</p>}
+        {single && <Notes notes={ReportService.notes(single)} />}
+        {!single && (
+          <ul className="mt-6 space-y-1 text-slate-700">
+            {models.map((model, index) => (
+              <li key={index}>
+                {modelTitle(model)}
+                {(model.desc ?? model.group.desc) && <span className="text-slate-500"> — {model.desc ?? model.group.desc}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+        <dl className="mt-10 grid grid-cols-[max-content_1fr] gap-x-6 gap-y-1 text-sm text-slate-600">
+          <dt>Base address</dt>
+          <dd className="font-mono">{composed.baseAddress}</dd>
+          <dt>Registers</dt>
+          <dd className="font-mono">{composed.size}, SunS marker to end model</dd>
+          <dt>Generated</dt>
+          <dd>{new Date().toISOString().slice(0, 10)}</dd>
+        </dl>
+      </header>
+
+      {/* Table of contents */}
+      <nav className={PAGE_CLASS}>
+        <h2 className="text-2xl font-bold mb-4">Contents</h2>
+        <ol className="space-y-3">
+          {composed.models.map((placed, index) => (
+            <li key={index}>
+              <a href={`#model-${index + 1}`} className="font-semibold hover:underline">
+                {index + 1} {modelTitle(placed.model)}
+              </a>
+              <ol className="mt-1 space-y-0.5 text-sm">
+                {sections[index].map(section => (
+                  <li key={section.id} style={{ paddingLeft: `${(section.depth + 1) * 1.25}rem` }}>
+                    <a href={`#${section.id}`} className="hover:underline">
+                      {section.number} <span className="font-mono">{section.group.path}</span>
+                      {section.group.group.label && <span className="text-slate-500"> — {section.group.group.label}</span>}
+                    </a>
+                  </li>
+                ))}
+              </ol>
+            </li>
+          ))}
+          {hasSymbols && (
+            <li>
+              <a href="#symbols" className="font-semibold hover:underline">A Symbols</a>
+            </li>
+          )}
+        </ol>
+      </nav>
+
+      {composed.models.map((placed, index) => (
+        <ModelChapter key={index} chapter={index + 1} placed={placed} sections={sections[index]} />
+      ))}
+
+      {hasSymbols && (
+        <section id="symbols" className={PAGE_CLASS}>
+          <h2 className="text-2xl font-bold">A Symbols</h2>
+          <p className="mt-2 text-sm text-slate-600">Values of enumerated points and bits of bitfield points.</p>
+          {symbolPoints.map((points, index) => points.length > 0 && (
+            <div key={index} className="mt-8">
+              <h3 className="text-lg font-semibold break-after-avoid">{modelTitle(models[index])}</h3>
+              {points.map(symbolPoint => <SymbolTable key={symbolPoint.id} symbolPoint={symbolPoint} />)}
+            </div>
+          ))}
+        </section>
+      )}
+    </article>
+  );
+};
+
+const ModelChapter: React.FC<{ chapter: number; placed: ComposedModel; sections: ReportSection[] }> = ({
+  chapter,
+  placed,
+  sections
+}) => {
+  const { model, layout } = placed;
+
+  return (
+    <section id={`model-${chapter}`} className={PAGE_CLASS}>
+      <h2 className="text-2xl font-bold">{chapter} {modelTitle(model)}</h2>
+      {(model.desc ?? model.group.desc) && <p className="mt-2 text-slate-600">{model.desc ?? model.group.desc}</p>}
+      <Notes notes={ReportService.notes(model)} />
+      <dl className="mt-4 grid grid-cols-[max-content_1fr] gap-x-6 gap-y-1 text-sm text-slate-600">
+        <dt>Model ID</dt>
+        <dd className="font-mono">{model.id}</dd>
+        <dt>Length</dt>
+        <dd className="font-mono">{layout.length} registers</dd>
+        <dt>Addresses</dt>
+        <dd className="font-mono">{layout.startAddress}–{layout.startAddress + layout.length + 1}</dd>
+      </dl>
+
+      {sections.map(section => {
+        const group = section.group.group;
+        return (
+          <div key={section.id} id={section.id} className="mt-10">
+            <h3 className="text-lg font-semibold break-after-avoid">
+              {section.number} <span className="font-mono">{section.group.path}</span>
+              {group.label && <span className="font-normal text-slate-500"> — {group.label}</span>}
+            </h3>
+            {group.desc && <p className="mt-1 text-sm text-slate-600 break-after-avoid">{group.desc}</p>}
+            {group.count !== undefined && (
+              <p className="mt-1 text-sm text-slate-600">
+                Repeats {group.count === 0
+                  ? 'as often as the model length allows'
+                  : typeof group.count === 'number' ? `${group.count} times` : `the number of times given by ${group.count}`}.
+              </p>
+            )}
+            <Notes notes={ReportService.notes(group)} />
+            {section.group.points.length > 0 && (
+              <table className="w-full mt-3 text-xs border-collapse">
+                <thead>
+                  <tr className="text-left bg-slate-100">
+                    {['Address', 'Offset', 'Name', 'Label', 'Type', 'Size', 'Units', 'SF', 'Access', 'Mand.', 'Static', 'Description'].map(heading => (
+                      <th key={heading} className="px-2 py-1 border border-slate-300 font-semibold">{heading}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {section.group.points.map(pointLayout => {
+                    const point = pointLayout.point;
+                    return (
+                      <tr key={pointLayout.path} className="align-top break-inside-avoid">
+                        <td className="px-2 py-1 border border-slate-300 font-mono">{pointLayout.address}</td>
+                        <td className="px-2 py-1 border border-slate-300 font-mono">{pointLayout.offset}</td>
+                        <td className="px-2 py-1 border border-slate-300 font-mono font-semibold">{point.name}</td>
+                        <td className="px-2 py-1 border border-slate-300">{point.label}</td>
+                        <td className="px-2 py-1 border border-slate-300 font-mono">{point.type}</td>
+                        <td className="px-2 py-1 border border-slate-300 font-mono">{pointLayout.size}</td>
+                        <td className="px-2 py-1 border border-slate-300">{point.units}</td>
+                        <td className="px-2 py-1 border border-slate-300 font-mono">{point.sf}</td>
+                        <td className="px-2 py-1 border border-slate-300">{point.access ?? 'R'}</td>
+                        <td className="px-2 py-1 border border-slate-300">{point.mandatory ?? 'O'}</td>
+                        <td className="px-2 py-1 border border-slate-300">{point.static ?? 'D'}</td>
+                        <td className="px-2 py-1 border border-slate-300">
+                          {point.desc}
+                          <Notes notes={ReportService.notes(point)} />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </section>
+  );
+};
+
+const SymbolTable: React.FC<{ symbolPoint: ReportSymbolPoint }> = ({ symbolPoint }) => {
+  const { point } = symbolPoint;
+  return (
+    <div id={symbolPoint.id} className="mt-6">
+      <h4 className="font-semibold break-after-avoid">
+        {symbolPoint.number} <span className="font-mono">{symbolPoint.path}</span>
+        <span className="font-normal text-slate-500"> — {point.type}</span>
+      </h4>
+      <table className="w-full mt-2 text-xs border-collapse">
+        <thead>
+          <tr className="text-left bg-slate-100">
+            {[point.type.startsWith('bitfield') ? 'Bit' : 'Value', 'Name', 'Label', 'Description'].map(heading => (
+              <th key={heading} className="px-2 py-1 border border-slate-300 font-semibold">{heading}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {(point.symbols || []).map(symbol => (
+            <tr key={symbol.name} className="align-top break-inside-avoid">
+              <td className="px-2 py-1 border border-slate-300 font-mono w-16">{String(symbol.value)}</td>
+              <td className="px-2 py-1 border border-slate-300 font-mono font-semibold">{symbol.name}</td>
+              <td className="px-2 py-1 border border-slate-300">{symbol.label}</td>
+              <td className="px-2 py-1 border border-slate-300">
+                {symbol.desc}
+                <Notes notes={ReportService.notes(symbol)} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const Notes: React.FC<{ notes: ReportNote[] }> = ({ notes }) => {
+  if (notes.length === 0) return null;
+  return (
+    <div className="mt-1 space-y-0.5 text-xs text-slate-600">
+      {notes.map(note => (
+        <p key={note.label} className="whitespace-pre-line">
+          <span className="font-semibold">{note.label}:</span> {note.text}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+const IconButton: React.FC<{ title: string; disabled?: boolean; onClick: () => void; children: React.ReactNode }> = ({
+  title,
+  disabled,
+  onClick,
+  children
+}) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className="p-1 text-slate-500 hover:text-blue-600 hover:bg-slate-100 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+  >
+    {children}
+  </button>
+);
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Github, FolderOpen, FileArchive, Globe, X, Plus, Loader2 } from 'lucide-react';
+import { ModelSource } from '../types';
+import { LocalModelSource, HttpModelSource } from '../services/modelSourceService';
+
+interface SourceSelectorProps {
+  sources: ModelSource[];
+  activeSourceIds: string[];
+  onToggle: (sourceId: string) => void;
+  onAdd: (source: ModelSource) => void;
+  onRemove: (sourceId: string) => void;
+}
+
+const SOURCE_ICONS: Record<ModelSource['kind'], React.ReactNode> = {
+  github: <Github className="w-3.5 h-3.5" />,
+  local: <FolderOpen className="w-3.5 h-3.5" />,
+  http: <Globe className="w-3.5 h-3.5" />,
+  memory: <FileArchive className="w-3.5 h-3.5" />,
+  composite: <FileArchive className="w-3.5 h-3.5" />
+};
+
+export const SourceSelector: React.FC<SourceSelectorProps> = ({ sources, activeSourceIds, onToggle, onAdd, onRemove }) => {
+  const [urlInput, setUrlInput] = useState('');
+  const [showUrlForm, setShowUrlForm] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsLoading(true);
+    setError('');
+    try {
+      // A picked folder reports its name as the first segment of every relative path
+      const folder = files[0].webkitRelativePath.split('/')[0];
+      const label = folder || (files.length === 1 ? files[0].name : `${files.length} files`);
+      onAdd(await LocalModelSource.fromFiles(files, label));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the selected files');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddUrl = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!urlInput.trim()) return;
+    onAdd(new HttpModelSource(urlInput));
+    setUrlInput('');
+    setShowUrlForm(false);
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-slate-600 mr-1">Sources:</span>
+        {sources.map(source => {
+          const active = activeSourceIds.includes(source.id);
+          return (
+            <span
+              key={source.id}
+              className={`inline-flex items-center rounded-full border text-xs font-medium ${
+                active ? 'bg-blue-100 border-blue-200 text-blue-800' : 'bg-white border-slate-300 text-slate-500'
+              }`}
+            >
+              <button
+                onClick={() => onToggle(source.id)}
+                title={active ? 'Hide models from this source' : 'Show models from this source'}
+                className="inline-flex items-center space-x-1.5 pl-2.5 pr-2 py-1"
+              >
+                {SOURCE_ICONS[source.kind]}
+                <span className="max-w-xs truncate">{source.label}</span>
+              </button>
+              {source.kind !== 'github' && (
+                <button
+                  onClick={() => onRemove(source.id)}
+                  title="Remove source"
+                  className="pr-2 py-1 hover:text-red-600 transition-colors"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          );
+        })}
+
+        <label className="inline-flex items-center px-2.5 py-1 border border-dashed border-slate-300 rounded-full text-xs text-slate-600 hover:border-blue-400 hover:text-blue-600 cursor-pointer transition-colors">
+          <FolderOpen className="w-3.5 h-3.5 mr-1.5" />
+          Open folder
+          <input
+            type="file"
+            multiple
+            className="hidden"
+            onChange={handleFiles}
+            // webkitdirectory is not part of React's input attributes
+            ref={input => input?.setAttribute('webkitdirectory', '')}
+          />
+        </label>
+        <label className="inline-flex items-center px-2.5 py-1 border border-dashed border-slate-300 rounded-full text-xs text-slate-600 hover:border-blue-400 hover:text-blue-600 cursor-pointer transition-colors">
+          <FileArchive className="w-3.5 h-3.5 mr-1.5" />
+          Open zip or files
+          <input type="file" multiple accept=".zip,.json" className="hidden" onChange={handleFiles} />
+        </label>
+        <button
+          onClick={() => setShowUrlForm(!showUrlForm)}
+          className="inline-flex items-center px-2.5 py-1 border border-dashed border-slate-300 rounded-full text-xs text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5 mr-1.5" />
+          Add URL
+        </button>
+
+        {isLoading && <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />}
+      </div>
+
+      {showUrlForm && (
+        <form onSubmit={handleAddUrl} className="flex flex-wrap items-center gap-2">
+          <Globe className="w-4 h-4 text-slate-500" />
+          <input
+            type="url"
+            required
+            value={urlInput}
+            onChange={(e) => setUrlInput(e.target.value)}
+            placeholder="https://mirror.example.com/sunspec/json"
+            className="w-96 max-w-full px-2 py-1 border border-slate-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button type="submit" className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+            Add
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -1,93 +1,165 @@
-import React, { useState, useMemo } from 'react';
-import { ChevronDown, ChevronRight, Search, Database, Folder, File, Tag, Info } from 'lucide-react';
-import { TreeNode, SunSpecModel, Group, Point } from '../types';
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import { ChevronDown, ChevronRight, Search, Database, Folder, File, Info, Hash, Layers, AlertCircle, AlertTriangle, ListTree, Table } from 'lucide-react';
+import { TreeNode, SunSpecModel, Point, GroupLayout, PointLayout, RegisterMap, DecodedPoint, ValidationIssue, EditResult, PointTableSettings } from '../types';
+import { DecoderService } from '../services/decoderService';
+import { ValidationService } from '../services/validationService';
+import { ReferenceService } from '../services/referenceService';
+import { FilterService } from '../services/filterService';
+import { RegisterDumpPanel } from './RegisterDumpPanel';
+import { ValidationPanel } from './ValidationPanel';
+import { NodeInspector } from './NodeInspector';
+import { NodeEditor } from './NodeEditor';
+import { ReferenceLink } from './ReferenceLink';
+import { FilterInput } from './FilterInput';
+import { Highlight } from './Highlight';
+import { PointTable } from './PointTable';
+import { LayoutService, SUNSPEC_BASE_ADDRESSES, SUNS_MARKER_SIZE, MODEL_HEADER_SIZE, MAX_GROUP_INSTANCES } from '../services/layoutService';
 
 interface TreeViewProps {
   model: SunSpecModel;
+  initialRegisters?: RegisterMap;
+  initialStartAddress?: number;
+  // Tree path to reveal, with or without instance indices, e.g. "DERCtlAC.PFWInjEna"
+  focusPath?: string;
+  searchTerm?: string;
+  onNodeSelect?: (path: string) => void;
+  onSearchChange?: (searchTerm: string) => void;
+  // Set by the model editor; the inspector becomes a form for the selected node
+  onEdit?: (result: EditResult, key?: string) => void;
 }
 
-export const TreeView: React.FC<TreeViewProps> = ({ model }) => {
-  const [searchTerm, setSearchTerm] = useState('');
+export const TreeView: React.FC<TreeViewProps> = ({
+  model,
+  initialRegisters,
+  initialStartAddress,
+  focusPath,
+  searchTerm: routeSearchTerm,
+  onNodeSelect,
+  onSearchChange,
+  onEdit
+}) => {
+  const [searchTerm, setSearchTerm] = useState(routeSearchTerm ?? '');
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set(['root'])); // Only expand root model node
+  const [baseAddress, setBaseAddress] = useState(SUNSPEC_BASE_ADDRESSES[0]);
+  // Assume the model directly follows the SunS marker unless the user says otherwise
+  const [startAddress, setStartAddress] = useState(initialStartAddress ?? SUNSPEC_BASE_ADDRESSES[0] + SUNS_MARKER_SIZE);
+  const [registers, setRegisters] = useState<RegisterMap | null>(initialRegisters ?? null);
+
+  const [groupCounts, setGroupCounts] = useState<Record<string, number>>({});
+  const [focusedNode, setFocusedNode] = useState<string | null>(null);
+  const [focusRequest, setFocusRequest] = useState(0);
+  const nodeRefs = useRef(new Map<string, HTMLDivElement>());
+  // The last path this tree reported, so its own selections are not scrolled to again
+  const selectedPath = useRef<string | undefined>(undefined);
+  // Node to select once an edit that added, moved or renamed it has been laid out
+  const [pendingSelection, setPendingSelection] = useState<string | null>(null);
+  const [mode, setMode] = useState<'tree' | 'table'>('tree');
+  // Kept here so the table looks the same after a trip to the tree
+  const [tableSettings, setTableSettings] = useState<PointTableSettings>({});
+
+  const repeatingGroups = useMemo(() => LayoutService.repeatingGroups(model), [model]);
+  const validation = useMemo(() => ValidationService.validateModel(model), [model]);
+  const references = useMemo(() => ReferenceService.collect(model), [model]);
+
+  // Worst severity per template path, for the markers next to tree nodes
+  const issueSeverities = useMemo(() => {
+    const severities = new Map<string, ValidationIssue['severity']>();
+    validation.issues.forEach(issue => {
+      if (issue.nodePath && severities.get(issue.nodePath) !== 'error') {
+        severities.set(issue.nodePath, issue.severity);
+      }
+    });
+    return severities;
+  }, [validation]);
+
+  // With a register dump loaded, point-referenced counts come from the decoded values
+  const decoded = useMemo(
+    () => registers ? DecoderService.decodeModel(model, startAddress, registers, { counts: groupCounts }) : null,
+    [model, startAddress, registers, groupCounts]
+  );
+
+  const layout = useMemo(
+    () => decoded ? decoded.layout : LayoutService.computeLayout(model, startAddress, { counts: groupCounts }),
+    [decoded, model, startAddress, groupCounts]
+  );
+
+  const decodeStats = useMemo(() => {
+    if (!decoded) return undefined;
+    const points = Object.values(decoded.points);
+    return {
+      decoded: points.filter(point => point.implemented).length,
+      notImplemented: points.filter(point => !point.implemented && !point.missing).length,
+      missing: points.filter(point => point.missing).length
+    };
+  }, [decoded]);
 
   const buildTree = useMemo(() => {
-    const createTreeNode = (
-      id: string,
-      name: string,
-      label: string | undefined,
-      type: 'model' | 'group' | 'point',
-      data: SunSpecModel | Group | Point,
-      level: number = 0
-    ): TreeNode => {
-      const node: TreeNode = {
-        id,
-        name,
-        label,
-        type,
-        isExpanded: expandedNodes.has(id),
-        children: [],
-        data,
-        level
-      };
-
-      if (type === 'model') {
-        const modelData = data as SunSpecModel;
-        if (modelData.group) {
-          node.children.push(createTreeNode(
-            `${id}_group`,
-            modelData.group.name,
-            modelData.group.label,
-            'group',
-            modelData.group,
-            level + 1
-          ));
-        }
-      } else if (type === 'group') {
-        const groupData = data as Group;
-        
-        // Add points as children
-        if (groupData.points) {
-          groupData.points.forEach((point, index) => {
-            node.children.push(createTreeNode(
-              `${id}_point_${index}`,
-              point.name,
-              point.label,
-              'point',
-              point,
-              level + 1
-            ));
-          });
-        }
-
-        // Add nested groups as children
-        if (groupData.groups) {
-          groupData.groups.forEach((group, index) => {
-            node.children.push(createTreeNode(
-              `${id}_group_${index}`,
-              group.name,
-              group.label,
-              'group',
-              group,
-              level + 1
-            ));
-          });
-        }
-      }
+    const createPointNode = (pointLayout: PointLayout, level: number): TreeNode => ({
+      id: pointLayout.path,
+      name: pointLayout.point.name,
+      label: pointLayout.point.label,
+      type: 'point',
+      isExpanded: expandedNodes.has(pointLayout.path),
+      children: [],
+      data: pointLayout.point,
+      level,
+      path: pointLayout.path,
+      offset: pointLayout.offset,
+      address: pointLayout.address,
+      size: pointLayout.size
+    });
 
-      return node;
+    const createGroupNode = (groupLayout: GroupLayout, level: number): TreeNode => ({
+      id: groupLayout.path,
+      name: groupLayout.index !== undefined ? `${groupLayout.group.name}[${groupLayout.index}]` : groupLayout.group.name,
+      label: groupLayout.group.label,
+      type: 'group',
+      isExpanded: expandedNodes.has(groupLayout.path),
+      // Points come before nested groups, matching their register order
+      children: [
+        ...groupLayout.points.map(pointLayout => createPointNode(pointLayout, level + 1)),
+        ...groupLayout.groups.map(subLayout => createGroupNode(subLayout, level + 1))
+      ],
+      data: groupLayout.group,
+      level,
+      path: groupLayout.path,
+      offset: groupLayout.offset,
+      address: groupLayout.address,
+      size: groupLayout.size
+    });
+
+    const rootNode: TreeNode = {
+      id: 'root',
+      name: `Model ${model.id}`,
+      label: model.label,
+      type: 'model',
+      isExpanded: expandedNodes.has('root'),
+      children: [createGroupNode(layout.root, 1)],
+      data: model,
+      level: 0,
+      offset: 0,
+      address: layout.startAddress,
+      size: layout.length + MODEL_HEADER_SIZE
     };
+    return rootNode;
+  }, [model, layout, expandedNodes]);
+
+  // The model node is inspected until another node is selected
+  const selectedNode = useMemo(
+    () => (focusedNode ? findNode(buildTree, focusedNode) : null) ?? buildTree,
+    [buildTree, focusedNode]
+  );
 
-    return createTreeNode('root', `Model ${model.id}`, model.label, 'model', model);
-  }, [model, expandedNodes]);
+  const filterQuery = useMemo(() => FilterService.parse(searchTerm), [searchTerm]);
+  const filterVocabulary = useMemo(() => FilterService.vocabulary(model), [model]);
+  const highlightTerms = useMemo(() => FilterService.highlightTerms(filterQuery.expression), [filterQuery]);
 
   const filteredTree = useMemo(() => {
-    if (!searchTerm) return buildTree;
+    const expression = filterQuery.expression;
+    if (!expression) return buildTree;
 
     const filterNode = (node: TreeNode): TreeNode | null => {
-      const matchesSearch = 
-        node.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        node.label?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (node.type === 'point' && (node.data as Point).desc?.toLowerCase().includes(searchTerm.toLowerCase()));
+      const matchesSearch = FilterService.matches(expression, node);
 
       const filteredChildren = node.children
         .map(child => filterNode(child))
@@ -105,7 +177,107 @@ export const TreeView: React.FC<TreeViewProps> = ({ model }) => {
     };
 
     return filterNode(buildTree);
-  }, [buildTree, searchTerm]);
+  }, [buildTree, filterQuery]);
+
+  const handleBaseChange = (base: number) => {
+    setBaseAddress(base);
+    setStartAddress(base + SUNS_MARKER_SIZE);
+  };
+
+  const handleCountChange = (path: string, value: string) => {
+    setGroupCounts(prev => {
+      const next = { ...prev };
+      const count = parseInt(value, 10);
+      // An empty field returns the group to its automatic count
+      if (value === '' || isNaN(count) || count < 0) {
+        delete next[path];
+      } else {
+        next[path] = Math.min(count, MAX_GROUP_INSTANCES);
+      }
+      return next;
+    });
+  };
+
+  // Clicking a node focuses it without scrolling, so the scroll below reads it from a ref
+  const focusedNodeRef = useRef(focusedNode);
+  useEffect(() => {
+    focusedNodeRef.current = focusedNode;
+  }, [focusedNode]);
+
+  // Scroll once the expanded ancestors have rendered
+  useEffect(() => {
+    if (focusedNodeRef.current) {
+      nodeRefs.current.get(focusedNodeRef.current)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [focusRequest]);
+
+  const handleSearchChange = useCallback((term: string) => {
+    setSearchTerm(term);
+    onSearchChange?.(term);
+  }, [onSearchChange]);
+
+  const focusTemplatePath = useCallback((templatePath: string, clearSearch: boolean = true) => {
+    const trail = LayoutService.findInstancePath(layout, templatePath);
+    if (!trail) return;
+
+    if (clearSearch) handleSearchChange('');
+    setExpandedNodes(prev => new Set([...prev, 'root', ...trail.slice(0, -1)]));
+    setFocusedNode(trail[trail.length - 1]);
+    setFocusRequest(request => request + 1);
+  }, [layout, handleSearchChange]);
+
+  // Links and back/forward move the focus; the search term follows the URL too
+  useEffect(() => {
+    if (focusPath && focusPath !== selectedPath.current) {
+      selectedPath.current = focusPath;
+      focusTemplatePath(focusPath, false);
+    }
+  }, [focusPath, focusTemplatePath]);
+
+  useEffect(() => {
+    setSearchTerm(routeSearchTerm ?? '');
+  }, [routeSearchTerm]);
+
+  // Runs again with the layout of the edited model
+  useEffect(() => {
+    if (pendingSelection) {
+      focusTemplatePath(pendingSelection, false);
+      setPendingSelection(null);
+    }
+  }, [pendingSelection, focusTemplatePath]);
+
+  const handleEdit = (result: EditResult, key?: string) => {
+    onEdit?.(result, key);
+    if (result.path) setPendingSelection(result.path);
+  };
+
+  // Jumps to the point a scale factor or count names, as if it had been clicked
+  const followReference = (path: string) => {
+    focusTemplatePath(path);
+    selectedPath.current = path;
+    onNodeSelect?.(path);
+  };
+
+  const handleNodeClick = (node: TreeNode) => {
+    if (node.children.length > 0) toggleNode(node.id);
+    setFocusedNode(node.id);
+    // Selecting the model node clears the path from the URL
+    selectedPath.current = node.path ?? '';
+    onNodeSelect?.(node.path ?? '');
+  };
+
+  // Table rows also expand the tree down to the node, so it is in view after switching
+  const handleRowClick = (node: TreeNode) => {
+    if (!node.path) return;
+    focusTemplatePath(node.path, false);
+    selectedPath.current = node.path;
+    onNodeSelect?.(node.path);
+  };
+
+  const handleModeChange = (next: 'tree' | 'table') => {
+    setMode(next);
+    setFocusRequest(request => request + 1);
+  };
 
   const toggleNode = (nodeId: string) => {
     setExpandedNodes(prev => {
@@ -122,15 +294,24 @@ export const TreeView: React.FC<TreeViewProps> = ({ model }) => {
   const renderNode = (node: TreeNode) => {
     const hasChildren = node.children.length > 0;
     const isExpanded = expandedNodes.has(node.id);
+    const reference = node.path ? references.bySource.get(node.path.replace(/\[\d+\]/g, '')) : undefined;
 
     return (
       <div key={node.id} className="select-none">
         <div
+          ref={element => {
+            if (element) {
+              nodeRefs.current.set(node.id, element);
+            } else {
+              nodeRefs.current.delete(node.id);
+            }
+          }}
           className={`
             flex items-center p-3 rounded-lg hover:bg-slate-50 cursor-pointer transition-colors border-b border-slate-100 last:border-b-0
             ${node.level > 0 ? `ml-${Math.min(node.level * 4, 16)}` : ''}
+            ${focusedNode === node.id ? 'ring-2 ring-blue-400 bg-blue-50' : ''}
           `}
-          onClick={() => hasChildren && toggleNode(node.id)}
+          onClick={() => handleNodeClick(node)}
           style={{ marginLeft: `${node.level * 20}px` }}
         >
           <div className="flex items-center flex-1 min-w-0">
@@ -155,19 +336,34 @@ export const TreeView: React.FC<TreeViewProps> = ({ model }) => {
                   node.type === 'group' ? 'text-amber-800' :
                   'text-green-800'
                 }`}>
-                  {node.name}
+                  <Highlight text={node.name} terms={highlightTerms} />
                 </span>
                 {node.label && (
                   <span className="text-xs text-slate-500 truncate">
-                    ({node.label})
+                    (<Highlight text={node.label} terms={highlightTerms} />)
                   </span>
                 )}
+                {node.path && <IssueMarker severity={issueSeverities.get(node.path.replace(/\[\d+\]/g, ''))} />}
+                {node.type === 'group' && reference && node.path && (
+                  <ReferenceLink label="×" reference={reference} sourcePath={node.path} onFollow={followReference} />
+                )}
               </div>
               {node.type === 'point' && (
-                <PointDetails point={node.data as Point} />
+                <PointDetails
+                  point={node.data as Point}
+                  decoded={decoded?.points[node.id]}
+                  highlightTerms={highlightTerms}
+                  sfLink={reference && (
+                    <ReferenceLink label="SF" reference={reference} sourcePath={node.id} onFollow={followReference} />
+                  )}
+                />
               )}
             </div>
           </div>
+
+          {node.address !== undefined && (
+            <AddressCell address={node.address} offset={node.offset ?? 0} size={node.size ?? 0} />
+          )}
         </div>
 
         {hasChildren && isExpanded && (
@@ -189,23 +385,97 @@ export const TreeView: React.FC<TreeViewProps> = ({ model }) => {
             <div className="flex items-center space-x-2 text-sm text-slate-600">
               <Info className="w-4 h-4" />
               <span>Model ID: {model.id}</span>
+              <span className="text-slate-300">|</span>
+              <span>Length: {layout.length}</span>
+              <div className="inline-flex ml-2 rounded-lg border border-slate-300 overflow-hidden">
+                <ModeButton active={mode === 'tree'} onClick={() => handleModeChange('tree')} icon={<ListTree className="w-4 h-4 mr-1.5" />}>
+                  Tree
+                </ModeButton>
+                <ModeButton active={mode === 'table'} onClick={() => handleModeChange('table')} icon={<Table className="w-4 h-4 mr-1.5" />}>
+                  Table
+                </ModeButton>
+              </div>
             </div>
           </div>
 
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-slate-400" />
-            <input
-              type="text"
-              placeholder="Search points, groups, or descriptions..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-            />
+          <div className="flex items-center space-x-3 mb-4 text-sm">
+            <Hash className="w-4 h-4 text-slate-500" />
+            <label className="flex items-center space-x-2 text-slate-600">
+              <span>Base</span>
+              <select
+                value={baseAddress}
+                onChange={(e) => handleBaseChange(Number(e.target.value))}
+                className="px-2 py-1 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {SUNSPEC_BASE_ADDRESSES.map(base => (
+                  <option key={base} value={base}>{base}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2 text-slate-600">
+              <span>Model start</span>
+              <input
+                type="number"
+                min={0}
+                value={startAddress}
+                onChange={(e) => setStartAddress(Math.max(0, Number(e.target.value) || 0))}
+                className="w-28 px-2 py-1 border border-slate-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
           </div>
+
+          {repeatingGroups.length > 0 && (
+            <div className="mb-4 text-sm">
+              <div className="flex items-center space-x-2 text-slate-600 mb-2">
+                <Layers className="w-4 h-4 text-slate-500" />
+                <span>Repeating groups</span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {repeatingGroups.map(repeating => (
+                  <label
+                    key={repeating.path}
+                    className="flex items-center space-x-2 px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                    title={repeating.path}
+                  >
+                    <span className="font-medium text-amber-800">{repeating.group.name}</span>
+                    <span className="text-xs text-slate-500">
+                      × {typeof repeating.count === 'string' ? repeating.count : repeating.count === 0 ? 'L' : 'fixed'}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_GROUP_INSTANCES}
+                      placeholder={LayoutService.hasFixedCount(repeating.count) ? String(repeating.count) : 'auto'}
+                      value={groupCounts[repeating.path] ?? ''}
+                      onChange={(e) => handleCountChange(repeating.path, e.target.value)}
+                      className="w-16 px-2 py-0.5 border border-slate-300 rounded font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <FilterInput
+            value={searchTerm}
+            onChange={handleSearchChange}
+            vocabulary={filterVocabulary}
+            errors={filterQuery.errors}
+          />
         </div>
 
-        <div className="flex-1 overflow-y-auto p-4">
-          {filteredTree ? renderNode(filteredTree) : (
+        <div className={`flex-1 p-4 ${mode === 'table' ? 'min-h-0' : 'overflow-y-auto'}`}>
+          {mode === 'table' ? (
+            <PointTable
+              tree={filteredTree}
+              selectedId={focusedNode}
+              focusRequest={focusRequest}
+              highlightTerms={highlightTerms}
+              settings={tableSettings}
+              onSettingsChange={setTableSettings}
+              onSelect={handleRowClick}
+            />
+          ) : filteredTree ? renderNode(filteredTree) : (
             <div className="text-center py-8 text-slate-500">
               <Search className="w-8 h-8 mx-auto mb-2 opacity-50" />
               <p>No results found for "{searchTerm}"</p>
@@ -214,117 +484,116 @@ export const TreeView: React.FC<TreeViewProps> = ({ model }) => {
         </div>
       </div>
 
-      {/* Right Side - Legend and Information */}
+      {/* Right Side - Inspector */}
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
         <div className="p-4 border-b border-slate-200 bg-slate-50 flex-shrink-0">
-          <h2 className="text-lg font-semibold text-slate-800">Legend & Information</h2>
+          <h2 className="text-lg font-semibold text-slate-800">{onEdit ? 'Editor' : 'Inspector'}</h2>
         </div>
         
         <div className="flex-1 overflow-y-auto p-4 space-y-6">
-          {/* Point Attributes Legend */}
-          <div>
-            <h3 className="text-sm font-medium text-slate-700 mb-3">Point Attributes</h3>
-            <div className="space-y-3">
-              <div className="flex items-center space-x-3">
-                <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-sm font-medium">Type</span>
-                <span className="text-slate-600 text-sm">Data type (uint16, int16, string, etc.)</span>
-              </div>
-              <div className="flex items-center space-x-3">
-                <span className="px-3 py-1 bg-teal-100 text-teal-700 rounded-full text-sm font-medium">Scale Factor</span>
-                <span className="text-slate-600 text-sm">Scaling factor for numeric values</span>
-              </div>
-              <div className="flex items-center space-x-3">
-                <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-sm font-medium">Access</span>
-                <span className="text-slate-600 text-sm">Read/Write permissions (R, RW)</span>
-              </div>
-              <div className="flex items-center space-x-3">
-                <span className="px-3 py-1 bg-red-100 text-red-700 rounded-full text-sm font-medium">Required</span>
-                <span className="text-slate-600 text-sm">Mandatory (M) or Optional (O)</span>
-              </div>
-              <div className="flex items-center space-x-3">
-                <span className="px-3 py-1 bg-orange-100 text-orange-700 rounded-full text-sm font-medium">Units</span>
-                <span className="text-slate-600 text-sm">Unit of measurement</span>
-              </div>
-              <div className="flex items-center space-x-3">
-                <span className="px-3 py-1 bg-pink-100 text-pink-700 rounded-full text-sm font-medium">Bitfield</span>
-                <span className="text-slate-600 text-sm">Bit field with individual bit meanings</span>
-              </div>
-              <div className="flex items-center space-x-3">
-                <span className="px-3 py-1 bg-amber-100 text-amber-700 rounded-full text-sm font-medium">Enum</span>
-                <span className="text-slate-600 text-sm">Enumerated values with specific meanings</span>
-              </div>
-              <div className="flex items-center space-x-3">
-                <span className="px-3 py-1 bg-emerald-100 text-emerald-700 rounded-full text-sm font-medium">X values</span>
-                <span className="text-slate-600 text-sm">Number of possible enum/bitfield values</span>
-              </div>
-            </div>
-          </div>
+          {onEdit ? (
+            <NodeEditor key={selectedNode.id} node={selectedNode} model={model} onEdit={handleEdit} />
+          ) : (
+            <NodeInspector
+              node={selectedNode}
+              model={model}
+              decoded={selectedNode.type === 'point' ? decoded?.points[selectedNode.id] : undefined}
+              references={references}
+              onFollow={followReference}
+            />
+          )}
 
-          {/* Icons Legend */}
-          <div>
-            <h3 className="text-sm font-medium text-slate-700 mb-3">Icons</h3>
-            <div className="space-y-3">
-              <div className="flex items-center space-x-3">
-                <Database className="w-5 h-5 text-blue-600" />
-                <span className="text-slate-600 text-sm">SunSpec Model</span>
-              </div>
-              <div className="flex items-center space-x-3">
-                <Folder className="w-5 h-5 text-amber-600" />
-                <span className="text-slate-600 text-sm">Group</span>
-              </div>
-              <div className="flex items-center space-x-3">
-                <File className="w-5 h-5 text-green-600" />
-                <span className="text-slate-600 text-sm">Point</span>
-              </div>
-            </div>
-          </div>
+          {/* Validation */}
+          <ValidationPanel
+            result={validation}
+            onSelect={(issue) => issue.nodePath && focusTemplatePath(issue.nodePath)}
+          />
+
+          {/* Register Dump */}
+          <RegisterDumpPanel
+            defaultStartAddress={startAddress}
+            onDecode={(dump) => setRegisters(dump ? dump.registers : null)}
+            stats={decodeStats}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
 
-          {/* Model Information */}
-          <div>
-            <h3 className="text-sm font-medium text-slate-700 mb-3">Model Information</h3>
-            <div className="space-y-2 text-sm">
-              <div>
-                <span className="font-medium text-slate-600">ID:</span>
-                <span className="ml-2 text-slate-800">{model.id}</span>
-              </div>
-              {model.label && (
-                <div>
-                  <span className="font-medium text-slate-600">Label:</span>
-                  <span className="ml-2 text-slate-800">{model.label}</span>
-                </div>
-              )}
-              {model.desc && (
-                <div>
-                  <span className="font-medium text-slate-600">Description:</span>
-                  <p className="mt-1 text-slate-800 leading-relaxed">{model.desc}</p>
-                </div>
-              )}
-              {model.group.desc && model.group.desc !== model.desc && (
-                <div>
-                  <span className="font-medium text-slate-600">Group Description:</span>
-                  <p className="mt-1 text-slate-800 leading-relaxed">{model.group.desc}</p>
-                </div>
-              )}
-            </div>
-          </div>
+const findNode = (node: TreeNode, id: string): TreeNode | null => {
+  if (node.id === id) return node;
+  for (const child of node.children) {
+    const found = findNode(child, id);
+    if (found) return found;
+  }
+  return null;
+};
 
-          {/* Navigation Tips */}
-          <div className="bg-blue-50 rounded-lg p-4">
-            <h3 className="text-sm font-medium text-blue-800 mb-2">Navigation Tips</h3>
-            <ul className="text-xs text-blue-700 space-y-1">
-              <li>• Click on groups to expand/collapse them</li>
-              <li>• Use the search box to filter points and groups</li>
-              <li>• Point details show below each point name</li>
-              <li>• Hierarchy is shown with indentation and connecting lines</li>
-            </ul>
-          </div>
-        </div>
+const ModeButton: React.FC<{ active: boolean; onClick: () => void; icon: React.ReactNode; children: React.ReactNode }> = ({
+  active,
+  onClick,
+  icon,
+  children
+}) => {
+  return (
+    <button
+      onClick={onClick}
+      className={`inline-flex items-center px-2.5 py-1 transition-colors ${
+        active ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'
+      }`}
+    >
+      {icon}
+      {children}
+    </button>
+  );
+};
+
+const IssueMarker: React.FC<{ severity?: ValidationIssue['severity'] }> = ({ severity }) => {
+  if (severity === 'error') return <AlertCircle className="w-3.5 h-3.5 text-red-600 flex-shrink-0" aria-label="Has validation errors" />;
+  if (severity === 'warning') return <AlertTriangle className="w-3.5 h-3.5 text-amber-600 flex-shrink-0" aria-label="Has validation warnings" />;
+  return null;
+};
+
+const AddressCell: React.FC<{ address: number; offset: number; size: number }> = ({ address, offset, size }) => {
+  return (
+    <div className="ml-3 flex-shrink-0 text-right font-mono text-xs">
+      <div className="text-slate-700">
+        {size > 1 ? `${address}–${address + size - 1}` : address}
       </div>
+      <div className="text-slate-400">+{offset}</div>
     </div>
   );
 };
 
-const PointDetails: React.FC<{ point: Point }> = ({ point }) => {
+const DecodedValue: React.FC<{ point: Point; decoded: DecodedPoint }> = ({ point, decoded }) => {
+  const value = DecoderService.formatValue(decoded, point);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className={`px-2 py-1 rounded font-mono ${
+        decoded.missing ? 'bg-amber-50 text-amber-700' :
+        !decoded.implemented ? 'bg-slate-100 text-slate-500 italic' :
+        'bg-sky-50 text-sky-800'
+      }`}>
+        {value}
+      </span>
+      {decoded.implemented && decoded.symbols && decoded.symbols.length > 0 && (
+        <span className="font-mono text-slate-500">= {String(decoded.raw)}</span>
+      )}
+      {decoded.words.length > 0 && (
+        <span className="font-mono text-slate-400">{DecoderService.formatWords(decoded.words)}</span>
+      )}
+    </div>
+  );
+};
+
+const PointDetails: React.FC<{
+  point: Point;
+  decoded?: DecodedPoint;
+  sfLink?: React.ReactNode;
+  highlightTerms: string[];
+}> = ({ point, decoded, sfLink, highlightTerms }) => {
   const getDisplayType = (type: string) => {
     return type === 'sunssf' ? 'Scale Factor' : type;
   };
@@ -395,6 +664,10 @@ const PointDetails: React.FC<{ point: Point }> = ({ point }) => {
           </span>
         )}
 
+        {sfLink ?? (point.sf !== undefined && (
+          <span className="px-2 py-1 bg-teal-100 text-teal-700 rounded-full font-mono">SF {point.sf}</span>
+        ))}
+
         {isEnumOrBitfield && point.symbols && point.symbols.length > 0 && (
           <span className="px-2 py-1 bg-emerald-100 text-emerald-700 rounded-full">
             {point.symbols.length} values
@@ -402,8 +675,10 @@ const PointDetails: React.FC<{ point: Point }> = ({ point }) => {
         )}
       </div>
       
+      {decoded && <DecodedValue point={point} decoded={decoded} />}
+
       {point.desc && (
-        <p className="text-xs text-slate-600 leading-relaxed">{point.desc}</p>
+        <p className="text-xs text-slate-600 leading-relaxed"><Highlight text={point.desc} terms={highlightTerms} /></p>
       )}
 
       {isEnumOrBitfield && renderSymbols()}
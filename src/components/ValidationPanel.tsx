@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { ShieldCheck, AlertCircle, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { ValidationResult, ValidationIssue } from '../types';
+
+interface ValidationPanelProps {
+  result: ValidationResult;
+  onSelect: (issue: ValidationIssue) => void;
+}
+
+const RULE_LABELS: Record<ValidationIssue['rule'], string> = {
+  schema: 'Schema',
+  'sf-scope': 'Scale factor',
+  'count-ref': 'Count',
+  'size-type': 'Size',
+  'unique-name': 'Names',
+  'symbols-type': 'Symbols',
+  header: 'Header'
+};
+
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ result, onSelect }) => {
+  const [isExpanded, setIsExpanded] = useState(result.errorCount > 0);
+
+  if (result.issues.length === 0) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-green-700">
+        <ShieldCheck className="w-4 h-4" />
+        <span>Valid against the SunSpec model schema</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center w-full text-sm font-medium text-slate-700 mb-2"
+      >
+        {isExpanded ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+        <span className="mr-auto">Validation</span>
+        {result.errorCount > 0 && (
+          <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-xs">{result.errorCount} errors</span>
+        )}
+        {result.warningCount > 0 && (
+          <span className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full text-xs">{result.warningCount} warnings</span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <ul className="space-y-1 max-h-64 overflow-y-auto">
+          {result.issues.map((issue, index) => (
+            <li key={`${issue.path}:${index}`}>
+              <button
+                onClick={() => onSelect(issue)}
+                disabled={!issue.nodePath}
+                title={issue.nodePath ? `Show ${issue.nodePath}` : undefined}
+                className="w-full text-left p-2 rounded-lg hover:bg-slate-50 disabled:hover:bg-transparent transition-colors"
+              >
+                <div className="flex items-start space-x-2 text-xs">
+                  {issue.severity === 'error' ? (
+                    <AlertCircle className="w-3.5 h-3.5 mt-0.5 text-red-600 flex-shrink-0" />
+                  ) : (
+                    <AlertTriangle className="w-3.5 h-3.5 mt-0.5 text-amber-600 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="text-slate-700">
+                      <span className="font-medium">{RULE_LABELS[issue.rule]}:</span> {issue.message}
+                    </div>
+                    <div className="font-mono text-slate-400 truncate">{issue.path}</div>
+                  </div>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
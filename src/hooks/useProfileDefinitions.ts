@@ -0,0 +1,68 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { SunSpecModel, DeviceProfile, ProfileEntry } from '../types';
+
+// The same model from the catalog and from Local models are different definitions
+const entryKey = (entry: ProfileEntry) => `${entry.local ? 'local' : 'catalog'}:${entry.id}`;
+
+/**
+ * Loads the definition of every model in a profile and edits its list of models. Local
+ * definitions are loaded again when localVersion changes, and a failed load is tried
+ * again the next time the profile or the loader changes.
+ */
+export const useProfileDefinitions = (
+  profile: DeviceProfile,
+  onChange: (profile: DeviceProfile) => void,
+  loadModel: (entry: ProfileEntry) => Promise<SunSpecModel>,
+  localVersion: number
+) => {
+  // Loaded definitions, or the reason a model failed to load
+  const [definitions, setDefinitions] = useState<Record<string, SunSpecModel | string>>({});
+  const requested = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    profile.models.forEach(entry => {
+      const key = entryKey(entry);
+      const version = entry.local ? localVersion : 0;
+      if (requested.current.get(key) === version) return;
+      requested.current.set(key, version);
+
+      loadModel(entry)
+        .then(model => {
+          if (requested.current.get(key) === version) setDefinitions(current => ({ ...current, [key]: model }));
+        })
+        .catch(err => {
+          if (requested.current.get(key) !== version) return;
+          requested.current.delete(key);
+          setDefinitions(current => ({
+            ...current,
+            [key]: err instanceof Error ? err.message : `Failed to load model ${entry.id}`
+          }));
+        });
+    });
+  }, [profile.models, loadModel, localVersion]);
+
+  // The loaded definition of an entry, or the reason it failed to load
+  const definitionOf = useCallback((entry: ProfileEntry) => definitions[entryKey(entry)], [definitions]);
+
+  // Every definition in profile order, once all of them are available
+  const models = useMemo(() => {
+    const loaded = profile.models.map(definitionOf);
+    return loaded.every(model => typeof model === 'object') ? loaded as SunSpecModel[] : null;
+  }, [profile.models, definitionOf]);
+
+  const isLoading = profile.models.some(entry => definitionOf(entry) === undefined);
+
+  const updateModels = (update: (models: ProfileEntry[]) => ProfileEntry[]) => {
+    onChange({ ...profile, models: update(profile.models) });
+  };
+
+  const moveEntry = (index: number, offset: number) => {
+    updateModels(models => {
+      const reordered = [...models];
+      reordered.splice(index + offset, 0, ...reordered.splice(index, 1));
+      return reordered;
+    });
+  };
+
+  return { definitionOf, models, isLoading, updateModels, moveEntry };
+};
@@ -0,0 +1,159 @@
+const DB_NAME = 'sunspec-model-viewer';
+const DB_VERSION = 2;
+const LISTINGS_STORE = 'listings';
+const MODELS_STORE = 'models';
+const UPLOADS_STORE = 'uploads';
+
+export interface CachedListing<T> {
+  key: string;
+  files: T[];
+  fetchedAt: number;
+  // Sent back as If-None-Match, so an unchanged listing costs no rate limit
+  etag?: string;
+}
+
+export interface CachedModel {
+  sha: string;
+  data: unknown;
+}
+
+export interface StoredUpload {
+  filename: string;
+  data: unknown;
+  storedAt: number;
+}
+
+export class CacheService {
+  private static dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  // Directory listings are keyed by repository and ref, e.g. "sunspec/models@master"
+  static listingKey(repo: string, ref: string): string {
+    return `${repo}@${ref}`;
+  }
+
+  static async getListing<T>(key: string): Promise<CachedListing<T> | undefined> {
+    return this.read<CachedListing<T>>(LISTINGS_STORE, key);
+  }
+
+  static async putListing<T>(key: string, files: T[], etag?: string): Promise<void> {
+    await this.write(LISTINGS_STORE, { key, files, fetchedAt: Date.now(), etag });
+  }
+
+  // Model bodies are keyed by git blob SHA, so identical files are shared across refs
+  static async getModel(sha: string): Promise<unknown | undefined> {
+    const cached = await this.read<CachedModel>(MODELS_STORE, sha);
+    return cached?.data;
+  }
+
+  static async putModel(sha: string, data: unknown): Promise<void> {
+    await this.write(MODELS_STORE, { sha, data });
+  }
+
+  // Model files loaded by the user are kept until they remove them
+  static async getUploads(): Promise<StoredUpload[]> {
+    return this.readAll<StoredUpload>(UPLOADS_STORE);
+  }
+
+  static async putUpload(filename: string, data: unknown): Promise<void> {
+    await this.write(UPLOADS_STORE, { filename, data, storedAt: Date.now() });
+  }
+
+  static async deleteUpload(filename: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    return new Promise(resolve => {
+      const transaction = db.transaction(UPLOADS_STORE, 'readwrite');
+      transaction.objectStore(UPLOADS_STORE).delete(filename);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        console.warn(`Failed to delete ${filename} from cache store ${UPLOADS_STORE}:`, transaction.error);
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Computes the git blob SHA-1 of a file's contents, which is the same "sha" the
+   * GitHub contents API reports for it.
+   */
+  static async blobSha(content: string): Promise<string> {
+    const body = new TextEncoder().encode(content);
+    const header = new TextEncoder().encode(`blob ${body.length}\0`);
+    const bytes = new Uint8Array(header.length + body.length);
+    bytes.set(header);
+    bytes.set(body, header.length);
+
+    const digest = await crypto.subtle.digest('SHA-1', bytes);
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private static open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        // Private browsing and old browsers run without a cache rather than failing
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(LISTINGS_STORE)) {
+            db.createObjectStore(LISTINGS_STORE, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(MODELS_STORE)) {
+            db.createObjectStore(MODELS_STORE, { keyPath: 'sha' });
+          }
+          if (!db.objectStoreNames.contains(UPLOADS_STORE)) {
+            db.createObjectStore(UPLOADS_STORE, { keyPath: 'filename' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('IndexedDB unavailable, caching disabled:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static async read<T>(storeName: string, key: string): Promise<T | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+
+    return new Promise(resolve => {
+      const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+      request.onsuccess = () => resolve(request.result as T | undefined);
+      request.onerror = () => resolve(undefined);
+    });
+  }
+
+  private static async readAll<T>(storeName: string): Promise<T[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    return new Promise(resolve => {
+      const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+      request.onsuccess = () => resolve(request.result as T[]);
+      request.onerror = () => resolve([]);
+    });
+  }
+
+  private static async write(storeName: string, value: object): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    return new Promise(resolve => {
+      const transaction = db.transaction(storeName, 'readwrite');
+      transaction.objectStore(storeName).put(value);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        console.warn(`Failed to write to cache store ${storeName}:`, transaction.error);
+        resolve();
+      };
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import { SunSpecModel, Group, ModelInfo, CatalogEntry, CatalogManifest, CatalogUpdates } from '../types';
+import { LayoutService } from './layoutService';
+
+export const CATALOG_MANIFEST_VERSION = 1;
+
+// Kept free of browser APIs so the build script can share it
+export class CatalogService {
+  static buildEntry(filename: string, model: SunSpecModel, sha: string): CatalogEntry | null {
+    const idMatch = filename.match(/model_(\d+)\.json/);
+    const id = idMatch ? parseInt(idMatch[1], 10) : model.id;
+    if (!id || id <= 0 || !model.group) {
+      return null;
+    }
+
+    return {
+      id,
+      name: filename.replace('.json', ''),
+      filename,
+      label: model.label || model.group.label,
+      desc: model.desc || model.group.desc,
+      pointCount: this.countPoints(model.group),
+      length: LayoutService.computeLayout(model, 0).length,
+      sha
+    };
+  }
+
+  static createManifest(repo: string, ref: string, entries: CatalogEntry[]): CatalogManifest {
+    return {
+      version: CATALOG_MANIFEST_VERSION,
+      repo,
+      ref,
+      generatedAt: new Date().toISOString(),
+      models: [...entries].sort((a, b) => a.id - b.id)
+    };
+  }
+
+  static toModelInfos(entries: CatalogEntry[]): ModelInfo[] {
+    return entries.map(entry => ({
+      id: entry.id,
+      name: entry.name,
+      label: entry.label,
+      desc: entry.desc,
+      filename: entry.filename,
+      pointCount: entry.pointCount,
+      length: entry.length,
+      sha: entry.sha
+    }));
+  }
+
+  // Compares manifest hashes with a live directory listing of blob SHAs
+  static findUpdates(manifest: CatalogManifest, files: { name: string; sha: string }[]): CatalogUpdates {
+    const known = new Map(manifest.models.map(entry => [entry.filename, entry.sha]));
+    const live = new Set(files.map(file => file.name));
+
+    return {
+      changed: files.filter(file => known.has(file.name) && known.get(file.name) !== file.sha).map(file => file.name),
+      added: files.filter(file => !known.has(file.name) && /model_\d+\.json$/.test(file.name)).map(file => file.name),
+      removed: manifest.models.filter(entry => !live.has(entry.filename)).map(entry => entry.filename)
+    };
+  }
+
+  static countPoints(group: Group): number {
+    return (group.points?.length ?? 0) + (group.groups ?? []).reduce((count, sub) => count + this.countPoints(sub), 0);
+  }
+}
@@ -0,0 +1,709 @@
+import { SunSpecModel, Group, Point, GroupLayout, Symbol } from '../types';
+import { LayoutService, MODEL_HEADER_SIZE } from './layoutService';
+
+export type CodegenTarget = 'typescript' | 'c' | 'python' | 'rust';
+
+export const CODEGEN_TARGETS: { id: CodegenTarget; label: string; extension: string }[] = [
+  { id: 'typescript', label: 'TypeScript', extension: 'ts' },
+  { id: 'c', label: 'C', extension: 'h' },
+  { id: 'python', label: 'Python', extension: 'py' },
+  { id: 'rust', label: 'Rust', extension: 'rs' }
+];
+
+interface CodePoint {
+  point: Point;
+  offset: number;
+  size: number;
+  symbolType?: string;
+}
+
+interface CodeGroup {
+  group: Group;
+  segments: string[];
+  typeName: string;
+  // Left out when they depend on the instance counts of other groups
+  offset?: number;
+  size?: number;
+  points: CodePoint[];
+  groups: CodeGroup[];
+}
+
+const SCALED_TYPES = new Set(['int16', 'int32', 'int64', 'uint16', 'uint32', 'uint64', 'acc16', 'acc32', 'acc64']);
+const BIGINT_TYPES = new Set(['int64', 'uint64', 'acc64', 'bitfield64']);
+const TEXT_TYPES = new Set(['string', 'ipaddr', 'ipv6addr', 'eui48']);
+
+const C_TYPES: Record<string, string> = {
+  int16: 'int16_t', sunssf: 'int16_t',
+  uint16: 'uint16_t', count: 'uint16_t', acc16: 'uint16_t', enum16: 'uint16_t', bitfield16: 'uint16_t', pad: 'uint16_t',
+  int32: 'int32_t', uint32: 'uint32_t', acc32: 'uint32_t', enum32: 'uint32_t', bitfield32: 'uint32_t', ipaddr: 'uint32_t',
+  int64: 'int64_t', uint64: 'uint64_t', acc64: 'uint64_t', bitfield64: 'uint64_t',
+  float32: 'float', float64: 'double'
+};
+
+const RUST_TYPES: Record<string, string> = {
+  int16: 'i16', sunssf: 'i16',
+  uint16: 'u16', count: 'u16', acc16: 'u16', enum16: 'u16', bitfield16: 'u16', pad: 'u16',
+  int32: 'i32', uint32: 'u32', acc32: 'u32', enum32: 'u32', bitfield32: 'u32', ipaddr: 'u32',
+  int64: 'i64', uint64: 'u64', acc64: 'u64', bitfield64: 'u64',
+  float32: 'f32', float64: 'f64', string: 'String', ipv6addr: '[u8; 16]', eui48: '[u8; 6]'
+};
+
+const PYTHON_KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+  'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or',
+  'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'
+]);
+
+const RUST_KEYWORDS = new Set([
+  'as', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'extern', 'false', 'fn', 'for', 'if', 'impl', 'in', 'let',
+  'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'static', 'struct', 'super', 'trait', 'true',
+  'type', 'unsafe', 'use', 'where', 'while', 'async', 'await', 'dyn'
+]);
+
+const identifier = (name: string) => {
+  const cleaned = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[0-9]/.test(cleaned) ? `_${cleaned}` : cleaned;
+};
+
+const words = (name: string) =>
+  identifier(name)
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .split('_')
+    .filter(Boolean);
+
+const snakeCase = (name: string) => words(name).join('_').toLowerCase();
+const pascalCase = (name: string) => words(name).map(word => word[0].toUpperCase() + word.slice(1).toLowerCase()).join('');
+
+const quote = (value: string) => JSON.stringify(value);
+const comment = (text: string | undefined) => (text ?? '').replace(/\s+/g, ' ').replace(/\*\//g, '* /').trim();
+
+const symbolTypeName = (group: CodeGroup, point: Point) => `${group.typeName}${identifier(point.name)}`;
+
+export class CodegenService {
+  static generate(model: SunSpecModel, target: CodegenTarget): string {
+    const root = this.describe(model);
+    switch (target) {
+      case 'typescript':
+        return this.toTypeScript(model, root);
+      case 'c':
+        return this.toC(model, root);
+      case 'python':
+        return this.toPython(model, root);
+      case 'rust':
+        return this.toRust(model, root);
+    }
+  }
+
+  static filename(model: SunSpecModel, target: CodegenTarget): string {
+    const extension = CODEGEN_TARGETS.find(candidate => candidate.id === target)?.extension ?? 'txt';
+    return target === 'c' ? `sunspec_model_${model.id}.h` : `model_${model.id}.${extension}`;
+  }
+
+  /**
+   * Flattens the model into groups with register offsets. Point offsets are relative to
+   * their group instance and never depend on counts. Group offsets are relative to the
+   * enclosing group instance and are only known up to the first sibling with a variable
+   * count; instance sizes are only known when every nested group has a fixed count.
+   */
+  private static describe(model: SunSpecModel): CodeGroup {
+    const counts = Object.fromEntries(LayoutService.repeatingGroups(model)
+      .filter(repeating => !LayoutService.hasFixedCount(repeating.count))
+      .map(repeating => [repeating.path, 1]));
+    const layout = LayoutService.computeLayout(model, 0, { counts });
+
+    const fixedSize = (group: Group): boolean =>
+      (group.groups || []).every(sub => (sub.count === undefined || LayoutService.hasFixedCount(sub.count)) && fixedSize(sub));
+
+    const build = (groupLayout: GroupLayout, segments: string[], parentOffset: number, fixedOffset: boolean): CodeGroup => {
+      const codeGroup: CodeGroup = {
+        group: groupLayout.group,
+        segments,
+        typeName: segments.map(segment => identifier(segment[0].toUpperCase() + segment.slice(1))).join(''),
+        offset: fixedOffset ? groupLayout.offset - parentOffset : undefined,
+        size: fixedSize(groupLayout.group) ? groupLayout.size : undefined,
+        points: [],
+        groups: []
+      };
+      codeGroup.points = groupLayout.points.map(pointLayout => ({
+        point: pointLayout.point,
+        offset: pointLayout.offset - groupLayout.offset,
+        size: pointLayout.size,
+        symbolType: pointLayout.point.symbols?.length ? symbolTypeName(codeGroup, pointLayout.point) : undefined
+      }));
+
+      // One entry per group; later instances of a fixed count only move the offsets after them
+      let fixed = true;
+      codeGroup.groups = groupLayout.groups
+        .filter(sub => sub.index === undefined || sub.index === 1)
+        .map(sub => {
+          const codeSub = build(sub, [...segments, sub.group.name], groupLayout.offset, fixed);
+          const count = sub.group.count;
+          if (codeSub.size === undefined || (count !== undefined && !LayoutService.hasFixedCount(count))) fixed = false;
+          return codeSub;
+        });
+      return codeGroup;
+    };
+
+    return build(layout.root, [model.group.name], 0, true);
+  }
+
+  // Children before parents, so every language sees a type before it is used
+  private static postOrder(group: CodeGroup): CodeGroup[] {
+    return [...group.groups.flatMap(sub => this.postOrder(sub)), group];
+  }
+
+  private static header(model: SunSpecModel): string {
+    const label = model.label || model.group.label;
+    return `Generated from SunSpec model ${model.id}${label ? ` (${comment(label)})` : ''}. Offsets are in registers.`;
+  }
+
+  private static countText(group: Group): string | undefined {
+    if (group.count === undefined) return undefined;
+    return typeof group.count === 'number' ? String(group.count) : group.count;
+  }
+
+  private static isBitfield(point: Point) {
+    return point.type.startsWith('bitfield');
+  }
+
+  private static bitMask(bit: number, bigint: boolean): string {
+    return bigint ? `0x${(1n << BigInt(bit)).toString(16)}n` : `0x${(2 ** bit).toString(16)}`;
+  }
+
+  // Symbols with an integer value, without duplicate names
+  private static usableSymbols(point: Point): Symbol[] {
+    const seen = new Set<string>();
+    return (point.symbols || []).filter(symbol => {
+      const valid = Number.isInteger(symbol.value) && typeof symbol.name === 'string' && !seen.has(symbol.name);
+      seen.add(symbol.name);
+      return valid;
+    });
+  }
+
+  private static toTypeScript(model: SunSpecModel, root: CodeGroup): string {
+    const lines: string[] = [
+      `// ${this.header(model)}`,
+      '// Decoded values are scaled by their scale factor; not-implemented values are null.',
+      '',
+      `export const MODEL_${model.id}_ID = ${model.id};`,
+      '',
+      'export interface PointDef {',
+      '  name: string;',
+      '  offset: number;',
+      '  size: number;',
+      '  type: string;',
+      '  sf?: string | number;',
+      '  units?: string;',
+      '}',
+      '',
+      'export interface GroupDef {',
+      '  name: string;',
+      '  offset?: number;',
+      '  size?: number;',
+      '  count?: string | number;',
+      '  points: PointDef[];',
+      '  groups: GroupDef[];',
+      '}',
+      ''
+    ];
+
+    const groups = this.postOrder(root);
+
+    groups.forEach(group => group.points.forEach(({ point, symbolType }) => {
+      if (!symbolType) return;
+      const symbols = this.usableSymbols(point);
+      if (this.isBitfield(point)) {
+        lines.push(`// ${group.segments.join('.')}.${point.name} bit masks`);
+        lines.push(`export const ${symbolType} = {`);
+        symbols.forEach(symbol => lines.push(`  ${identifier(symbol.name)}: ${this.bitMask(symbol.value, point.type === 'bitfield64')},`));
+        lines.push('} as const;', '');
+      } else {
+        lines.push(`export enum ${symbolType} {`);
+        symbols.forEach(symbol => lines.push(`  ${identifier(symbol.name)} = ${symbol.value},`));
+        lines.push('}', '');
+      }
+    }));
+
+    const valueType = ({ point, symbolType }: CodePoint) => {
+      if (symbolType && !this.isBitfield(point)) return symbolType;
+      if (TEXT_TYPES.has(point.type)) return 'string';
+      if (point.sf !== undefined && SCALED_TYPES.has(point.type)) return 'number';
+      return BIGINT_TYPES.has(point.type) ? 'bigint' : 'number';
+    };
+
+    groups.forEach(group => {
+      lines.push(`/** ${comment(group.group.label || group.segments.join('.'))} */`);
+      lines.push(`export interface ${group.typeName} {`);
+      group.points.forEach(codePoint => {
+        const { point, offset } = codePoint;
+        const details = [`+${offset}`, point.type, point.units, point.sf !== undefined ? `sf ${point.sf}` : undefined]
+          .filter(Boolean).join(', ');
+        lines.push(`  /** ${comment(point.label ? `${point.label} (${details})` : details)} */`);
+        lines.push(`  ${identifier(point.name)}: ${valueType(codePoint)} | null;`);
+      });
+      group.groups.forEach(sub => {
+        lines.push(`  ${identifier(sub.group.name)}: ${sub.typeName}${sub.group.count !== undefined ? '[]' : ''};`);
+      });
+      lines.push('}', '');
+    });
+
+    const groupDef = (group: CodeGroup, indent: string): string[] => {
+      const inner = `${indent}  `;
+      const count = group.group.count;
+      return [
+        `${indent}{`,
+        `${inner}name: ${quote(group.group.name)},`,
+        ...(group.offset !== undefined ? [`${inner}offset: ${group.offset},`] : []),
+        ...(group.size !== undefined ? [`${inner}size: ${group.size},`] : []),
+        ...(count !== undefined ? [`${inner}count: ${typeof count === 'number' ? count : quote(count)},`] : []),
+        `${inner}points: [`,
+        ...group.points.map(({ point, offset, size }) => {
+          const fields = [`name: ${quote(point.name)}`, `offset: ${offset}`, `size: ${size}`, `type: ${quote(point.type)}`];
+          if (point.sf !== undefined) fields.push(`sf: ${typeof point.sf === 'number' ? point.sf : quote(point.sf)}`);
+          if (point.units) fields.push(`units: ${quote(point.units)}`);
+          return `${inner}  { ${fields.join(', ')} },`;
+        }),
+        `${inner}],`,
+        `${inner}groups: [`,
+        ...group.groups.flatMap(sub => groupDef(sub, `${inner}  `)),
+        `${inner}]`,
+        `${indent}},`
+      ];
+    };
+
+    const definition = groupDef(root, '');
+    definition[definition.length - 1] = '};';
+    lines.push(`export const ${root.typeName}Def: GroupDef = ${definition.join('\n').trimStart()}`, '');
+
+    lines.push(...TYPESCRIPT_DECODER.split('\n'));
+    const start = root.points[0]?.point.name === 'ID' ? 0 : MODEL_HEADER_SIZE;
+    lines.push(
+      '',
+      `// words[0] is the model's ID register and words[1] its length L`,
+      `export const decodeModel${model.id} = (words: number[]): ${root.typeName} =>`,
+      `  decodeGroup(words, ${start}, ${root.typeName}Def, [], ${MODEL_HEADER_SIZE} + (words[1] ?? 0))[0] as unknown as ${root.typeName};`,
+      ''
+    );
+    return lines.join('\n');
+  }
+
+  private static toC(model: SunSpecModel, root: CodeGroup): string {
+    const guard = `SUNSPEC_MODEL_${model.id}_H`;
+    const prefix = `M${model.id}`;
+    const macro = (segments: string[]) => [prefix, ...segments.slice(1)].map(segment => identifier(segment).toUpperCase()).join('_');
+    const structName = (group: CodeGroup) => `${prefix.toLowerCase()}_${group.segments.map(snakeCase).join('_')}_t`;
+    const groups = this.postOrder(root);
+
+    const lines: string[] = [
+      `/* ${this.header(model)} */`,
+      '',
+      `#ifndef ${guard}`,
+      `#define ${guard}`,
+      '',
+      '#include <stddef.h>',
+      '#include <stdint.h>',
+      '',
+      `#define ${prefix}_ID ${model.id}`,
+      ''
+    ];
+
+    [...groups].reverse().forEach(group => {
+      const count = this.countText(group.group);
+      const scope = group.segments.join('.');
+      lines.push(count !== undefined
+        ? `/* ${scope}: repeated ${group.group.count === 0 ? 'to fill the model length' : `${count} times`}, offsets within one instance */`
+        : `/* ${scope}${group === root ? ": offsets from the model's ID register" : ''} */`);
+      if (group !== root) {
+        const parent = group.segments.slice(0, -1).join('.');
+        lines.push(group.offset !== undefined
+          ? `#define ${macro(group.segments)}_OFFSET ${group.offset} /* within one ${parent} instance */`
+          : `/* No ${macro(group.segments)}_OFFSET: it depends on the counts of earlier groups in ${parent} */`);
+        lines.push(group.size !== undefined
+          ? `#define ${macro(group.segments)}_SIZE ${group.size}`
+          : `/* No ${macro(group.segments)}_SIZE: it depends on the counts of nested groups */`);
+        if (LayoutService.hasFixedCount(group.group.count)) {
+          lines.push(`#define ${macro(group.segments)}_COUNT ${group.group.count}`);
+        }
+      }
+      group.points.forEach(({ point, offset, size }) => {
+        const name = macro([...group.segments, point.name]);
+        const details = [point.type, point.units, point.sf !== undefined ? `sf ${point.sf}` : undefined].filter(Boolean).join(', ');
+        lines.push(`#define ${name}_OFFSET ${offset} /* ${comment(details)} */`);
+        if (size !== 1) lines.push(`#define ${name}_SIZE ${size}`);
+      });
+      lines.push('');
+    });
+
+    groups.forEach(group => group.points.forEach(({ point, symbolType }) => {
+      if (!symbolType) return;
+      const name = macro([...group.segments, point.name]);
+      lines.push(`/* ${group.segments.join('.')}.${point.name} ${this.isBitfield(point) ? 'bits' : 'values'} */`);
+      this.usableSymbols(point).forEach(symbol => {
+        const constant = `${name}_${identifier(symbol.name).toUpperCase()}`;
+        if (this.isBitfield(point)) {
+          lines.push(`#define ${constant}_BIT ${symbol.value}`);
+          lines.push(`#define ${constant} (${point.type === 'bitfield64' ? 'UINT64_C(1)' : '1UL'} << ${symbol.value})`);
+        } else {
+          lines.push(`#define ${constant} ${symbol.value}`);
+        }
+      });
+      lines.push('');
+    }));
+
+    lines.push(
+      '#ifndef SUNSPEC_POINT_DEF_T',
+      '#define SUNSPEC_POINT_DEF_T',
+      '/* sf is the name of the scale factor point in scope, or a fixed exponent */',
+      'typedef struct {',
+      '    const char *name;',
+      '    uint16_t offset;',
+      '    uint16_t size;',
+      '    const char *type;',
+      '    const char *sf;',
+      '    const char *units;',
+      '} sunspec_point_def_t;',
+      '#endif',
+      ''
+    );
+
+    groups.forEach(group => {
+      lines.push(`static const sunspec_point_def_t ${macro(group.segments)}_POINTS[] = {`);
+      group.points.forEach(({ point, offset, size }) => {
+        const sf = point.sf !== undefined ? quote(String(point.sf)) : 'NULL';
+        const units = point.units ? quote(point.units) : 'NULL';
+        lines.push(`    { ${quote(point.name)}, ${offset}, ${size}, ${quote(point.type)}, ${sf}, ${units} },`);
+      });
+      lines.push('};', '');
+    });
+
+    lines.push('/* Raw register values in register order */');
+    groups.forEach(group => {
+      lines.push('typedef struct {');
+      group.points.forEach(({ point, size }) => {
+        const name = identifier(point.name);
+        if (point.type === 'string') {
+          lines.push(`    char ${name}[${size * 2}];`);
+        } else if (point.type === 'ipv6addr' || point.type === 'eui48') {
+          lines.push(`    uint8_t ${name}[${size * 2}];`);
+        } else {
+          lines.push(`    ${C_TYPES[point.type] ?? 'uint16_t'} ${name};`);
+        }
+      });
+      group.groups.forEach(sub => {
+        const name = identifier(sub.group.name);
+        if (sub.group.count === undefined) {
+          lines.push(`    ${structName(sub)} ${name};`);
+        } else if (LayoutService.hasFixedCount(sub.group.count)) {
+          lines.push(`    ${structName(sub)} ${name}[${sub.group.count}];`);
+        } else if (sub.group.count === 0) {
+          lines.push(`    /* ${name}: instances of ${structName(sub)} fill the rest of the model length */`);
+        } else {
+          lines.push(`    /* ${name}: ${sub.group.count} instances of ${structName(sub)} follow */`);
+        }
+      });
+      lines.push(`} ${structName(group)};`, '');
+    });
+
+    lines.push(`#endif /* ${guard} */`, '');
+    return lines.join('\n');
+  }
+
+  private static toPython(model: SunSpecModel, root: CodeGroup): string {
+    const name = (value: string) => PYTHON_KEYWORDS.has(value) ? `${identifier(value)}_` : identifier(value);
+    const groups = this.postOrder(root);
+    const lines: string[] = [
+      `"""${this.header(model)}"""`,
+      '',
+      'from dataclasses import dataclass, field',
+      'from enum import IntEnum, IntFlag',
+      'from typing import ClassVar, List, Optional, Union',
+      '',
+      `MODEL_ID = ${model.id}`,
+      '',
+      '',
+      '@dataclass(frozen=True)',
+      'class PointDef:',
+      '    name: str',
+      '    offset: int',
+      '    size: int',
+      '    type: str',
+      '    sf: Optional[Union[str, int]] = None',
+      '    units: Optional[str] = None',
+      ''
+    ];
+
+    groups.forEach(group => group.points.forEach(({ point, symbolType }) => {
+      if (!symbolType) return;
+      const symbols = this.usableSymbols(point);
+      const bitfield = this.isBitfield(point);
+      lines.push('', `class ${symbolType}(${bitfield ? 'IntFlag' : 'IntEnum'}):`);
+      if (symbols.length === 0) lines.push('    pass');
+      symbols.forEach(symbol => lines.push(`    ${name(symbol.name)} = ${bitfield ? `1 << ${symbol.value}` : symbol.value}`));
+      lines.push('');
+    }));
+
+    const pythonType = ({ point, symbolType }: CodePoint) => {
+      if (symbolType) return symbolType;
+      if (TEXT_TYPES.has(point.type)) return 'str';
+      if (point.type.startsWith('float') || (point.sf !== undefined && SCALED_TYPES.has(point.type))) return 'float';
+      return 'int';
+    };
+
+    groups.forEach(group => {
+      const count = group.group.count;
+      lines.push('', '@dataclass', `class ${group.typeName}:`);
+      lines.push(`    """${comment(group.group.label || group.segments.join('.')).replace(/"""/g, '')}"""`, '');
+      lines.push(group.offset !== undefined
+        ? `    OFFSET: ClassVar[int] = ${group.offset}`
+        : '    # No OFFSET: it depends on the counts of earlier groups');
+      lines.push(group.size !== undefined
+        ? `    SIZE: ClassVar[int] = ${group.size}`
+        : '    # No SIZE: it depends on the counts of nested groups');
+      if (count !== undefined) {
+        lines.push(`    COUNT: ClassVar[Union[str, int]] = ${typeof count === 'number' ? count : quote(count)}`);
+      }
+      lines.push('    POINTS: ClassVar[List[PointDef]] = [');
+      group.points.forEach(({ point, offset, size }) => {
+        const args = [quote(point.name), offset, size, quote(point.type)];
+        if (point.sf !== undefined) args.push(`sf=${typeof point.sf === 'number' ? point.sf : quote(point.sf)}`);
+        if (point.units) args.push(`units=${quote(point.units)}`);
+        lines.push(`        PointDef(${args.join(', ')}),`);
+      });
+      lines.push('    ]', '');
+
+      group.points.forEach(codePoint => {
+        lines.push(`    ${name(codePoint.point.name)}: Optional[${pythonType(codePoint)}] = None`);
+      });
+      group.groups.forEach(sub => {
+        lines.push(sub.group.count !== undefined
+          ? `    ${name(sub.group.name)}: List[${sub.typeName}] = field(default_factory=list)`
+          : `    ${name(sub.group.name)}: Optional[${sub.typeName}] = None`);
+      });
+      if (group.points.length === 0 && group.groups.length === 0) lines.push('    pass');
+      lines.push('');
+    });
+
+    return lines.join('\n');
+  }
+
+  private static toRust(model: SunSpecModel, root: CodeGroup): string {
+    const field = (value: string) => {
+      const snake = snakeCase(value);
+      return RUST_KEYWORDS.has(snake) ? `r#${snake}` : snake;
+    };
+    const groups = this.postOrder(root);
+
+    const lines: string[] = [
+      `//! ${this.header(model)}`,
+      '//! Struct fields hold raw register values; use the point tables for scale factors.',
+      '',
+      `pub const MODEL_ID: u16 = ${model.id};`,
+      '',
+      '#[derive(Debug, Clone, Copy, PartialEq, Eq)]',
+      'pub struct PointDef {',
+      '    pub name: &\'static str,',
+      '    pub offset: u16,',
+      '    pub size: u16,',
+      '    pub point_type: &\'static str,',
+      '    /// Name of the scale factor point in scope, or a fixed exponent',
+      '    pub sf: Option<&\'static str>,',
+      '    pub units: Option<&\'static str>,',
+      '}',
+      ''
+    ];
+
+    groups.forEach(group => group.points.forEach(({ point, symbolType }) => {
+      if (!symbolType) return;
+      const rawType = RUST_TYPES[point.type] ?? 'u16';
+      const symbols = this.usableSymbols(point);
+
+      if (this.isBitfield(point)) {
+        lines.push(`/// Bit masks for ${group.segments.join('.')}.${point.name}`);
+        lines.push(`pub struct ${symbolType};`, '', `impl ${symbolType} {`);
+        symbols.forEach(symbol => lines.push(`    pub const ${snakeCase(symbol.name).toUpperCase()}: ${rawType} = 1 << ${symbol.value};`));
+        lines.push('}', '');
+        return;
+      }
+
+      // Variants need distinct names and discriminants
+      const variants: { name: string; value: number }[] = [];
+      symbols.forEach(symbol => {
+        if (variants.some(variant => variant.value === symbol.value)) return;
+        let variant = pascalCase(symbol.name) || `Value${symbol.value}`;
+        if (/^[0-9]/.test(variant)) variant = `V${variant}`;
+        if (variants.some(existing => existing.name === variant)) variant = `${variant}${symbol.value}`;
+        variants.push({ name: variant, value: symbol.value });
+      });
+
+      lines.push('#[derive(Debug, Clone, Copy, PartialEq, Eq)]', `#[repr(${rawType})]`, `pub enum ${symbolType} {`);
+      variants.forEach(variant => lines.push(`    ${variant.name} = ${variant.value},`));
+      lines.push('}', '');
+      lines.push(`impl TryFrom<${rawType}> for ${symbolType} {`);
+      lines.push(`    type Error = ${rawType};`, '');
+      lines.push(`    fn try_from(value: ${rawType}) -> Result<Self, Self::Error> {`);
+      lines.push('        match value {');
+      variants.forEach(variant => lines.push(`            ${variant.value} => Ok(Self::${variant.name}),`));
+      lines.push('            other => Err(other),', '        }', '    }', '}', '');
+    }));
+
+    groups.forEach(group => {
+      lines.push(`/// ${comment(group.group.label || group.segments.join('.'))}`);
+      lines.push('#[derive(Debug, Clone, Default, PartialEq)]', `pub struct ${group.typeName} {`);
+      group.points.forEach(({ point, offset }) => {
+        const details = [`+${offset}`, point.type, point.units, point.sf !== undefined ? `sf ${point.sf}` : undefined].filter(Boolean).join(', ');
+        lines.push(`    /// ${comment(point.label ? `${point.label} (${details})` : details)}`);
+        lines.push(`    pub ${field(point.name)}: Option<${RUST_TYPES[point.type] ?? 'u16'}>,`);
+      });
+      group.groups.forEach(sub => {
+        lines.push(`    pub ${field(sub.group.name)}: ${sub.group.count !== undefined ? `Vec<${sub.typeName}>` : sub.typeName},`);
+      });
+      lines.push('}', '');
+
+      const count = group.group.count;
+      lines.push(`impl ${group.typeName} {`);
+      lines.push(group.offset !== undefined
+        ? `    pub const OFFSET: u16 = ${group.offset};`
+        : '    // No OFFSET: it depends on the counts of earlier groups');
+      lines.push(group.size !== undefined
+        ? `    pub const SIZE: u16 = ${group.size};`
+        : '    // No SIZE: it depends on the counts of nested groups');
+      if (count === 0) {
+        lines.push('    /// Instances fill the rest of the model length');
+      } else if (typeof count === 'number') {
+        lines.push(`    pub const COUNT: u16 = ${count};`);
+      } else if (count !== undefined) {
+        lines.push('    /// Number of instances comes from this point', `    pub const COUNT_POINT: &'static str = ${quote(count)};`);
+      }
+      lines.push(`    pub const POINTS: &'static [PointDef] = &[`);
+      group.points.forEach(({ point, offset, size }) => {
+        const sf = point.sf !== undefined ? `Some(${quote(String(point.sf))})` : 'None';
+        const units = point.units ? `Some(${quote(point.units)})` : 'None';
+        lines.push(`        PointDef { name: ${quote(point.name)}, offset: ${offset}, size: ${size}, point_type: ${quote(point.type)}, sf: ${sf}, units: ${units} },`);
+      });
+      lines.push('    ];', '}', '');
+    });
+
+    return lines.join('\n');
+  }
+}
+
+// Shared by every generated TypeScript file; mirrors DecoderService
+const TYPESCRIPT_DECODER = `type RawValue = number | bigint | string | null;
+type Scope = Record<string, RawValue>;
+
+const readPoint = (words: number[], offset: number, point: PointDef): RawValue => {
+  const w = words.slice(offset, offset + point.size);
+  if (w.length < point.size) return null;
+  const zero = w.every(word => word === 0);
+  const u32 = () => ((w[0] << 16) | w[1]) >>> 0;
+  const u64 = () => w.slice(0, 4).reduce((value, word) => (value << 16n) | BigInt(word), 0n);
+  const float = (bytes: number) => {
+    const view = new DataView(new ArrayBuffer(bytes));
+    w.slice(0, bytes / 2).forEach((word, i) => view.setUint16(i * 2, word));
+    const value = bytes === 4 ? view.getFloat32(0) : view.getFloat64(0);
+    return Number.isNaN(value) ? null : value;
+  };
+
+  switch (point.type) {
+    case 'int16':
+    case 'sunssf':
+      return w[0] === 0x8000 ? null : (w[0] << 16) >> 16;
+    case 'uint16':
+    case 'count':
+    case 'enum16':
+    case 'bitfield16':
+      return w[0] === 0xffff ? null : w[0];
+    case 'acc16':
+      return zero ? null : w[0];
+    case 'int32':
+      return u32() === 0x80000000 ? null : u32() | 0;
+    case 'uint32':
+    case 'enum32':
+    case 'bitfield32':
+      return u32() === 0xffffffff ? null : u32();
+    case 'acc32':
+      return zero ? null : u32();
+    case 'int64':
+      return u64() === 0x8000000000000000n ? null : BigInt.asIntN(64, u64());
+    case 'uint64':
+    case 'bitfield64':
+      return u64() === 0xffffffffffffffffn ? null : u64();
+    case 'acc64':
+      return zero ? null : u64();
+    case 'float32':
+      return float(4);
+    case 'float64':
+      return float(8);
+    case 'string':
+      return zero ? null : String.fromCharCode(...w.flatMap(word => [word >> 8, word & 0xff])).replace(/\\0+$/, '');
+    case 'ipaddr':
+      return zero ? null : [w[0] >> 8, w[0] & 0xff, w[1] >> 8, w[1] & 0xff].join('.');
+    case 'ipv6addr':
+      return zero ? null : w.map(word => word.toString(16)).join(':');
+    case 'eui48':
+      return zero ? null : w.slice(1).flatMap(word => [word >> 8, word & 0xff]).map(byte => byte.toString(16).padStart(2, '0')).join(':');
+    default:
+      return w[0];
+  }
+};
+
+// Count 0 repeats a group as often as fits before the end of the model
+const fillCount = (words: number[], offset: number, group: GroupDef, scopes: Scope[], end: number): number => {
+  const [, size] = decodeGroup(words, offset, group, scopes, end);
+  return size === 0 ? 1 : Math.max(0, Math.floor((end - offset) / size));
+};
+
+// Decodes one group instance at offset; returns its values and the registers it used
+export const decodeGroup = (
+  words: number[],
+  offset: number,
+  group: GroupDef,
+  scopes: Scope[],
+  end: number
+): [Record<string, unknown>, number] => {
+  const raw: Scope = {};
+  let cursor = offset;
+  group.points.forEach(point => {
+    raw[point.name] = readPoint(words, cursor, point);
+    cursor += point.size;
+  });
+
+  // Scale factors and counts resolve in this group first, then in each enclosing group
+  const chain = [raw, ...scopes];
+  const lookup = (name: string | number): RawValue => {
+    if (typeof name === 'number' || Number.isInteger(Number(name))) return Number(name);
+    return chain.find(scope => name in scope)?.[name] ?? null;
+  };
+
+  const result: Record<string, unknown> = {};
+  group.points.forEach(point => {
+    const value = raw[point.name];
+    const sf = point.sf !== undefined ? lookup(point.sf) : undefined;
+    if (sf === undefined || value === null || typeof value === 'string') {
+      result[point.name] = value;
+    } else {
+      result[point.name] = typeof sf === 'number' ? Number(value) * 10 ** sf : null;
+    }
+  });
+
+  group.groups.forEach(sub => {
+    if (sub.count === undefined) {
+      const [value, size] = decodeGroup(words, cursor, sub, chain, end);
+      result[sub.name] = value;
+      cursor += size;
+      return;
+    }
+
+    const count = sub.count === 0 ? fillCount(words, cursor, sub, chain, end) : Number(lookup(sub.count) ?? 0);
+    const instances: Record<string, unknown>[] = [];
+    for (let i = 0; i < count; i++) {
+      const [value, size] = decodeGroup(words, cursor, sub, chain, end);
+      instances.push(value);
+      cursor += size;
+    }
+    result[sub.name] = instances;
+  });
+
+  return [result, cursor - offset];
+};`;
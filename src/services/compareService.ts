@@ -0,0 +1,97 @@
+import { SunSpecModel, PointLayout, AlignedPoint, AlignedPair, ModelAlignment } from '../types';
+import { LayoutService } from './layoutService';
+
+const COMPARED_ATTRIBUTES = ['type', 'units', 'sf', 'size'] as const;
+
+export class CompareService {
+  /**
+   * Aligns the points of two different models. Points are paired by name first and
+   * then by label, each point being used at most once; the rest are listed as only
+   * existing in one of the models.
+   */
+  static alignModels(left: SunSpecModel, right: SunSpecModel): ModelAlignment {
+    const leftPoints = this.flattenPoints(left);
+    const rightPoints = this.flattenPoints(right);
+    const pairs: AlignedPair[] = [];
+    const usedRight = new Set<AlignedPoint>();
+
+    const pairBy = (matchedBy: AlignedPair['matchedBy'], key: (point: AlignedPoint) => string | undefined) => {
+      const rightByKey = new Map<string, AlignedPoint>();
+      rightPoints.forEach(point => {
+        const value = key(point);
+        if (value && !usedRight.has(point) && !rightByKey.has(value)) rightByKey.set(value, point);
+      });
+
+      leftPoints.forEach(point => {
+        if (pairs.some(pair => pair.left === point)) return;
+        const value = key(point);
+        const match = value ? rightByKey.get(value) : undefined;
+        if (!match || usedRight.has(match)) return;
+
+        usedRight.add(match);
+        pairs.push({ left: point, right: match, matchedBy, differences: this.differences(point, match) });
+      });
+    };
+
+    pairBy('name', point => point.name.toLowerCase());
+    pairBy('label', point => this.normalizeLabel(point.label));
+
+    // Keep the table in the left model's register order
+    const leftOrder = new Map(leftPoints.map((point, index) => [point, index]));
+    pairs.sort((a, b) => leftOrder.get(a.left)! - leftOrder.get(b.left)!);
+
+    const pairedLeft = new Set(pairs.map(pair => pair.left));
+    return {
+      left,
+      right,
+      pairs,
+      leftOnly: leftPoints.filter(point => !pairedLeft.has(point)),
+      rightOnly: rightPoints.filter(point => !usedRight.has(point))
+    };
+  }
+
+  static toCsvRows(alignment: ModelAlignment): (string | number | undefined)[][] {
+    const side = (point?: AlignedPoint) => point
+      ? [point.path, point.offset, point.type, point.units, point.sf]
+      : [undefined, undefined, undefined, undefined, undefined];
+
+    return [
+      [
+        `Model ${alignment.left.id} point`, 'Offset', 'Type', 'Units', 'Scale factor',
+        `Model ${alignment.right.id} point`, 'Offset', 'Type', 'Units', 'Scale factor',
+        'Matched by', 'Differences'
+      ],
+      ...alignment.pairs.map(pair => [...side(pair.left), ...side(pair.right), pair.matchedBy, pair.differences.join('; ')]),
+      ...alignment.leftOnly.map(point => [...side(point), ...side(), `only in ${alignment.left.id}`, '']),
+      ...alignment.rightOnly.map(point => [...side(), ...side(point), `only in ${alignment.right.id}`, ''])
+    ];
+  }
+
+  private static flattenPoints(model: SunSpecModel): AlignedPoint[] {
+    // Repeating groups are aligned on their first instance
+    const counts = Object.fromEntries(LayoutService.repeatingGroups(model).map(repeating => [repeating.path, 1]));
+    const layout = LayoutService.computeLayout(model, 0, { counts });
+    return layout.points.map((pointLayout: PointLayout) => ({
+      path: pointLayout.templatePath,
+      name: pointLayout.point.name,
+      label: pointLayout.point.label,
+      offset: pointLayout.offset,
+      type: pointLayout.point.type,
+      units: pointLayout.point.units,
+      sf: pointLayout.point.sf === undefined ? undefined : String(pointLayout.point.sf),
+      size: pointLayout.size,
+      point: pointLayout.point
+    }));
+  }
+
+  private static differences(left: AlignedPoint, right: AlignedPoint): string[] {
+    return COMPARED_ATTRIBUTES
+      .filter(attribute => (left[attribute] ?? '') !== (right[attribute] ?? ''))
+      .map(attribute => `${attribute}: ${left[attribute] ?? '—'} → ${right[attribute] ?? '—'}`);
+  }
+
+  private static normalizeLabel(label?: string): string | undefined {
+    const normalized = label?.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    return normalized || undefined;
+  }
+}
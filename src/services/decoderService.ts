@@ -0,0 +1,339 @@
+import { SunSpecModel, Point, PointLayout, ModelLayout, LayoutOptions, RegisterMap, DecodedPoint, DecodedModel, RegisterDump } from '../types';
+import { LayoutService } from './layoutService';
+
+// Matches "40001: 0x5375", "40001 = 21365" and "[40001] 21365"
+const ADDRESSED_LINE = /^\s*(?:\[(\d+)\]\s*[:=]?|(\d+)\s*[:=])\s*(0x[0-9a-f]+|-?\d+|[0-9a-f]{1,4})\s*$/i;
+// Modbus poll logs copy as "40001<TAB>21365". Only a decimal first column at or above the
+// start address is an address, so "5375<TAB>6e53" and "0001<TAB>0042" stay hex words.
+const TAB_LINE = /^(\d+)\t+(0x[0-9a-f]+|-?\d+)$/i;
+const HEX_WORD = /^(?:0x)?[0-9a-f]{1,4}$/i;
+
+// Scale factors are a power of ten; anything outside this range is treated as garbage
+const MAX_SCALE_FACTOR = 10;
+
+export class DecoderService {
+  /**
+   * Parses a raw holding-register dump. Lines with an explicit address are placed at
+   * that address, everything else is read as a run of hex words starting at
+   * startAddress (or right after the last addressed line).
+   */
+  static parseRegisterDump(text: string, startAddress: number, oneBased: boolean = false): RegisterDump {
+    const registers: RegisterMap = new Map();
+    const invalidLines: number[] = [];
+    let cursor = startAddress;
+
+    text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+      // Drop comments and Modbus poll headers
+      const line = rawLine.replace(/(#|\/\/).*$/, '').trim();
+      if (!line) return;
+
+      const addressed = line.match(ADDRESSED_LINE);
+      if (addressed) {
+        const address = parseInt(addressed[1] ?? addressed[2], 10) - (oneBased ? 1 : 0);
+        registers.set(address, this.parseWord(addressed[3], false));
+        cursor = address + 1;
+        return;
+      }
+
+      const tabbed = line.match(TAB_LINE);
+      if (tabbed && parseInt(tabbed[1], 10) >= startAddress) {
+        const address = parseInt(tabbed[1], 10) - (oneBased ? 1 : 0);
+        registers.set(address, this.parseWord(tabbed[2], false));
+        cursor = address + 1;
+        return;
+      }
+
+      const tokens = line.split(/[\s,;]+/).filter(Boolean);
+      if (tokens.length === 0 || !tokens.every(token => HEX_WORD.test(token))) {
+        invalidLines.push(lineIndex + 1);
+        return;
+      }
+
+      tokens.forEach(token => {
+        registers.set(cursor, this.parseWord(token, true));
+        cursor++;
+      });
+    });
+
+    return { registers, invalidLines };
+  }
+
+  /**
+   * Decodes every point of a model from a register map. Repeating group counts that
+   * reference points are taken from the decoded values, so the layout is recomputed
+   * until it no longer changes; groups with count 0 fill the model length in L.
+   */
+  static decodeModel(model: SunSpecModel, startAddress: number, registers: RegisterMap, options: LayoutOptions = {}): DecodedModel {
+    // Groups with count 0 fill the length the device reports in L
+    const modelLength = registers.get(startAddress + 1);
+    if (options.modelLength === undefined && modelLength !== undefined) {
+      options = { ...options, modelLength };
+    }
+    let pointValues: Record<string, number> = {};
+    let layout: ModelLayout = LayoutService.computeLayout(model, startAddress, { ...options, pointValues });
+    let points = this.decodeLayout(layout, registers);
+
+    // Each pass can only uncover counts for groups nested one level deeper
+    for (let pass = 0; pass < 8; pass++) {
+      const nextValues = this.numericValues(points);
+      if (this.sameValues(pointValues, nextValues)) break;
+
+      pointValues = nextValues;
+      layout = LayoutService.computeLayout(model, startAddress, { ...options, pointValues });
+      points = this.decodeLayout(layout, registers);
+    }
+
+    return { layout, points };
+  }
+
+  static decodeLayout(layout: ModelLayout, registers: RegisterMap): Record<string, DecodedPoint> {
+    const decoded: Record<string, DecodedPoint> = {};
+
+    layout.points.forEach(pointLayout => {
+      decoded[pointLayout.path] = this.decodePoint(pointLayout, registers);
+    });
+
+    // Scale factors are applied once every sunssf point has been read
+    layout.points.forEach(pointLayout => {
+      const result = decoded[pointLayout.path];
+      const { point } = pointLayout;
+      if (point.sf === undefined || point.type === 'sunssf' || !result.implemented || typeof result.raw !== 'number') {
+        return;
+      }
+
+      const sf = this.resolveScaleFactor(point, pointLayout.path, decoded);
+      result.sf = sf;
+      if (sf !== undefined) {
+        result.scaled = result.raw * Math.pow(10, sf);
+      }
+    });
+
+    return decoded;
+  }
+
+  static decodePoint(pointLayout: PointLayout, registers: RegisterMap): DecodedPoint {
+    const { point, path, address, size } = pointLayout;
+    const words: number[] = [];
+
+    for (let i = 0; i < size; i++) {
+      const word = registers.get(address + i);
+      if (word === undefined) {
+        return { path, words, raw: null, implemented: false, missing: true };
+      }
+      words.push(word);
+    }
+
+    const raw = this.decodeWords(point.type, words);
+    const result: DecodedPoint = {
+      path,
+      words,
+      raw,
+      implemented: !this.isNotImplemented(point.type, words, raw),
+      missing: false
+    };
+
+    if (result.implemented && point.symbols && point.symbols.length > 0) {
+      result.symbols = this.matchSymbols(point, raw);
+    }
+
+    return result;
+  }
+
+  static decodeWords(type: string, words: number[]): number | bigint | string {
+    switch (type) {
+      case 'int16':
+      case 'sunssf':
+        return words[0] >= 0x8000 ? words[0] - 0x10000 : words[0];
+      case 'uint16':
+      case 'count':
+      case 'acc16':
+      case 'enum16':
+      case 'bitfield16':
+      case 'pad':
+        return words[0];
+      case 'int32': {
+        const value = this.toUint32(words);
+        return value >= 0x80000000 ? value - 0x100000000 : value;
+      }
+      case 'uint32':
+      case 'acc32':
+      case 'enum32':
+      case 'bitfield32':
+        return this.toUint32(words);
+      case 'float32': {
+        const view = new DataView(new ArrayBuffer(4));
+        view.setUint16(0, words[0]);
+        view.setUint16(2, words[1]);
+        return view.getFloat32(0);
+      }
+      case 'float64': {
+        const view = new DataView(new ArrayBuffer(8));
+        words.slice(0, 4).forEach((word, i) => view.setUint16(i * 2, word));
+        return view.getFloat64(0);
+      }
+      case 'int64':
+        return BigInt.asIntN(64, this.toUint64(words));
+      case 'uint64':
+      case 'acc64':
+      case 'bitfield64':
+        return this.toUint64(words);
+      case 'ipaddr':
+        return [words[0] >> 8, words[0] & 0xff, words[1] >> 8, words[1] & 0xff].join('.');
+      case 'ipv6addr':
+        return words.map(word => word.toString(16)).join(':');
+      case 'eui48':
+        // The first register is padding; the address lives in the low 48 bits
+        return words.slice(1).flatMap(word => [word >> 8, word & 0xff])
+          .map(byte => byte.toString(16).padStart(2, '0')).join(':');
+      case 'string':
+        return this.decodeString(words);
+      default:
+        return words.length === 1 ? words[0] : this.toUint64(words.slice(0, 4));
+    }
+  }
+
+  static isNotImplemented(type: string, words: number[], raw: number | bigint | string): boolean {
+    const allWords = (value: number) => words.every(word => word === value);
+
+    switch (type) {
+      case 'int16':
+      case 'sunssf':
+        return words[0] === 0x8000;
+      case 'uint16':
+      case 'count':
+      case 'enum16':
+      case 'bitfield16':
+        return words[0] === 0xffff;
+      case 'int32':
+        return words[0] === 0x8000 && words[1] === 0;
+      case 'int64':
+        return words[0] === 0x8000 && words.slice(1).every(word => word === 0);
+      case 'uint32':
+      case 'enum32':
+      case 'bitfield32':
+      case 'uint64':
+      case 'bitfield64':
+        return allWords(0xffff);
+      case 'acc16':
+      case 'acc32':
+      case 'acc64':
+      case 'ipaddr':
+      case 'ipv6addr':
+      case 'eui48':
+      case 'string':
+        return allWords(0);
+      case 'float32':
+      case 'float64':
+        return typeof raw === 'number' && Number.isNaN(raw);
+      default:
+        return false;
+    }
+  }
+
+  // Enum symbols match on value; bitfield symbols name the bit positions that are set
+  static matchSymbols(point: Point, raw: number | bigint | string): string[] {
+    if (typeof raw === 'string') return [];
+    const symbols = point.symbols || [];
+
+    if (point.type.startsWith('bitfield')) {
+      const bits = BigInt(raw);
+      return symbols
+        .filter(symbol => {
+          const bit = Number(symbol.value);
+          return Number.isInteger(bit) && bit >= 0 && ((bits >> BigInt(bit)) & 1n) === 1n;
+        })
+        .map(symbol => symbol.name);
+    }
+
+    const match = symbols.find(symbol => Number(symbol.value) === Number(raw));
+    return match ? [match.name] : [];
+  }
+
+  /**
+   * Resolves a point's scale factor. Numeric factors are used as-is; named factors are
+   * looked up in the point's own group first and then in each enclosing group.
+   */
+  static resolveScaleFactor(point: Point, path: string, decoded: Record<string, DecodedPoint>): number | undefined {
+    if (typeof point.sf === 'number') {
+      return point.sf;
+    }
+    if (typeof point.sf !== 'string') {
+      return undefined;
+    }
+
+    const numeric = Number(point.sf);
+    if (point.sf.trim() !== '' && Number.isInteger(numeric)) {
+      return numeric;
+    }
+
+    const segments = path.split('.').slice(0, -1);
+    while (segments.length > 0) {
+      const sfPoint = decoded[`${segments.join('.')}.${point.sf}`];
+      if (sfPoint) {
+        if (!sfPoint.implemented || typeof sfPoint.raw !== 'number' || Math.abs(sfPoint.raw) > MAX_SCALE_FACTOR) {
+          return undefined;
+        }
+        return sfPoint.raw;
+      }
+      segments.pop();
+    }
+
+    return undefined;
+  }
+
+  static formatValue(decoded: DecodedPoint, point: Point): string {
+    if (decoded.missing) return 'missing';
+    if (!decoded.implemented) return 'not implemented';
+
+    if (decoded.symbols && decoded.symbols.length > 0) {
+      return decoded.symbols.join(' | ');
+    }
+
+    if (decoded.scaled !== undefined && decoded.sf !== undefined) {
+      const digits = Math.max(0, -decoded.sf);
+      return `${decoded.scaled.toFixed(digits)}${point.units ? ` ${point.units}` : ''}`;
+    }
+
+    const raw = typeof decoded.raw === 'string' ? `"${decoded.raw}"` : String(decoded.raw);
+    return `${raw}${point.units && typeof decoded.raw !== 'string' ? ` ${point.units}` : ''}`;
+  }
+
+  static formatWords(words: number[]): string {
+    return words.map(word => word.toString(16).padStart(4, '0')).join(' ');
+  }
+
+  private static numericValues(points: Record<string, DecodedPoint>): Record<string, number> {
+    const values: Record<string, number> = {};
+    Object.values(points).forEach(point => {
+      if (point.implemented && typeof point.raw === 'number') {
+        values[point.path] = point.raw;
+      }
+    });
+    return values;
+  }
+
+  private static sameValues(a: Record<string, number>, b: Record<string, number>): boolean {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+  }
+
+  private static parseWord(token: string, defaultHex: boolean): number {
+    const isHex = defaultHex || /^0x/i.test(token) || /[a-f]/i.test(token);
+    const value = isHex ? parseInt(token.replace(/^0x/i, ''), 16) : parseInt(token, 10);
+    return value & 0xffff;
+  }
+
+  private static toUint32(words: number[]): number {
+    return words[0] * 0x10000 + words[1];
+  }
+
+  private static toUint64(words: number[]): bigint {
+    return words.reduce((value, word) => (value << 16n) | BigInt(word), 0n);
+  }
+
+  private static decodeString(words: number[]): string {
+    const bytes = words.flatMap(word => [word >> 8, word & 0xff]);
+    const end = bytes.indexOf(0);
+    return String.fromCharCode(...(end === -1 ? bytes : bytes.slice(0, end))).trim();
+  }
+}
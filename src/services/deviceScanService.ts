@@ -0,0 +1,116 @@
+import { SunSpecModel, ModelSource, RegisterMap, DeviceScanResult, ScannedModel } from '../types';
+import { DecoderService } from './decoderService';
+import { LayoutService, SUNSPEC_BASE_ADDRESSES, SUNS_MARKER_SIZE, MODEL_HEADER_SIZE } from './layoutService';
+
+// "SunS" as two big-endian registers
+export const SUNS_MARKER = [0x5375, 0x6e53];
+export const END_MODEL_ID = 0xffff;
+
+// A real device implements a handful of models; this only stops runaway chains
+const MAX_CHAIN_LENGTH = 128;
+
+export class DeviceScanService {
+  /**
+   * Reads a register image from a file. Printable files are parsed like a pasted dump,
+   * anything else is treated as raw big-endian registers starting at startAddress.
+   */
+  static parseImageFile(buffer: ArrayBuffer, startAddress: number): RegisterMap {
+    const bytes = new Uint8Array(buffer);
+    const isText = bytes.every(byte => byte === 0x09 || byte === 0x0a || byte === 0x0d || (byte >= 0x20 && byte < 0x7f));
+
+    if (isText) {
+      return DecoderService.parseRegisterDump(new TextDecoder().decode(bytes), startAddress).registers;
+    }
+
+    const registers: RegisterMap = new Map();
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+      registers.set(startAddress + i / 2, (bytes[i] << 8) | bytes[i + 1]);
+    }
+    return registers;
+  }
+
+  static findBaseAddress(registers: RegisterMap): number | null {
+    const base = SUNSPEC_BASE_ADDRESSES.find(address =>
+      registers.get(address) === SUNS_MARKER[0] && registers.get(address + 1) === SUNS_MARKER[1]
+    );
+    return base ?? null;
+  }
+
+  /**
+   * Walks the model ID/length headers from the SunS marker to the end model and then
+   * loads each model definition to check the advertised length against it.
+   */
+  static async scan(registers: RegisterMap, source: ModelSource): Promise<DeviceScanResult> {
+    const baseAddress = this.findBaseAddress(registers);
+    if (baseAddress === null) {
+      throw new Error(`No SunS marker found at ${SUNSPEC_BASE_ADDRESSES.join(', ')}`);
+    }
+
+    const models: ScannedModel[] = [];
+    let address = baseAddress + SUNS_MARKER_SIZE;
+    let error: string | undefined;
+    let endAddress: number | undefined;
+
+    while (models.length < MAX_CHAIN_LENGTH) {
+      const id = registers.get(address);
+      const length = registers.get(address + 1);
+
+      if (id === undefined || length === undefined) {
+        error = `Register image ends at ${address} before the end model`;
+        break;
+      }
+
+      if (id === END_MODEL_ID) {
+        endAddress = address;
+        break;
+      }
+
+      models.push({ id, address, length });
+      address += MODEL_HEADER_SIZE + length;
+    }
+
+    if (!error && endAddress === undefined) {
+      error = `Stopped after ${MAX_CHAIN_LENGTH} models without reaching the end model`;
+    }
+
+    // Only the models the device implements are loaded, never the whole catalog
+    await Promise.all(models.map(scanned => this.checkDefinition(scanned, registers, source)));
+
+    return { baseAddress, models, endAddress, error };
+  }
+
+  private static async checkDefinition(scanned: ScannedModel, registers: RegisterMap, source: ModelSource): Promise<void> {
+    let model: SunSpecModel;
+    try {
+      model = await source.getModelById(scanned.id);
+    } catch (err) {
+      scanned.error = `No definition for model ${scanned.id}: ${err instanceof Error ? err.message : 'failed to load'}`;
+      return;
+    }
+
+    scanned.model = model;
+    // Decoding resolves repeating group counts from the device's own values
+    const decoded = DecoderService.decodeModel(model, scanned.address, registers);
+    scanned.expectedLength = decoded.layout.length;
+    scanned.error = this.checkFill(model, scanned, registers);
+  }
+
+  /**
+   * Groups with count 0 are sized from the device's own L, so L has to be the rest of the
+   * model plus whole instances of the first such group, or the device reports a wrong L.
+   */
+  private static checkFill(model: SunSpecModel, scanned: ScannedModel, registers: RegisterMap): string | undefined {
+    const fills = LayoutService.repeatingGroups(model).filter(repeating => repeating.count === 0);
+    if (fills.length === 0) return undefined;
+
+    const empty = Object.fromEntries(fills.map(fill => [fill.path, 0]));
+    const lengthWith = (counts: Record<string, number>) =>
+      DecoderService.decodeModel(model, scanned.address, registers, { counts }).layout.length;
+    const fixed = lengthWith(empty);
+    const instance = lengthWith({ ...empty, [fills[0].path]: 1 }) - fixed;
+    const rest = scanned.length - fixed;
+    if (instance <= 0 || (rest >= 0 && rest % instance === 0)) return undefined;
+
+    return `L = ${scanned.length} is not ${fixed} fixed registers plus whole ${fills[0].group.name} instances of ${instance}`;
+  }
+}
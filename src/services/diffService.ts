@@ -0,0 +1,255 @@
+import { SunSpecModel, Group, Point, Symbol, ModelDiff, GroupDiff, PointDiff, AttributeChange, DiffStatus } from '../types';
+import { LayoutService } from './layoutService';
+
+const COMPARED_POINT_ATTRIBUTES: (keyof Point)[] = ['type', 'size', 'sf', 'units', 'access', 'mandatory', 'static'];
+const COMPARED_GROUP_ATTRIBUTES: (keyof Group)[] = ['type', 'count'];
+
+export class DiffService {
+  /**
+   * Compares two versions of a model by group and point name. Points that disappear
+   * from one group and appear in another are reported as moved, and every matched
+   * point carries its register offset in both versions.
+   */
+  static diffModels(oldModel: SunSpecModel, newModel: SunSpecModel, oldRef: string, newRef: string): ModelDiff {
+    const oldOffsets = this.templateOffsets(oldModel);
+    const newOffsets = this.templateOffsets(newModel);
+
+    const root = this.diffGroup(oldModel.group, newModel.group, newModel.group.name, oldModel.group.name, oldOffsets, newOffsets);
+    this.detectMoves(root);
+
+    const summary = { added: 0, removed: 0, moved: 0, changed: 0, shifted: 0 };
+    this.flattenPoints(root).forEach(pointDiff => {
+      if (pointDiff.status !== 'unchanged') summary[pointDiff.status]++;
+      if (this.offsetShift(pointDiff)) summary.shifted++;
+    });
+
+    return { modelId: newModel.id, oldRef, newRef, root, summary };
+  }
+
+  static flattenPoints(groupDiff: GroupDiff): PointDiff[] {
+    return [...groupDiff.points, ...groupDiff.groups.flatMap(sub => this.flattenPoints(sub))];
+  }
+
+  static offsetShift(pointDiff: PointDiff): number {
+    if (pointDiff.oldOffset === undefined || pointDiff.newOffset === undefined) return 0;
+    return pointDiff.newOffset - pointDiff.oldOffset;
+  }
+
+  static hasChanges(groupDiff: GroupDiff): boolean {
+    return groupDiff.status !== 'unchanged' ||
+      groupDiff.points.some(pointDiff => pointDiff.status !== 'unchanged' || this.offsetShift(pointDiff) !== 0) ||
+      groupDiff.groups.some(sub => this.hasChanges(sub));
+  }
+
+  static toMarkdown(diff: ModelDiff): string {
+    const points = this.flattenPoints(diff.root);
+    const lines: string[] = [
+      `# Model ${diff.modelId}: ${diff.oldRef} → ${diff.newRef}`,
+      '',
+      `- Added: ${diff.summary.added}`,
+      `- Removed: ${diff.summary.removed}`,
+      `- Moved: ${diff.summary.moved}`,
+      `- Changed: ${diff.summary.changed}`,
+      `- Offset shifts: ${diff.summary.shifted}`
+    ];
+
+    const section = (title: string, entries: string[]) => {
+      if (entries.length === 0) return;
+      lines.push('', `## ${title}`, '', ...entries);
+    };
+
+    section('Added', points.filter(p => p.status === 'added').map(p => `- \`${p.path}\``));
+    section('Removed', points.filter(p => p.status === 'removed').map(p => `- \`${p.path}\``));
+    section('Moved', points.filter(p => p.status === 'moved').map(p =>
+      p.oldPath && p.oldPath !== p.path ? `- \`${p.oldPath}\` → \`${p.path}\`` : `- \`${p.path}\` (reordered)`
+    ));
+    section('Changed', points.filter(p => p.changes.length > 0).map(p =>
+      `- \`${p.path}\`: ${p.changes.map(change => `${change.attribute} \`${change.before ?? '—'}\` → \`${change.after ?? '—'}\``).join('; ')}`
+    ));
+
+    const groupChanges: string[] = [];
+    const collectGroups = (groupDiff: GroupDiff) => {
+      if (groupDiff.status === 'added' || groupDiff.status === 'removed') {
+        groupChanges.push(`- \`${groupDiff.path}\` ${groupDiff.status}`);
+      } else if (groupDiff.changes.length > 0) {
+        groupChanges.push(`- \`${groupDiff.path}\`: ${groupDiff.changes.map(change => `${change.attribute} \`${change.before ?? '—'}\` → \`${change.after ?? '—'}\``).join('; ')}`);
+      }
+      groupDiff.groups.forEach(collectGroups);
+    };
+    collectGroups(diff.root);
+    section('Groups', groupChanges);
+
+    const shifted = points.filter(p => this.offsetShift(p) !== 0);
+    section('Register offset shifts', [
+      ...(shifted.length > 0 ? ['| Point | Old offset | New offset | Shift |', '| --- | ---: | ---: | ---: |'] : []),
+      ...shifted.map(p => {
+        const shift = this.offsetShift(p);
+        return `| \`${p.path}\` | ${p.oldOffset} | ${p.newOffset} | ${shift > 0 ? '+' : ''}${shift} |`;
+      })
+    ]);
+
+    return lines.join('\n') + '\n';
+  }
+
+  private static templateOffsets(model: SunSpecModel): Map<string, number> {
+    // Offsets are compared for the first instance of each repeating group
+    const layout = LayoutService.computeLayout(model, 0, { counts: this.singleInstanceCounts(model) });
+    return new Map(layout.points.map(pointLayout => [pointLayout.templatePath, pointLayout.offset]));
+  }
+
+  private static singleInstanceCounts(model: SunSpecModel): Record<string, number> {
+    return Object.fromEntries(LayoutService.repeatingGroups(model).map(repeating => [repeating.path, 1]));
+  }
+
+  private static diffGroup(
+    oldGroup: Group | undefined,
+    newGroup: Group | undefined,
+    path: string,
+    oldPath: string,
+    oldOffsets: Map<string, number>,
+    newOffsets: Map<string, number>
+  ): GroupDiff {
+    const group = (newGroup ?? oldGroup)!;
+    const status: DiffStatus = !oldGroup ? 'added' : !newGroup ? 'removed' : 'unchanged';
+    const changes = oldGroup && newGroup ? this.compareAttributes(oldGroup, newGroup, COMPARED_GROUP_ATTRIBUTES) : [];
+
+    const oldPoints = oldGroup?.points || [];
+    const newPoints = newGroup?.points || [];
+    const points = this.mergeByName(oldPoints, newPoints).map(([oldPoint, newPoint]): PointDiff => {
+      const name = (newPoint ?? oldPoint)!.name;
+      const pointPath = `${newGroup ? path : oldPath}.${name}`;
+      const pointChanges = oldPoint && newPoint ? this.comparePoints(oldPoint, newPoint) : [];
+      return {
+        name,
+        path: pointPath,
+        oldPath: oldPoint ? `${oldPath}.${name}` : undefined,
+        status: !oldPoint ? 'added' : !newPoint ? 'removed' : pointChanges.length > 0 ? 'changed' : 'unchanged',
+        changes: pointChanges,
+        point: (newPoint ?? oldPoint)!,
+        oldOffset: oldPoint ? oldOffsets.get(`${oldPath}.${name}`) : undefined,
+        newOffset: newPoint ? newOffsets.get(`${path}.${name}`) : undefined
+      };
+    });
+
+    this.markReordered(points, oldPoints, newPoints);
+
+    const groups = this.mergeByName(oldGroup?.groups || [], newGroup?.groups || []).map(([oldSub, newSub]) => {
+      const name = (newSub ?? oldSub)!.name;
+      return this.diffGroup(oldSub, newSub, `${path}.${name}`, `${oldPath}.${name}`, oldOffsets, newOffsets);
+    });
+
+    return { name: group.name, path, status, changes, group, points, groups };
+  }
+
+  // Pairs items by name, keeping the new order and slotting removed items in at their old position
+  private static mergeByName<T extends { name: string }>(oldItems: T[], newItems: T[]): [T | undefined, T | undefined][] {
+    const oldByName = new Map(oldItems.map(item => [item.name, item]));
+    const newNames = new Set(newItems.map(item => item.name));
+    const merged: [T | undefined, T | undefined][] = newItems.map(item => [oldByName.get(item.name), item]);
+
+    oldItems.forEach((item, index) => {
+      if (newNames.has(item.name)) return;
+      const previous = oldItems[index - 1];
+      const insertAt = previous ? merged.findIndex(([oldItem]) => oldItem === previous) + 1 : 0;
+      merged.splice(insertAt, 0, [item, undefined]);
+    });
+
+    return merged;
+  }
+
+  // Points kept in the same group but out of their previous relative order count as moved
+  private static markReordered(points: PointDiff[], oldPoints: Point[], newPoints: Point[]) {
+    const newNames = new Set(newPoints.map(point => point.name));
+    const oldOrder = oldPoints.map(point => point.name).filter(name => newNames.has(name));
+    const oldNames = new Set(oldOrder);
+    const newOrder = newPoints.map(point => point.name).filter(name => oldNames.has(name));
+    const stable = this.longestCommonSubsequence(oldOrder, newOrder);
+
+    points.forEach(pointDiff => {
+      if (pointDiff.status !== 'added' && pointDiff.status !== 'removed' && !stable.has(pointDiff.name)) {
+        pointDiff.status = 'moved';
+      }
+    });
+  }
+
+  private static longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+    const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+      }
+    }
+
+    const result = new Set<string>();
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        result.add(a[i]);
+        i++;
+        j++;
+      } else if (table[i + 1][j] >= table[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return result;
+  }
+
+  // A point removed from one group and added to another with the same name has moved
+  private static detectMoves(root: GroupDiff) {
+    const removedByName = new Map<string, { owner: GroupDiff; pointDiff: PointDiff }>();
+    const collectRemoved = (groupDiff: GroupDiff) => {
+      groupDiff.points
+        .filter(pointDiff => pointDiff.status === 'removed')
+        .forEach(pointDiff => removedByName.set(pointDiff.name, { owner: groupDiff, pointDiff }));
+      groupDiff.groups.forEach(collectRemoved);
+    };
+    collectRemoved(root);
+
+    this.flattenPoints(root).forEach(pointDiff => {
+      const removed = pointDiff.status === 'added' ? removedByName.get(pointDiff.name) : undefined;
+      if (!removed) return;
+
+      pointDiff.status = 'moved';
+      pointDiff.oldPath = removed.pointDiff.oldPath;
+      pointDiff.oldOffset = removed.pointDiff.oldOffset;
+      pointDiff.changes = this.comparePoints(removed.pointDiff.point, pointDiff.point);
+      removed.owner.points = removed.owner.points.filter(candidate => candidate !== removed.pointDiff);
+      removedByName.delete(pointDiff.name);
+    });
+  }
+
+  private static comparePoints(oldPoint: Point, newPoint: Point): AttributeChange[] {
+    const changes = this.compareAttributes(oldPoint, newPoint, COMPARED_POINT_ATTRIBUTES);
+    const symbolChange = this.compareSymbols(oldPoint.symbols || [], newPoint.symbols || []);
+    if (symbolChange) changes.push(symbolChange);
+    return changes;
+  }
+
+  private static compareAttributes<T extends object>(before: T, after: T, attributes: (keyof T)[]): AttributeChange[] {
+    return attributes
+      .filter(attribute => String(before[attribute] ?? '') !== String(after[attribute] ?? ''))
+      .map(attribute => ({
+        attribute: String(attribute),
+        before: before[attribute] === undefined ? undefined : String(before[attribute]),
+        after: after[attribute] === undefined ? undefined : String(after[attribute])
+      }));
+  }
+
+  private static compareSymbols(oldSymbols: Symbol[], newSymbols: Symbol[]): AttributeChange | null {
+    const format = (symbols: Symbol[]) => symbols.map(symbol => `${symbol.name}=${symbol.value}`);
+    const before = format(oldSymbols);
+    const after = format(newSymbols);
+    const removed = before.filter(entry => !after.includes(entry));
+    const added = after.filter(entry => !before.includes(entry));
+
+    if (removed.length === 0 && added.length === 0) return null;
+    return {
+      attribute: 'symbols',
+      before: removed.length > 0 ? removed.join(', ') : undefined,
+      after: added.length > 0 ? added.join(', ') : undefined
+    };
+  }
+}
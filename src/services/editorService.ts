@@ -0,0 +1,218 @@
+import { SunSpecModel, Group, Point, EditTarget, EditResult } from '../types';
+import { POINT_TYPE_SIZES } from './layoutService';
+import { ReferenceService } from './referenceService';
+
+export const EDITABLE_POINT_TYPES = [...Object.keys(POINT_TYPE_SIZES), 'string'];
+
+// Strings have no natural size; this fits a short serial number or name
+const STRING_DEFAULT_SIZE = 8;
+
+type ModelFields = Omit<SunSpecModel, 'group'>;
+type GroupFields = Omit<Group, 'name' | 'points' | 'groups'>;
+type PointFields = Omit<Point, 'name'>;
+
+const splitPath = (path: string) => {
+  const segments = path.split('.');
+  return { parent: segments.slice(0, -1).join('.'), name: segments[segments.length - 1] };
+};
+
+// Fields set to undefined are removed, so they do not show up in the exported JSON
+const applyPatch = <T extends object>(value: T, patch: Partial<T>): T => {
+  const next = { ...value, ...patch };
+  (Object.keys(patch) as (keyof T)[]).forEach(key => {
+    if (patch[key] === undefined) delete next[key];
+  });
+  return next;
+};
+
+const childNames = (group: Group) => new Set([
+  ...(group.points || []).map(point => point.name),
+  ...(group.groups || []).map(subGroup => subGroup.name)
+]);
+
+/**
+ * Immutable edits to a model for the editor. Nodes are addressed by template path;
+ * every edit returns a new model that shares the untouched branches with the old one.
+ */
+export class EditorService {
+  static defaultSize(type: string): number {
+    return POINT_TYPE_SIZES[type] ?? STRING_DEFAULT_SIZE;
+  }
+
+  static updateModel(model: SunSpecModel, patch: Partial<ModelFields>): SunSpecModel {
+    return applyPatch<SunSpecModel>(model, patch);
+  }
+
+  static updateGroup(model: SunSpecModel, path: string, patch: Partial<GroupFields>): SunSpecModel {
+    return this.updateGroupAt(model, path, group => applyPatch<Group>(group, patch));
+  }
+
+  // Changing the type resets the size to the new type's default unless a size is given
+  static updatePoint(model: SunSpecModel, path: string, patch: Partial<PointFields>): SunSpecModel {
+    const { parent, name } = splitPath(path);
+    return this.updateGroupAt(model, parent, group => ({
+      ...group,
+      points: (group.points || []).map(point => {
+        if (point.name !== name) return point;
+        const sized = patch.type && patch.type !== point.type && !('size' in patch)
+          ? { ...patch, size: this.defaultSize(patch.type) }
+          : patch;
+        return applyPatch<Point>(point, sized);
+      })
+    }));
+  }
+
+  /**
+   * Renames a point or group. Scale factors and counts that resolved to a renamed
+   * point follow it, so the model keeps its meaning.
+   */
+  static rename(model: SunSpecModel, target: EditTarget, newName: string): EditResult {
+    const { parent, name } = splitPath(target.path);
+    if (newName === name) return { model };
+    if (!newName) throw new Error('A name is required');
+
+    if (!parent) {
+      return { model: { ...model, group: { ...model.group, name: newName } }, path: newName };
+    }
+    if (childNames(this.findGroup(model, parent)).has(newName)) {
+      throw new Error(`"${newName}" is already used in ${parent}`);
+    }
+
+    const users = target.kind === 'point' ? ReferenceService.collect(model).usedBy.get(target.path) ?? [] : [];
+    let next = this.updateGroupAt(model, parent, group => target.kind === 'point'
+      ? { ...group, points: (group.points || []).map(point => point.name === name ? { ...point, name: newName } : point) }
+      : { ...group, groups: (group.groups || []).map(subGroup => subGroup.name === name ? { ...subGroup, name: newName } : subGroup) });
+
+    // Points have no children, so the referencing nodes keep their paths
+    users.forEach(reference => {
+      next = reference.kind === 'sf'
+        ? this.updatePoint(next, reference.source, { sf: newName })
+        : this.updateGroup(next, reference.source, { count: newName });
+    });
+
+    return { model: next, path: `${parent}.${newName}` };
+  }
+
+  static addPoint(model: SunSpecModel, groupPath: string): EditResult {
+    const group = this.findGroup(model, groupPath);
+    const name = this.uniqueName(group, 'NewPoint');
+    const point: Point = { name, type: 'uint16', size: 1 };
+    return {
+      model: this.updateGroupAt(model, groupPath, current => ({ ...current, points: [...(current.points || []), point] })),
+      path: `${groupPath}.${name}`
+    };
+  }
+
+  static addGroup(model: SunSpecModel, groupPath: string): EditResult {
+    const group = this.findGroup(model, groupPath);
+    const name = this.uniqueName(group, 'NewGroup');
+    const subGroup: Group = { name, type: 'group', points: [] };
+    return {
+      model: this.updateGroupAt(model, groupPath, current => ({ ...current, groups: [...(current.groups || []), subGroup] })),
+      path: `${groupPath}.${name}`
+    };
+  }
+
+  // Inserts a deep copy right after the original, under a free name
+  static duplicate(model: SunSpecModel, target: EditTarget): EditResult {
+    const { parent, name } = splitPath(target.path);
+    if (!parent) throw new Error('The root group cannot be duplicated');
+
+    const copyName = this.uniqueName(this.findGroup(model, parent), `${name}_copy`);
+    return {
+      model: this.updateSiblings(model, target, siblings => {
+        const index = siblings.findIndex(sibling => sibling.name === name);
+        const copy = { ...structuredClone(siblings[index]), name: copyName };
+        return [...siblings.slice(0, index + 1), copy, ...siblings.slice(index + 1)];
+      }),
+      path: `${parent}.${copyName}`
+    };
+  }
+
+  static remove(model: SunSpecModel, target: EditTarget): SunSpecModel {
+    const { name } = splitPath(target.path);
+    return this.updateSiblings(model, target, siblings => siblings.filter(sibling => sibling.name !== name));
+  }
+
+  // Moves a point among the group's points, or a group among its sibling groups
+  static move(model: SunSpecModel, target: EditTarget, offset: number): SunSpecModel {
+    const { name } = splitPath(target.path);
+    return this.updateSiblings(model, target, siblings => {
+      const index = siblings.findIndex(sibling => sibling.name === name);
+      const destination = index + offset;
+      if (index < 0 || destination < 0 || destination >= siblings.length) return siblings;
+
+      const reordered = [...siblings];
+      reordered.splice(destination, 0, ...reordered.splice(index, 1));
+      return reordered;
+    });
+  }
+
+  /**
+   * Formats a model the way files in the models repository are written: keys sorted,
+   * four-space indents and non-ASCII characters escaped.
+   */
+  static toJson(model: SunSpecModel): string {
+    const sortKeys = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(sortKeys);
+      if (typeof value !== 'object' || value === null) return value;
+      return Object.fromEntries(
+        Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+      );
+    };
+
+    return JSON.stringify(sortKeys(model), null, 4)
+      .replace(/[\u007f-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+  }
+
+  static findGroup(model: SunSpecModel, path: string): Group {
+    const [rootName, ...names] = path.split('.');
+    let group = model.group;
+    if (rootName !== group.name) throw new Error(`No group at ${path}`);
+
+    for (const name of names) {
+      const next = (group.groups || []).find(subGroup => subGroup.name === name);
+      if (!next) throw new Error(`No group at ${path}`);
+      group = next;
+    }
+    return group;
+  }
+
+  private static updateSiblings(
+    model: SunSpecModel,
+    target: EditTarget,
+    update: <T extends Point | Group>(siblings: T[]) => T[]
+  ): SunSpecModel {
+    const { parent } = splitPath(target.path);
+    if (!parent) throw new Error('The root group cannot be moved or removed');
+
+    return this.updateGroupAt(model, parent, group => target.kind === 'point'
+      ? { ...group, points: update(group.points || []) }
+      : { ...group, groups: update(group.groups || []) });
+  }
+
+  // Rebuilds the groups along a path, so unchanged branches keep their identity
+  private static updateGroupAt(model: SunSpecModel, path: string, update: (group: Group) => Group): SunSpecModel {
+    const [rootName, ...names] = path.split('.');
+    if (rootName !== model.group.name) throw new Error(`No group at ${path}`);
+
+    const visit = (group: Group, remaining: string[]): Group => {
+      if (remaining.length === 0) return update(group);
+      const index = (group.groups || []).findIndex(subGroup => subGroup.name === remaining[0]);
+      if (index < 0) throw new Error(`No group at ${path}`);
+
+      const groups = [...(group.groups || [])];
+      groups[index] = visit(groups[index], remaining.slice(1));
+      return { ...group, groups };
+    };
+    return { ...model, group: visit(model.group, names) };
+  }
+
+  private static uniqueName(group: Group, base: string): string {
+    const used = childNames(group);
+    if (!used.has(base)) return base;
+    let suffix = 2;
+    while (used.has(`${base}${suffix}`)) suffix++;
+    return `${base}${suffix}`;
+  }
+}
@@ -0,0 +1,326 @@
+import { SunSpecModel, Group, GroupLayout, ExportOptions, RegisterExportRow, SymbolExportRow } from '../types';
+import { LayoutService, SUNSPEC_BASE_ADDRESSES, SUNS_MARKER_SIZE } from './layoutService';
+import { ProfileService } from './profileService';
+import { FileService } from './fileService';
+import { ZipService } from './zipService';
+import { SmdxService } from './smdxService';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'markdown' | 'html' | 'smdx';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { id: 'xlsx', label: 'Excel', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  // The model definition itself rather than its register map
+  { id: 'smdx', label: 'SMDX', extension: 'xml', mimeType: 'application/xml' }
+];
+
+type Cell = string | number | undefined;
+
+const REGISTER_COLUMNS: { label: string; width: number; value: (row: RegisterExportRow) => Cell }[] = [
+  { label: 'Address', width: 10, value: row => row.address },
+  { label: 'Group', width: 24, value: row => row.group },
+  { label: 'Name', width: 18, value: row => row.name },
+  { label: 'Label', width: 28, value: row => row.label },
+  { label: 'Type', width: 12, value: row => row.type },
+  { label: 'Size', width: 6, value: row => row.size },
+  { label: 'Units', width: 10, value: row => row.units },
+  { label: 'SF', width: 12, value: row => row.sf },
+  { label: 'Access', width: 8, value: row => row.access },
+  { label: 'Mandatory', width: 10, value: row => row.mandatory },
+  { label: 'Description', width: 60, value: row => row.desc }
+];
+
+const SYMBOL_COLUMNS: { label: string; width: number; value: (row: SymbolExportRow) => Cell }[] = [
+  { label: 'Point', width: 30, value: row => row.point },
+  { label: 'Symbol', width: 24, value: row => row.name },
+  { label: 'Value', width: 8, value: row => row.value },
+  { label: 'Label', width: 28, value: row => row.label },
+  { label: 'Description', width: 60, value: row => row.desc }
+];
+
+const table = <T>(columns: { label: string; value: (row: T) => Cell }[], rows: T[]): Cell[][] =>
+  [columns.map(column => column.label), ...rows.map(row => columns.map(column => column.value(row)))];
+
+// Characters XML 1.0 does not allow, even escaped
+const stripInvalidXml = (text: string) =>
+  Array.from(text).filter(char => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+  }).join('');
+
+const escapeXml = (text: string) =>
+  stripInvalidXml(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeMarkdown = (value: Cell) =>
+  value === undefined ? '' : String(value).replace(/\|/g, '\\|').replace(/\s*\r?\n\s*/g, ' ');
+
+// "A" for column 0, "AA" for column 26
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+/**
+ * Register map exports for integrators: one row per point instance, with repeating
+ * groups expanded to the chosen counts. The workbook is written by hand as a stored
+ * zip, so no spreadsheet library is needed.
+ */
+export class ExportService {
+  static defaultOptions(model: SunSpecModel): ExportOptions {
+    return {
+      startAddress: SUNSPEC_BASE_ADDRESSES[0] + SUNS_MARKER_SIZE,
+      counts: Object.fromEntries(
+        LayoutService.repeatingGroups(model).map(repeating => [repeating.path, ProfileService.instanceCount(repeating)])
+      )
+    };
+  }
+
+  static registerRows(model: SunSpecModel, options: ExportOptions): RegisterExportRow[] {
+    const layout = LayoutService.computeLayout(model, options.startAddress, { counts: options.counts });
+    const rootName = model.group.name;
+    const rows: RegisterExportRow[] = [];
+
+    // Older models leave the ID and L header out of their points
+    if (!layout.hasHeaderPoints) {
+      const header = { group: rootName, templateGroup: rootName, type: 'uint16', size: 1, access: 'R', mandatory: 'M' };
+      rows.push(
+        { ...header, address: layout.startAddress, name: 'ID', label: 'Model ID', desc: `Model identifier, ${model.id}` },
+        { ...header, address: layout.startAddress + 1, name: 'L', label: 'Model Length', desc: 'Model length' }
+      );
+    }
+
+    const walk = (groupLayout: GroupLayout) => {
+      groupLayout.points.forEach(pointLayout => {
+        const point = pointLayout.point;
+        rows.push({
+          address: pointLayout.address,
+          group: groupLayout.path,
+          templateGroup: groupLayout.templatePath,
+          name: point.name,
+          label: point.label,
+          type: point.type,
+          size: pointLayout.size,
+          units: point.units,
+          sf: point.sf === undefined ? undefined : String(point.sf),
+          access: point.access ?? 'R',
+          mandatory: point.mandatory ?? 'O',
+          desc: point.desc
+        });
+      });
+      groupLayout.groups.forEach(walk);
+    };
+    walk(layout.root);
+    return rows;
+  }
+
+  // Symbols belong to the point definition, so they are listed once per template path
+  static symbolRows(model: SunSpecModel): SymbolExportRow[] {
+    const rows: SymbolExportRow[] = [];
+    const walk = (group: Group, path: string) => {
+      (group.points || []).forEach(point => {
+        (point.symbols || []).forEach(symbol => {
+          rows.push({ point: `${path}.${point.name}`, name: symbol.name, value: symbol.value, label: symbol.label, desc: symbol.desc });
+        });
+      });
+      (group.groups || []).forEach(subGroup => walk(subGroup, `${path}.${subGroup.name}`));
+    };
+    walk(model.group, model.group.name);
+    return rows;
+  }
+
+  static generate(model: SunSpecModel, format: ExportFormat, options: ExportOptions): string | Uint8Array {
+    if (format === 'smdx') {
+      return SmdxService.toSmdx(model).xml;
+    }
+    const rows = this.registerRows(model, options);
+    switch (format) {
+      case 'csv':
+        return FileService.toCsv(table(REGISTER_COLUMNS, rows));
+      case 'xlsx':
+        return this.toXlsx(rows, this.symbolRows(model));
+      case 'markdown':
+        return this.toMarkdown(model, rows, this.symbolRows(model));
+      case 'html':
+        return this.toHtml(model, rows, this.symbolRows(model));
+    }
+  }
+
+  static filename(model: SunSpecModel, format: ExportFormat): string {
+    if (format === 'smdx') {
+      return SmdxService.filename(model);
+    }
+    const extension = EXPORT_FORMATS.find(candidate => candidate.id === format)?.extension ?? 'txt';
+    return `model_${model.id}_registers.${extension}`;
+  }
+
+  static mimeType(format: ExportFormat): string {
+    return EXPORT_FORMATS.find(candidate => candidate.id === format)?.mimeType ?? 'text/plain';
+  }
+
+  // Sheet names are at most 31 characters, unique ignoring case, and without []:*?/\
+  private static sheetNames(names: string[]): string[] {
+    const used = new Set<string>();
+    return names.map(name => {
+      const base = name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Sheet';
+      let candidate = base;
+      for (let suffix = 2; used.has(candidate.toLowerCase()); suffix++) {
+        candidate = `${base.slice(0, 31 - String(suffix).length - 1)}_${suffix}`;
+      }
+      used.add(candidate.toLowerCase());
+      return candidate;
+    });
+  }
+
+  private static toMarkdown(model: SunSpecModel, rows: RegisterExportRow[], symbols: SymbolExportRow[]): string {
+    const markdownTable = (cells: Cell[][]) => {
+      const [header, ...body] = cells;
+      return [
+        `| ${header.map(escapeMarkdown).join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...body.map(row => `| ${row.map(escapeMarkdown).join(' | ')} |`)
+      ].join('\n');
+    };
+
+    const sections = [`# Model ${model.id}${model.label ? `: ${escapeMarkdown(model.label)}` : ''}`, markdownTable(table(REGISTER_COLUMNS, rows))];
+    if (symbols.length > 0) sections.push('## Symbols', markdownTable(table(SYMBOL_COLUMNS, symbols)));
+    return sections.join('\n\n') + '\n';
+  }
+
+  private static toHtml(model: SunSpecModel, rows: RegisterExportRow[], symbols: SymbolExportRow[]): string {
+    const htmlTable = (cells: Cell[][]) => {
+      const [header, ...body] = cells;
+      const cell = (tag: string, value: Cell) => `<${tag}>${value === undefined ? '' : escapeXml(String(value))}</${tag}>`;
+      return [
+        '<table>',
+        `<thead><tr>${header.map(value => cell('th', value)).join('')}</tr></thead>`,
+        '<tbody>',
+        ...body.map(row => `<tr>${row.map(value => cell('td', value)).join('')}</tr>`),
+        '</tbody>',
+        '</table>'
+      ].join('\n');
+    };
+
+    const title = escapeXml(`Model ${model.id}${model.label ? `: ${model.label}` : ''}`);
+    return [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${title}</title>`,
+      '<style>',
+      'body { font-family: system-ui, sans-serif; font-size: 14px; }',
+      'table { border-collapse: collapse; margin-bottom: 2em; }',
+      'th, td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; vertical-align: top; }',
+      'th { background: #f1f5f9; }',
+      '</style>',
+      '</head>',
+      '<body>',
+      `<h1>${title}</h1>`,
+      htmlTable(table(REGISTER_COLUMNS, rows)),
+      ...(symbols.length > 0 ? ['<h2>Symbols</h2>', htmlTable(table(SYMBOL_COLUMNS, symbols))] : []),
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * A minimal SpreadsheetML workbook: one sheet per group, holding every instance of it,
+   * and a Symbols sheet. Strings are written inline, so there is no shared string table.
+   */
+  private static toXlsx(rows: RegisterExportRow[], symbols: SymbolExportRow[]): Uint8Array {
+    const byGroup = new Map<string, RegisterExportRow[]>();
+    rows.forEach(row => {
+      if (!byGroup.has(row.templateGroup)) byGroup.set(row.templateGroup, []);
+      byGroup.get(row.templateGroup)?.push(row);
+    });
+
+    const sheets = Array.from(byGroup.values()).map(groupRows => ({
+      widths: REGISTER_COLUMNS.map(column => column.width),
+      cells: table(REGISTER_COLUMNS, groupRows)
+    }));
+    if (symbols.length > 0) {
+      sheets.push({ widths: SYMBOL_COLUMNS.map(column => column.width), cells: table(SYMBOL_COLUMNS, symbols) });
+    }
+    // Groups are named by their last path segment, e.g. "Pt" for "DERVoltVar.Crv.Pt"
+    const names = this.sheetNames([
+      ...Array.from(byGroup.keys()).map(path => path.split('.').pop() ?? path),
+      ...(symbols.length > 0 ? ['Symbols'] : [])
+    ]);
+
+    const xml = (lines: string[]) => ['<?xml version="1.0" encoding="UTF-8" standalone="yes"?>', ...lines].join('\n');
+    const relationships = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+    const files: [string, string][] = [
+      ['[Content_Types].xml', xml([
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="xml" ContentType="application/xml"/>',
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+        ...sheets.map((_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`),
+        '</Types>'
+      ])],
+      ['_rels/.rels', xml([
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        `<Relationship Id="rId1" Type="${relationships}/officeDocument" Target="xl/workbook.xml"/>`,
+        '</Relationships>'
+      ])],
+      ['xl/workbook.xml', xml([
+        `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${relationships}">`,
+        '<sheets>',
+        ...names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`),
+        '</sheets>',
+        '</workbook>'
+      ])],
+      ['xl/_rels/workbook.xml.rels', xml([
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        ...sheets.map((_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="${relationships}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`),
+        `<Relationship Id="rId${sheets.length + 1}" Type="${relationships}/styles" Target="styles.xml"/>`,
+        '</Relationships>'
+      ])],
+      // Style 1 is the bold header row
+      ['xl/styles.xml', xml([
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+          + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>',
+        '</styleSheet>'
+      ])],
+      ...sheets.map((sheet, index): [string, string] => [`xl/worksheets/sheet${index + 1}.xml`, this.worksheet(sheet.cells, sheet.widths)])
+    ];
+
+    const encoder = new TextEncoder();
+    return ZipService.writeZip(files.map(([name, content]) => ({ name, data: encoder.encode(content) })));
+  }
+
+  private static worksheet(cells: Cell[][], widths: number[]): string {
+    const rows = cells.map((row, rowIndex) => {
+      const style = rowIndex === 0 ? ' s="1"' : '';
+      const values = row.map((value, columnIndex) => {
+        const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+        if (value === undefined || value === '') return '';
+        return typeof value === 'number'
+          ? `<c r="${reference}"${style}><v>${value}</v></c>`
+          : `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+      });
+      return `<row r="${rowIndex + 1}">${values.join('')}</row>`;
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+      // The header row stays in view while scrolling
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+      `<cols>${widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`,
+      '<sheetData>',
+      ...rows,
+      '</sheetData>',
+      '</worksheet>'
+    ].join('\n');
+  }
+}
@@ -0,0 +1,29 @@
+export class FileService {
+  static download(filename: string, content: BlobPart, mimeType: string = 'text/plain') {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  // RFC 4180 style: fields with commas, quotes or newlines are quoted
+  static toCsv(rows: (string | number | undefined)[][]): string {
+    const escape = (value: string | number | undefined) => {
+      const text = value === undefined ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+  }
+
+  static async copyToClipboard(text: string): Promise<void> {
+    await navigator.clipboard.writeText(text);
+  }
+}
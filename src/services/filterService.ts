@@ -0,0 +1,318 @@
+import { SunSpecModel, Group, Point, TreeNode, FilterField, FilterExpression, FilterQuery, FilterSuggestion, FilterCompletion } from '../types';
+
+export const FILTER_FIELDS: Record<FilterField, string> = {
+  type: 'Point or group type',
+  access: 'R or RW',
+  mandatory: 'M or O',
+  static: 'D or S',
+  units: 'Units, * for any',
+  sf: 'Scale factor, * for any',
+  has: 'Attribute is present',
+  name: 'Name contains',
+  label: 'Label contains',
+  desc: 'Description contains'
+};
+
+const HAS_VALUES = ['symbols', 'sf', 'units', 'label', 'desc', 'detail', 'notes', 'comments', 'standards', 'count'];
+const KEYWORDS = ['AND', 'OR', 'NOT'];
+const MAX_SUGGESTIONS = 12;
+
+// Name, label and description match anywhere in the text, the other fields match the whole value
+const CONTAINS_FIELDS: FilterField[] = ['name', 'label', 'desc'];
+
+interface Token {
+  kind: 'open' | 'close' | 'word';
+  text: string;
+  field?: string;
+  quoted: boolean;
+  negated: boolean;
+}
+
+const isField = (field: string): field is FilterField => field in FILTER_FIELDS;
+
+// "*" matches any run of characters; matching ignores case
+const globMatches = (pattern: string, text: string) => {
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i').test(text);
+};
+
+const contains = (text: string | undefined, term: string) =>
+  text !== undefined && (term.includes('*') ? globMatches(`*${term}*`, text) : text.toLowerCase().includes(term.toLowerCase()));
+
+const quote = (value: string) => /[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+/**
+ * The tree search language: free text plus field filters such as type:enum16 or sf:*,
+ * combined with AND (or plain juxtaposition), OR, NOT or a leading "-", and parentheses.
+ * Parsing is forgiving, since queries are evaluated while they are typed.
+ */
+export class FilterService {
+  static parse(query: string): FilterQuery {
+    const tokens = this.tokenize(query);
+    const errors: string[] = [];
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const isKeyword = (token: Token | undefined, keyword: string) =>
+      token?.kind === 'word' && !token.quoted && !token.field && !token.negated && token.text === keyword;
+
+    const combine = (kind: 'and' | 'or', operands: FilterExpression[]): FilterExpression | null =>
+      operands.length === 0 ? null : operands.length === 1 ? operands[0] : { kind, operands };
+
+    const parseOr = (): FilterExpression | null => {
+      const operands: FilterExpression[] = [];
+      const first = parseAnd();
+      if (first) operands.push(first);
+      while (isKeyword(peek(), 'OR')) {
+        position++;
+        const next = parseAnd();
+        if (next) operands.push(next);
+      }
+      return combine('or', operands);
+    };
+
+    const parseAnd = (): FilterExpression | null => {
+      const operands: FilterExpression[] = [];
+      while (peek() && peek().kind !== 'close' && !isKeyword(peek(), 'OR')) {
+        if (isKeyword(peek(), 'AND')) {
+          position++;
+          continue;
+        }
+        const operand = parseUnary();
+        if (operand) operands.push(operand);
+      }
+      return combine('and', operands);
+    };
+
+    const parseUnary = (): FilterExpression | null => {
+      const token = tokens[position++];
+      if (isKeyword(token, 'NOT')) {
+        const operand = peek() && peek().kind !== 'close' ? parseUnary() : null;
+        return operand ? { kind: 'not', operand } : null;
+      }
+      if (token.kind === 'open') {
+        const inner = parseOr();
+        if (peek()?.kind === 'close') {
+          position++;
+        } else {
+          errors.push('Missing closing parenthesis');
+        }
+        return inner;
+      }
+      const term = this.term(token, errors);
+      return term && token.negated ? { kind: 'not', operand: term } : term;
+    };
+
+    let expression = parseOr();
+    // A stray ")" ends the top level early; the rest still counts
+    while (position < tokens.length) {
+      position++;
+      errors.push('Unmatched closing parenthesis');
+      const rest = parseOr();
+      if (rest) expression = expression ? { kind: 'and', operands: [expression, rest] } : rest;
+    }
+
+    return { expression, errors };
+  }
+
+  static matches(expression: FilterExpression, node: TreeNode): boolean {
+    switch (expression.kind) {
+      case 'text': {
+        const point = node.type === 'point' ? node.data as Point : undefined;
+        return contains(node.name, expression.text) || contains(node.label, expression.text) || contains(point?.desc, expression.text);
+      }
+      case 'field':
+        return this.matchesField(expression.field, expression.value, node);
+      case 'not':
+        return !this.matches(expression.operand, node);
+      case 'and':
+        return expression.operands.every(operand => this.matches(operand, node));
+      case 'or':
+        return expression.operands.some(operand => this.matches(operand, node));
+    }
+  }
+
+  // Text worth marking in the tree: free text and name, label or description filters that are not negated
+  static highlightTerms(expression: FilterExpression | null): string[] {
+    if (!expression || expression.kind === 'not') return [];
+    if (expression.kind === 'text') return [expression.text];
+    if (expression.kind === 'field') {
+      return CONTAINS_FIELDS.includes(expression.field) && !expression.value.includes('*') ? [expression.value] : [];
+    }
+    return expression.operands.flatMap(operand => this.highlightTerms(operand));
+  }
+
+  // Known values per field, taken from the model so suggestions always find something
+  static vocabulary(model: SunSpecModel): Record<FilterField, string[]> {
+    const values = Object.fromEntries(Object.keys(FILTER_FIELDS).map(field => [field, new Set<string>()])) as Record<FilterField, Set<string>>;
+    ['R', 'RW'].forEach(value => values.access.add(value));
+    ['M', 'O'].forEach(value => values.mandatory.add(value));
+    ['D', 'S'].forEach(value => values.static.add(value));
+    HAS_VALUES.forEach(value => values.has.add(value));
+
+    const walk = (group: Group) => {
+      values.type.add(group.type);
+      values.name.add(group.name);
+      if (group.label) values.label.add(group.label);
+      (group.points || []).forEach(point => {
+        values.type.add(point.type);
+        values.name.add(point.name);
+        if (point.label) values.label.add(point.label);
+        if (point.units) values.units.add(point.units);
+        if (point.sf !== undefined) values.sf.add(String(point.sf));
+      });
+      (group.groups || []).forEach(walk);
+    };
+    walk(model.group);
+
+    const sorted = (set: Set<string>) => Array.from(set).sort((a, b) => a.localeCompare(b));
+    return Object.fromEntries(
+      Object.entries(values).map(([field, set]) => [field, field === 'units' || field === 'sf' ? ['*', ...sorted(set)] : sorted(set)])
+    ) as Record<FilterField, string[]>;
+  }
+
+  /**
+   * Suggestions for the word at the caret: field names while a field is typed, then the
+   * field's known values. An empty query lists every field.
+   */
+  static complete(query: string, caret: number, vocabulary: Record<FilterField, string[]>): FilterCompletion {
+    const isBoundary = (char: string | undefined) => char === undefined || /[\s()]/.test(char);
+    let from = caret;
+    while (from > 0 && !isBoundary(query[from - 1])) from--;
+    let to = caret;
+    while (to < query.length && !isBoundary(query[to])) to++;
+
+    const word = query.slice(from, to);
+    const prefix = word.startsWith('-') ? '-' : '';
+    const typed = word.slice(prefix.length);
+    const colon = typed.indexOf(':');
+    let suggestions: FilterSuggestion[] = [];
+
+    if (colon >= 0) {
+      const field = typed.slice(0, colon).toLowerCase();
+      const partial = typed.slice(colon + 1).replace(/^"/, '').toLowerCase();
+      if (isField(field)) {
+        suggestions = vocabulary[field]
+          .filter(value => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+          .map(value => ({ label: value, insert: `${prefix}${field}:${quote(value)} ` }));
+      }
+    } else if (typed || query.trim() === '') {
+      const lower = typed.toLowerCase();
+      suggestions = [
+        ...(Object.keys(FILTER_FIELDS) as FilterField[])
+          .filter(field => field.startsWith(lower))
+          .map(field => ({ label: `${field}:`, insert: `${prefix}${field}:`, detail: FILTER_FIELDS[field] })),
+        ...(typed && !prefix ? KEYWORDS.filter(keyword => keyword.startsWith(typed) && keyword !== typed) : [])
+          .map(keyword => ({ label: keyword, insert: `${keyword} `, detail: 'Operator' }))
+      ];
+    }
+
+    return { from, to, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) };
+  }
+
+  private static tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < query.length) {
+      const char = query[index];
+      if (/\s/.test(char)) {
+        index++;
+      } else if (char === '(' || char === ')') {
+        tokens.push({ kind: char === '(' ? 'open' : 'close', text: char, quoted: false, negated: false });
+        index++;
+      } else {
+        const token: Token = { kind: 'word', text: '', quoted: false, negated: false };
+        if (char === '-' && index + 1 < query.length && !/[\s()]/.test(query[index + 1])) {
+          token.negated = true;
+          index++;
+        }
+
+        while (index < query.length && !/[\s()]/.test(query[index])) {
+          if (query[index] === '"') {
+            // Quoted text runs to the closing quote, or the end of an unfinished query
+            const end = query.indexOf('"', index + 1);
+            token.text += query.slice(index + 1, end < 0 ? query.length : end);
+            token.quoted = true;
+            index = end < 0 ? query.length : end + 1;
+          } else if (query[index] === ':' && token.field === undefined && !token.quoted && /^[a-z]+$/i.test(token.text)) {
+            token.field = token.text.toLowerCase();
+            token.text = '';
+            index++;
+          } else {
+            token.text += query[index++];
+          }
+        }
+        tokens.push(token);
+      }
+    }
+    return tokens;
+  }
+
+  private static term(token: Token, errors: string[]): FilterExpression | null {
+    if (token.kind !== 'word') return null;
+    if (token.field === undefined) return token.text ? { kind: 'text', text: token.text } : null;
+
+    if (!isField(token.field)) {
+      errors.push(`Unknown field "${token.field}"`);
+      return { kind: 'text', text: `${token.field}:${token.text}` };
+    }
+    // A field without a value yet is still being typed
+    if (!token.text) return null;
+    if (token.field === 'has' && !HAS_VALUES.includes(token.text.toLowerCase())) {
+      errors.push(`has: takes ${HAS_VALUES.join(', ')}`);
+    }
+    return { kind: 'field', field: token.field, value: token.text };
+  }
+
+  private static matchesField(field: FilterField, value: string, node: TreeNode): boolean {
+    const point = node.type === 'point' ? node.data as Point : undefined;
+    const group = node.type === 'group' ? node.data as Group : undefined;
+    const item = point ?? group;
+
+    switch (field) {
+      case 'type':
+        return item !== undefined && globMatches(value, item.type);
+      // Absent attributes take their SunSpec defaults
+      case 'access':
+        return point !== undefined && globMatches(value, point.access ?? 'R');
+      case 'mandatory':
+        return point !== undefined && globMatches(value, point.mandatory ?? 'O');
+      case 'static':
+        return point !== undefined && globMatches(value, point.static ?? 'D');
+      case 'units':
+        return point?.units !== undefined && globMatches(value, point.units);
+      case 'sf':
+        return point?.sf !== undefined && globMatches(value, String(point.sf));
+      case 'has':
+        return item !== undefined && this.hasAttribute(item, value.toLowerCase());
+      case 'name':
+        return contains(node.name, value);
+      case 'label':
+        return contains(node.label, value);
+      case 'desc':
+        return contains(item?.desc, value);
+    }
+  }
+
+  private static hasAttribute(item: Point | Group, attribute: string): boolean {
+    const present = (value: unknown) => Array.isArray(value) ? value.length > 0 : value !== undefined && value !== '';
+    switch (attribute) {
+      case 'symbols':
+        return 'symbols' in item && present(item.symbols);
+      case 'sf':
+      case 'units':
+      case 'standards':
+        return present((item as Point)[attribute]);
+      case 'count':
+      case 'label':
+      case 'desc':
+      case 'detail':
+      case 'notes':
+      case 'comments':
+        return present(item[attribute]);
+      default:
+        return false;
+    }
+  }
+}
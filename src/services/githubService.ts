@@ -1,41 +1,126 @@
-const GITHUB_REPO = 'sunspec/models';
-const GITHUB_BRANCH = 'master';
+import { ModelInfo, CatalogManifest, CatalogUpdates, CatalogEntry } from '../types';
+import { CacheService } from './cacheService';
+import { CatalogService } from './catalogService';
+
+export const DEFAULT_GITHUB_REPO = 'sunspec/models';
+export const DEFAULT_GITHUB_REF = 'master';
 const MODELS_PATH = 'json';
+const REFS_PER_PAGE = 100;
+
+// A cached listing younger than this is trusted without asking GitHub again
+const LISTING_TTL_MS = 5 * 60 * 1000;
+// Commits never change, so listings for a full commit SHA never go stale
+const COMMIT_SHA = /^[0-9a-f]{40}$/i;
+
+// Branch names such as "release/1.0" keep their slashes in URL paths
+const refPath = (ref: string) => ref.split('/').map(encodeURIComponent).join('/');
 
 export interface GitHubFile {
   name: string;
   path: string;
+  sha: string;
   download_url: string;
 }
 
+export interface GitHubRef {
+  name: string;
+  sha: string;
+  type: 'branch' | 'tag';
+}
+
 export class GitHubService {
-  private static baseUrl = `https://api.github.com/repos/${GITHUB_REPO}/contents/${MODELS_PATH}`;
-  private static rawUrl = `https://raw.githubusercontent.com/${GITHUB_REPO}/${GITHUB_BRANCH}/${MODELS_PATH}`;
+  private static repo = DEFAULT_GITHUB_REPO;
+  private static ref = DEFAULT_GITHUB_REF;
+  private static listingFromCache = false;
+
+  private static get apiUrl() {
+    return `https://api.github.com/repos/${this.repo}`;
+  }
+
+  private static rawUrl(ref: string) {
+    return `https://raw.githubusercontent.com/${this.repo}/${refPath(ref)}/${MODELS_PATH}`;
+  }
+
+  static getRepo(): string {
+    return this.repo;
+  }
+
+  static getRef(): string {
+    return this.ref;
+  }
+
+  // Points every later request at a repository (e.g. a fork) and a branch, tag or commit SHA
+  static setSource(repo: string, ref: string) {
+    this.repo = repo.trim() || DEFAULT_GITHUB_REPO;
+    this.ref = ref.trim() || DEFAULT_GITHUB_REF;
+  }
+
+  // True when the last model list came from the offline cache instead of GitHub
+  static isUsingCachedListing(): boolean {
+    return this.listingFromCache;
+  }
+
+  static getBrowseUrl(ref: string = this.ref): string {
+    return `https://github.com/${this.repo}/tree/${refPath(ref)}/${MODELS_PATH}`;
+  }
+
+  static async getRefs(): Promise<GitHubRef[]> {
+    try {
+      const [branches, tags] = await Promise.all([
+        this.fetchRefs('branches', 'branch'),
+        this.fetchRefs('tags', 'tag')
+      ]);
+      return [...branches, ...tags];
+    } catch (error) {
+      console.error('Error fetching refs:', error);
+      throw new Error(`Failed to load branches and tags for ${this.repo}`);
+    }
+  }
+
+  static async getModelList(ref: string = this.ref): Promise<GitHubFile[]> {
+    const cacheKey = CacheService.listingKey(this.repo, ref);
+    const cached = await CacheService.getListing<GitHubFile>(cacheKey);
 
-  static async getModelList(): Promise<GitHubFile[]> {
     try {
-      const response = await fetch(`${this.baseUrl}?ref=${GITHUB_BRANCH}`);
+      const response = await fetch(
+        `${this.apiUrl}/contents/${MODELS_PATH}?ref=${encodeURIComponent(ref)}`,
+        cached?.etag ? { headers: { 'If-None-Match': cached.etag } } : undefined
+      );
+      if (response.status === 304 && cached) {
+        await CacheService.putListing(cacheKey, cached.files, cached.etag);
+        this.listingFromCache = false;
+        return cached.files;
+      }
       if (!response.ok) {
         throw new Error(`Failed to fetch model list: ${response.statusText}`);
       }
       
       const files: GitHubFile[] = await response.json();
-      return files.filter(file => file.name.endsWith('.json'));
+      const modelFiles = files.filter(file => file.name.endsWith('.json'));
+      await CacheService.putListing(cacheKey, modelFiles, response.headers.get('ETag') ?? undefined);
+      this.listingFromCache = false;
+      return modelFiles;
     } catch (error) {
+      // Offline or rate limited: fall back to the last listing seen for this ref
+      if (cached) {
+        console.warn(`Using cached model list for ${cacheKey}:`, error);
+        this.listingFromCache = true;
+        return cached.files;
+      }
+
       console.error('Error fetching model list:', error);
       throw new Error('Failed to load model list from GitHub');
     }
   }
 
-  static async getAllModelsWithMetadata(): Promise<ModelInfo[]> {
+  static async getAllModelsWithMetadata(ref: string = this.ref): Promise<ModelInfo[]> {
     try {
-      const files = await this.getModelList();
-      const modelInfos: ModelInfo[] = [];
+      const files = await this.getModelList(ref);
 
       // Load all models to get their metadata
       const promises = files.map(async (file) => {
         try {
-          const modelData = await this.getModel(file.name);
+          const modelData = await this.getModel(file.name, ref, file.sha);
           const info = this.extractModelInfo(file.name, modelData);
           
           // Skip invalid models (ID 0 or negative)
@@ -66,14 +151,56 @@ export class GitHubService {
     }
   }
 
-  static async getModel(filename: string): Promise<any> {
+  // One listing request tells us which bundled catalog entries no longer match GitHub
+  static async getCatalogUpdates(manifest: CatalogManifest): Promise<CatalogUpdates> {
+    const files = await this.getModelList(manifest.ref);
+    return CatalogService.findUpdates(manifest, files);
+  }
+
+  static async applyCatalogUpdates(manifest: CatalogManifest, updates: CatalogUpdates): Promise<CatalogManifest> {
+    const files = await this.getModelList(manifest.ref);
+    const refreshed = new Set([...updates.changed, ...updates.added]);
+    const removed = new Set([...updates.removed, ...updates.changed]);
+
+    const fetched = await Promise.all(files
+      .filter(file => refreshed.has(file.name))
+      .map(async (file): Promise<CatalogEntry | null> => {
+        try {
+          return CatalogService.buildEntry(file.name, await this.getModel(file.name, manifest.ref, file.sha), file.sha);
+        } catch (err) {
+          console.warn(`Failed to refresh ${file.name}:`, err);
+          return null;
+        }
+      }));
+
+    const entries = [
+      ...manifest.models.filter(entry => !removed.has(entry.filename)),
+      ...fetched.filter((entry): entry is CatalogEntry => entry !== null)
+    ];
+    return CatalogService.createManifest(manifest.repo, manifest.ref, entries);
+  }
+
+  /**
+   * Loads a model file. Bodies are cached by blob SHA, so a file is only downloaded
+   * again when the directory listing reports a different SHA for it. A cached listing
+   * older than LISTING_TTL_MS is revalidated first, so a moved branch is noticed.
+   */
+  static async getModel(filename: string, ref: string = this.ref, sha?: string): Promise<any> {
     try {
-      const response = await fetch(`${this.rawUrl}/${filename}`);
+      const blobSha = sha ?? await this.findCurrentSha(filename, ref);
+      if (blobSha) {
+        const cached = await CacheService.getModel(blobSha);
+        if (cached) return cached;
+      }
+
+      const response = await fetch(`${this.rawUrl(ref)}/${filename}`);
       if (!response.ok) {
         throw new Error(`Failed to fetch model: ${response.statusText}`);
       }
       
-      const modelData = await response.json();
+      const content = await response.text();
+      const modelData = JSON.parse(content);
+      await CacheService.putModel(blobSha ?? await CacheService.blobSha(content), modelData);
       return modelData;
     } catch (error) {
       console.error('Error fetching model:', error);
@@ -81,6 +208,31 @@ export class GitHubService {
     }
   }
 
+  // Without a cached listing the body is simply downloaded, so no listing request is made
+  private static async findCurrentSha(filename: string, ref: string): Promise<string | undefined> {
+    const listing = await CacheService.getListing<GitHubFile>(CacheService.listingKey(this.repo, ref));
+    if (!listing) return undefined;
+
+    const fresh = COMMIT_SHA.test(ref) || Date.now() - listing.fetchedAt < LISTING_TTL_MS;
+    const files = fresh ? listing.files : await this.getModelList(ref).catch(() => listing.files);
+    return files.find(file => file.name === filename)?.sha;
+  }
+
+  // Follows the pages until one comes back short
+  private static async fetchRefs(endpoint: 'branches' | 'tags', type: GitHubRef['type']): Promise<GitHubRef[]> {
+    const result: GitHubRef[] = [];
+    for (let page = 1; ; page++) {
+      const response = await fetch(`${this.apiUrl}/${endpoint}?per_page=${REFS_PER_PAGE}&page=${page}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${endpoint}: ${response.statusText}`);
+      }
+
+      const refs: { name: string; commit: { sha: string } }[] = await response.json();
+      result.push(...refs.map(ref => ({ name: ref.name, sha: ref.commit.sha, type })));
+      if (refs.length < REFS_PER_PAGE) return result;
+    }
+  }
+
   static extractModelInfo(filename: string, modelData: any): { id: number; name: string; label?: string; desc?: string } {
     // Extract model ID from filename (e.g., "model_1.json" -> 1)
     const idMatch = filename.match(/model_(\d+)\.json/);
@@ -0,0 +1,276 @@
+import { SunSpecModel, Group, Point, ModelLayout, GroupLayout, PointLayout, LayoutOptions, RepeatingGroup } from '../types';
+
+export const SUNSPEC_BASE_ADDRESSES = [40000, 50000, 0];
+export const SUNS_MARKER_SIZE = 2;
+export const MODEL_HEADER_SIZE = 2;
+// Guards against garbage count values in decoded data blowing up the tree
+export const MAX_GROUP_INSTANCES = 256;
+
+// Register sizes for each SunSpec point type, used when a point omits "size"
+export const POINT_TYPE_SIZES: Record<string, number> = {
+  int16: 1,
+  uint16: 1,
+  count: 1,
+  acc16: 1,
+  enum16: 1,
+  bitfield16: 1,
+  sunssf: 1,
+  pad: 1,
+  int32: 2,
+  uint32: 2,
+  acc32: 2,
+  enum32: 2,
+  bitfield32: 2,
+  float32: 2,
+  ipaddr: 2,
+  int64: 4,
+  uint64: 4,
+  acc64: 4,
+  bitfield64: 4,
+  float64: 4,
+  eui48: 4,
+  ipv6addr: 8
+};
+
+export class LayoutService {
+  static pointSize(point: Point): number {
+    if (typeof point.size === 'number' && point.size > 0) {
+      return point.size;
+    }
+    return POINT_TYPE_SIZES[point.type] ?? 1;
+  }
+
+  static isRepeating(group: Group): boolean {
+    return group.count !== undefined;
+  }
+
+  // Count 0 is not fixed: the group repeats as often as the model length allows
+  static hasFixedCount(count: number | string | undefined): boolean {
+    return typeof count === 'number' && count > 0;
+  }
+
+  // Template paths of every repeating group, in register order
+  static repeatingGroups(model: SunSpecModel): RepeatingGroup[] {
+    const result: RepeatingGroup[] = [];
+    const walk = (group: Group, path: string) => {
+      (group.groups || []).forEach(subGroup => {
+        const subPath = `${path}.${subGroup.name}`;
+        if (this.isRepeating(subGroup)) {
+          result.push({ path: subPath, group: subGroup, count: subGroup.count });
+        }
+        walk(subGroup, subPath);
+      });
+    };
+    walk(model.group, model.group.name);
+    return result;
+  }
+
+  /**
+   * Resolves the number of instances of a group. An explicit override wins, then a
+   * numeric count, then the value of the referenced point in the nearest enclosing
+   * scope. Count 0 takes the number of instances that fit in the model length, as
+   * pysunspec does. Unresolvable references, and count 0 without a length, fall back
+   * to a single instance. Every count is capped at MAX_GROUP_INSTANCES.
+   */
+  static resolveCount(group: Group, templatePath: string, scopes: string[], options: LayoutOptions = {}, fill?: number): number {
+    const override = options.counts?.[templatePath];
+    if (typeof override === 'number' && override >= 0) {
+      return Math.min(override, MAX_GROUP_INSTANCES);
+    }
+
+    if (group.count === 0) {
+      return fill === undefined ? 1 : Math.min(fill, MAX_GROUP_INSTANCES);
+    }
+
+    if (typeof group.count === 'number') {
+      return Math.min(Math.max(0, group.count), MAX_GROUP_INSTANCES);
+    }
+
+    if (typeof group.count === 'string') {
+      const numeric = Number(group.count);
+      if (group.count.trim() !== '' && Number.isInteger(numeric)) {
+        return Math.min(Math.max(0, numeric), MAX_GROUP_INSTANCES);
+      }
+
+      for (const scope of scopes) {
+        const value = options.pointValues?.[`${scope}.${group.count}`];
+        if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+          return Math.min(value, MAX_GROUP_INSTANCES);
+        }
+      }
+    }
+
+    return 1;
+  }
+
+  /**
+   * Node ids leading to a path, from the root group down. Instance paths such as
+   * "Crv[2].Pt[1].V" match exactly; template paths match their first instance.
+   * Returns null when the path does not exist or its group has no instances.
+   */
+  static findInstancePath(layout: ModelLayout, path: string): string[] | null {
+    const templatePath = path.replace(/\[\d+\]/g, '');
+    const matches = (candidate: { path: string; templatePath: string }) =>
+      path === templatePath ? candidate.templatePath === templatePath : candidate.path === path;
+
+    const search = (group: GroupLayout): string[] | null => {
+      if (matches(group)) return [group.path];
+
+      const point = group.points.find(matches);
+      if (point) return [group.path, point.path];
+
+      for (const subGroup of group.groups) {
+        // A whole path segment must match, so "Crv" does not lead into "CrvSet"
+        const prefix = subGroup.templatePath;
+        if (templatePath !== prefix && !templatePath.startsWith(`${prefix}.`)) continue;
+        const trail = search(subGroup);
+        if (trail) return [group.path, ...trail];
+      }
+      return null;
+    };
+    return search(layout.root);
+  }
+
+  // Location of a group or point in the model file, e.g. "$.group.groups[0].points[3]"
+  static jsonPath(model: SunSpecModel, path: string): string | null {
+    const [rootName, ...names] = path.replace(/\[\d+\]/g, '').split('.');
+    if (rootName !== model.group.name) return null;
+
+    let group = model.group;
+    let jsonPath = '$.group';
+    for (const [index, name] of names.entries()) {
+      const pointIndex = index === names.length - 1 ? (group.points || []).findIndex(point => point.name === name) : -1;
+      if (pointIndex >= 0) return `${jsonPath}.points[${pointIndex}]`;
+
+      const groupIndex = (group.groups || []).findIndex(subGroup => subGroup.name === name);
+      if (groupIndex < 0) return null;
+      group = group.groups![groupIndex];
+      jsonPath += `.groups[${groupIndex}]`;
+    }
+    return jsonPath;
+  }
+
+  static computeLayout(model: SunSpecModel, startAddress: number, options: LayoutOptions = {}): ModelLayout {
+    const rootPoints = model.group.points || [];
+    const hasHeaderPoints = rootPoints[0]?.name === 'ID' && rootPoints[1]?.name === 'L';
+    const rootPath = model.group.name;
+
+    // Models without explicit ID/L points still occupy the two header registers
+    const root = this.layoutGroup(
+      model.group,
+      { path: rootPath, templatePath: rootPath },
+      hasHeaderPoints ? 0 : MODEL_HEADER_SIZE,
+      startAddress,
+      [],
+      options
+    );
+    const totalSize = root.offset + root.size;
+
+    const points: PointLayout[] = [];
+    const collectPoints = (groupLayout: GroupLayout) => {
+      points.push(...groupLayout.points);
+      groupLayout.groups.forEach(collectPoints);
+    };
+    collectPoints(root);
+
+    return {
+      modelId: model.id,
+      startAddress,
+      length: totalSize - MODEL_HEADER_SIZE,
+      hasHeaderPoints,
+      root,
+      points
+    };
+  }
+
+  private static layoutGroup(
+    group: Group,
+    paths: { path: string; templatePath: string; index?: number },
+    offset: number,
+    startAddress: number,
+    parentScopes: string[],
+    options: LayoutOptions
+  ): GroupLayout {
+    const { path, templatePath, index } = paths;
+    const layout: GroupLayout = {
+      path,
+      templatePath,
+      index,
+      group,
+      offset,
+      address: startAddress + offset,
+      size: 0,
+      points: [],
+      groups: []
+    };
+
+    const scopes = [path, ...parentScopes];
+    let cursor = offset;
+
+    (group.points || []).forEach(point => {
+      const size = this.pointSize(point);
+      layout.points.push({
+        path: `${path}.${point.name}`,
+        templatePath: `${templatePath}.${point.name}`,
+        point,
+        offset: cursor,
+        address: startAddress + cursor,
+        size
+      });
+      cursor += size;
+    });
+
+    (group.groups || []).forEach(subGroup => {
+      const subTemplatePath = `${templatePath}.${subGroup.name}`;
+
+      if (!this.isRepeating(subGroup)) {
+        const subLayout = this.layoutGroup(
+          subGroup,
+          { path: `${path}.${subGroup.name}`, templatePath: subTemplatePath },
+          cursor,
+          startAddress,
+          scopes,
+          options
+        );
+        layout.groups.push(subLayout);
+        cursor += subLayout.size;
+        return;
+      }
+
+      const fill = subGroup.count === 0 && options.modelLength !== undefined
+        ? this.fillCount(subGroup, subTemplatePath, cursor, startAddress, scopes, options)
+        : undefined;
+      const count = this.resolveCount(subGroup, subTemplatePath, scopes, options, fill);
+      for (let instance = 1; instance <= count; instance++) {
+        const subLayout = this.layoutGroup(
+          subGroup,
+          { path: `${path}.${subGroup.name}[${instance}]`, templatePath: subTemplatePath, index: instance },
+          cursor,
+          startAddress,
+          scopes,
+          options
+        );
+        layout.groups.push(subLayout);
+        cursor += subLayout.size;
+      }
+    });
+
+    layout.size = cursor - offset;
+    return layout;
+  }
+
+  // Instances of a group that fit between the cursor and the end of the model
+  private static fillCount(
+    group: Group,
+    templatePath: string,
+    cursor: number,
+    startAddress: number,
+    scopes: string[],
+    options: LayoutOptions
+  ): number {
+    const instance = this.layoutGroup(group, { path: templatePath, templatePath }, cursor, startAddress, scopes, options);
+    if (instance.size === 0) return 1;
+    const end = MODEL_HEADER_SIZE + (options.modelLength ?? 0);
+    return Math.max(0, Math.floor((end - cursor) / instance.size));
+  }
+}
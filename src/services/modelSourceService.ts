@@ -0,0 +1,437 @@
+import { SunSpecModel, ModelInfo, ModelSource, ModelSourceKind, CatalogManifest, CatalogUpdates, SmdxImport } from '../types';
+import { GitHubService } from './githubService';
+import { CatalogService } from './catalogService';
+import { ZipService } from './zipService';
+import { CacheService, StoredUpload } from './cacheService';
+import { ValidationService } from './validationService';
+import { SmdxService } from './smdxService';
+import { bundledManifest } from '../catalog';
+
+const MODEL_FILE = /(?:^|\/)(model_\d+\.json)$/;
+
+export const LOCAL_MODELS_SOURCE_ID = 'local-models';
+
+const toModelInfo = (filename: string, data: SunSpecModel, sourceId: string): ModelInfo | null => {
+  const info = GitHubService.extractModelInfo(filename, data);
+  // Skip invalid models (ID 0 or negative), as the GitHub catalog does
+  if (info.id <= 0) {
+    console.warn(`Skipping invalid model with ID ${info.id}: ${filename}`);
+    return null;
+  }
+  return { ...info, filename, sourceId };
+};
+
+const sortById = (models: ModelInfo[]) => models.sort((a, b) => a.id - b.id);
+
+const modelFilename = (id: number) => `model_${id}.json`;
+
+/**
+ * The official models repository (or a fork) through GitHubService. Uses the bundled
+ * catalog manifest when it matches the selected repository and ref.
+ */
+export class GitHubModelSource implements ModelSource {
+  readonly id = 'github';
+  readonly kind: ModelSourceKind = 'github';
+  private manifest: CatalogManifest | null = null;
+
+  get label(): string {
+    return `GitHub ${GitHubService.getRepo()}@${GitHubService.getRef()}`;
+  }
+
+  getManifest(): CatalogManifest | null {
+    return this.manifest;
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const repo = GitHubService.getRepo();
+    const ref = GitHubService.getRef();
+    // Keep a manifest refreshed by applyUpdates for as long as the same ref is selected
+    if (!this.manifest || this.manifest.repo !== repo || this.manifest.ref !== ref) {
+      this.manifest = bundledManifest && bundledManifest.repo === repo && bundledManifest.ref === ref ? bundledManifest : null;
+    }
+
+    const models = this.manifest
+      ? CatalogService.toModelInfos(this.manifest.models)
+      : await GitHubService.getAllModelsWithMetadata();
+    return models.map(model => ({ ...model, sourceId: this.id }));
+  }
+
+  async checkForUpdates(): Promise<CatalogUpdates | null> {
+    return this.manifest ? GitHubService.getCatalogUpdates(this.manifest) : null;
+  }
+
+  async applyUpdates(updates: CatalogUpdates): Promise<void> {
+    if (!this.manifest) return;
+    this.manifest = await GitHubService.applyCatalogUpdates(this.manifest, updates);
+  }
+
+  async getModel(filename: string): Promise<SunSpecModel> {
+    return GitHubService.getModel(filename);
+  }
+
+  async getModelById(id: number): Promise<SunSpecModel> {
+    return GitHubService.getModel(modelFilename(id));
+  }
+}
+
+/**
+ * Models held in memory, keyed by filename. Useful for tests and as the backing store
+ * for sources that read everything up front.
+ */
+export class MemoryModelSource implements ModelSource {
+  readonly kind: ModelSourceKind = 'memory';
+  protected models: Map<string, SunSpecModel>;
+  version = 0;
+
+  constructor(readonly id: string, readonly label: string, models: Record<string, SunSpecModel> = {}) {
+    this.models = new Map(Object.entries(models));
+  }
+
+  setModel(filename: string, model: SunSpecModel) {
+    this.models.set(filename, model);
+    this.version++;
+  }
+
+  removeModel(filename: string) {
+    this.models.delete(filename);
+    this.version++;
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const models: ModelInfo[] = [];
+    this.models.forEach((data, filename) => {
+      const info = toModelInfo(filename, data, this.id);
+      if (info) models.push(info);
+    });
+    return sortById(models);
+  }
+
+  async getModel(filename: string): Promise<SunSpecModel> {
+    const model = this.models.get(filename);
+    if (!model) {
+      throw new Error(`Failed to load model: ${filename}`);
+    }
+    return model;
+  }
+
+  // Files read from a folder or zip keep their own names, so the models are searched by ID
+  async getModelById(id: number): Promise<SunSpecModel> {
+    const model = this.models.get(modelFilename(id)) ?? Array.from(this.models.values()).find(data => data.id === id);
+    if (!model) {
+      throw new Error(`Model ${id} is not in ${this.label}`);
+    }
+    return model;
+  }
+}
+
+/**
+ * A local folder or zip of JSON model files, picked through a file input. Everything
+ * is read into memory when the source is created.
+ */
+export class LocalModelSource extends MemoryModelSource {
+  readonly kind: ModelSourceKind = 'local';
+
+  static async fromFiles(files: File[], label: string): Promise<LocalModelSource> {
+    const models: Record<string, SunSpecModel> = {};
+    const addModel = (path: string, content: string) => {
+      const filename = path.match(MODEL_FILE)?.[1] ?? path.split('/').pop()!;
+      try {
+        models[filename] = JSON.parse(content);
+      } catch (err) {
+        console.warn(`Skipping ${path}: invalid JSON`, err);
+      }
+    };
+
+    for (const file of files) {
+      const path = file.webkitRelativePath || file.name;
+      if (file.name.toLowerCase().endsWith('.zip')) {
+        const entries = await ZipService.readZip(await file.arrayBuffer());
+        entries
+          .filter(entry => entry.name.toLowerCase().endsWith('.json'))
+          .forEach(entry => addModel(entry.name, new TextDecoder().decode(entry.data)));
+      } else if (file.name.toLowerCase().endsWith('.json')) {
+        addModel(path, await file.text());
+      }
+    }
+
+    if (Object.keys(models).length === 0) {
+      throw new Error('No JSON model files found');
+    }
+    return new LocalModelSource(`local:${label}:${Date.now()}`, label, models);
+  }
+}
+
+export interface LocalModelsUpdate {
+  added: string[];
+  replaced: string[];
+  errors: string[];
+  // Fields an SMDX file could not carry over
+  warnings: string[];
+}
+
+/**
+ * Vendor-specific and draft model files dropped or picked by the user. They are kept in
+ * IndexedDB, so they are still listed after a reload.
+ */
+export class StoredModelSource extends MemoryModelSource {
+  readonly kind: ModelSourceKind = 'local';
+  private restored: Promise<void> | null = null;
+
+  constructor() {
+    super(LOCAL_MODELS_SOURCE_ID, 'Local models');
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    await this.restore();
+    return super.listModels();
+  }
+
+  async getModel(filename: string): Promise<SunSpecModel> {
+    await this.restore();
+    return super.getModel(filename);
+  }
+
+  async getModelById(id: number): Promise<SunSpecModel> {
+    await this.restore();
+    return super.getModelById(id);
+  }
+
+  // Models are stored as model_<id>.json whatever the file was called, so a file with the
+  // ID of a stored model replaces it, whether it is JSON or SMDX.
+  async addFiles(files: File[]): Promise<LocalModelsUpdate> {
+    await this.restore();
+    const update: LocalModelsUpdate = { added: [], replaced: [], errors: [], warnings: [] };
+
+    for (const file of files) {
+      try {
+        const { model, losses } = await StoredModelSource.readModel(file);
+        const filename = modelFilename(model.id);
+        (this.models.has(filename) ? update.replaced : update.added).push(filename);
+        update.warnings.push(...losses.map(loss => `${file.name}: ${loss}`));
+        await this.store(filename, model);
+      } catch (err) {
+        update.errors.push(`${file.name}: ${err instanceof Error ? err.message : 'Failed to read file'}`);
+      }
+    }
+    return update;
+  }
+
+  // Swaps in a new version of a stored model, returning any SMDX losses. A file with a
+  // different ID takes the place of the old model under its own name.
+  async replaceModel(filename: string, file: File): Promise<string[]> {
+    await this.restore();
+    const { model, losses } = await StoredModelSource.readModel(file);
+    const replacement = modelFilename(model.id);
+    await this.store(replacement, model);
+    if (replacement !== filename) await this.deleteModel(filename);
+    return losses;
+  }
+
+  async deleteModel(filename: string): Promise<void> {
+    await this.restore();
+    this.removeModel(filename);
+    await CacheService.deleteUpload(filename);
+  }
+
+  private async store(filename: string, model: SunSpecModel) {
+    this.setModel(filename, model);
+    await CacheService.putUpload(filename, model);
+  }
+
+  private restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = CacheService.getUploads().then(uploads => this.restoreUploads(uploads));
+    }
+    return this.restored;
+  }
+
+  // Older uploads kept their own file names; they move to model_<id>.json, and the newest upload of an ID wins
+  private async restoreUploads(uploads: StoredUpload[]) {
+    const newest = new Map<string, StoredUpload>();
+    [...uploads]
+      .sort((a, b) => a.storedAt - b.storedAt)
+      .forEach(upload => newest.set(modelFilename((upload.data as SunSpecModel).id), upload));
+
+    for (const upload of uploads) {
+      if (upload.filename !== modelFilename((upload.data as SunSpecModel).id)) {
+        await CacheService.deleteUpload(upload.filename);
+      }
+    }
+    for (const [filename, upload] of newest) {
+      this.setModel(filename, upload.data as SunSpecModel);
+      if (upload.filename !== filename) await CacheService.putUpload(filename, upload.data);
+    }
+  }
+
+  private static async readModel(file: File): Promise<SmdxImport> {
+    const content = await file.text();
+    if (SmdxService.isSmdxFile(file.name)) {
+      const { model, losses } = SmdxService.fromSmdx(content);
+      return { model: StoredModelSource.checkModel(model), losses };
+    }
+
+    let data;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('Not a valid JSON file');
+    }
+    return { model: StoredModelSource.checkModel(data), losses: [] };
+  }
+
+  private static checkModel(data: unknown): SunSpecModel {
+    // Same check as models opened from GitHub, plus a usable ID for the catalog
+    ValidationService.assertDisplayable(data);
+    if (typeof data.id !== 'number' || data.id <= 0) {
+      throw new Error(`Invalid model ID ${data.id}`);
+    }
+    return data;
+  }
+}
+
+/**
+ * Any static HTTP server holding model files, such as an internal mirror. The base URL
+ * should serve a catalog.json manifest or a directory index listing the model files.
+ */
+export class HttpModelSource implements ModelSource {
+  readonly kind: ModelSourceKind = 'http';
+  readonly id: string;
+  readonly label: string;
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+    this.id = `http:${this.baseUrl}`;
+    this.label = this.baseUrl;
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const manifest = await this.fetchManifest();
+    if (manifest) {
+      return CatalogService.toModelInfos(manifest.models).map(model => ({ ...model, sourceId: this.id }));
+    }
+
+    const filenames = await this.fetchIndex();
+    const results = await Promise.all(filenames.map(async filename => {
+      try {
+        return toModelInfo(filename, await this.getModel(filename), this.id);
+      } catch (err) {
+        console.warn(`Failed to load model ${filename}:`, err);
+        return null;
+      }
+    }));
+    return sortById(results.filter((model): model is ModelInfo => model !== null));
+  }
+
+  async getModel(filename: string): Promise<SunSpecModel> {
+    const response = await fetch(`${this.baseUrl}/${filename}`);
+    if (!response.ok) {
+      throw new Error(`Failed to load model: ${filename} (${response.statusText})`);
+    }
+    return response.json();
+  }
+
+  async getModelById(id: number): Promise<SunSpecModel> {
+    return this.getModel(modelFilename(id));
+  }
+
+  private async fetchManifest(): Promise<CatalogManifest | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/catalog.json`);
+      if (!response.ok) return null;
+      const manifest = await response.json();
+      return Array.isArray(manifest?.models) ? manifest : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async fetchIndex(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/`);
+    if (!response.ok) {
+      throw new Error(`Failed to list models at ${this.baseUrl}: ${response.statusText}`);
+    }
+
+    // Autoindex pages from nginx, Apache and friends link each file by name
+    const html = await response.text();
+    const names = new Set(Array.from(html.matchAll(/href="(?:[^"]*\/)?(model_\d+\.json)"/g), match => match[1]));
+    if (names.size === 0) {
+      throw new Error(`No catalog.json or model files found at ${this.baseUrl}`);
+    }
+    return Array.from(names);
+  }
+}
+
+/**
+ * Merges several sources into one catalog. When more than one source has the same
+ * file, the source listed first wins.
+ */
+export class CompositeModelSource implements ModelSource {
+  readonly id = 'composite';
+  readonly kind: ModelSourceKind = 'composite';
+  private owners = new Map<string, ModelSource>();
+
+  constructor(readonly sources: ModelSource[]) {}
+
+  get label(): string {
+    return this.sources.map(source => source.label).join(' + ');
+  }
+
+  get version(): number {
+    return this.sources.reduce((total, source) => total + (source.version ?? 0), 0);
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const results = await Promise.allSettled(this.sources.map(source => source.listModels()));
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failures.length === results.length && failures.length > 0) {
+      throw failures[0].reason;
+    }
+
+    this.owners.clear();
+    const merged: ModelInfo[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(`Model source ${this.sources[index].label} failed:`, result.reason);
+        return;
+      }
+      result.value.forEach(model => {
+        if (this.owners.has(model.filename)) return;
+        this.owners.set(model.filename, this.sources[index]);
+        merged.push(model);
+      });
+    });
+    return sortById(merged);
+  }
+
+  async getModel(filename: string): Promise<SunSpecModel> {
+    const owner = this.owners.get(filename) ?? this.sources[0];
+    if (!owner) {
+      throw new Error(`Failed to load model: ${filename}`);
+    }
+    return owner.getModel(filename);
+  }
+
+  // Sources are tried in order, so the same source wins as in the listing. When none has
+  // the model, the first source's error says why.
+  async getModelById(id: number): Promise<SunSpecModel> {
+    const errors: unknown[] = [];
+    for (const source of this.sources) {
+      try {
+        return await source.getModelById(id);
+      } catch (err) {
+        errors.push(err);
+      }
+    }
+    throw errors[0] ?? new Error(`Model ${id} is not in ${this.label}`);
+  }
+}
+
+// The GitHub source inside a (possibly merged) source, for catalog update checks
+export const findGitHubSource = (source: ModelSource): GitHubModelSource | null => {
+  if (source instanceof GitHubModelSource) return source;
+  if (source instanceof CompositeModelSource) {
+    return source.sources.find((inner): inner is GitHubModelSource => inner instanceof GitHubModelSource) ?? null;
+  }
+  return null;
+};
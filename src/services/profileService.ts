@@ -0,0 +1,150 @@
+import { SunSpecModel, RepeatingGroup, DeviceProfile, ProfileEntry, ProfileRow, ComposedModel, ComposedProfile, SimulatedValue } from '../types';
+import { LayoutService, SUNSPEC_BASE_ADDRESSES, SUNS_MARKER_SIZE, MODEL_HEADER_SIZE, MAX_GROUP_INSTANCES } from './layoutService';
+import { ReferenceService } from './referenceService';
+import { END_MODEL_ID } from './deviceScanService';
+
+// Model IDs are one register wide and 0xFFFF marks the end of the chain
+const MAX_MODEL_ID = END_MODEL_ID - 1;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSimulatedValue = (value: unknown): value is SimulatedValue =>
+  typeof value === 'string' || (Array.isArray(value) && value.every(name => typeof name === 'string'));
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_GROUP_INSTANCES;
+
+/**
+ * Composes device profiles: an ordered chain of models from the SunS marker to the end
+ * model, laid out as one continuous register map.
+ */
+export class ProfileService {
+  static empty(): DeviceProfile {
+    return { name: 'Device profile', baseAddress: SUNSPEC_BASE_ADDRESSES[0], models: [] };
+  }
+
+  // Groups with a fixed count keep it; point-referenced and length-filling counts default to one instance
+  static instanceCount(repeating: RepeatingGroup, counts: Record<string, number> = {}): number {
+    if (typeof repeating.count === 'number' && LayoutService.hasFixedCount(repeating.count)) return repeating.count;
+    const override = counts[repeating.path];
+    if (isCount(override)) return override;
+
+    const numeric = Number(repeating.count);
+    return typeof repeating.count === 'string' && repeating.count.trim() !== '' && Number.isInteger(numeric)
+      ? Math.max(0, numeric)
+      : 1;
+  }
+
+  /**
+   * Lays out every model after the marker, each starting at its ID register. Models must
+   * be given in profile order. Points that hold a group count get the chosen instance count.
+   */
+  static compose(profile: DeviceProfile, models: SunSpecModel[]): ComposedProfile {
+    const rows: ProfileRow[] = [
+      { kind: 'marker', address: profile.baseAddress, size: SUNS_MARKER_SIZE, name: 'SunS', value: 'SunS' }
+    ];
+    let address = profile.baseAddress + SUNS_MARKER_SIZE;
+
+    const composed = profile.models.map((entry, modelIndex): ComposedModel => {
+      const model = models[modelIndex];
+      const counts = Object.fromEntries(
+        LayoutService.repeatingGroups(model).map(repeating => [repeating.path, this.instanceCount(repeating, entry.counts)])
+      );
+      const layout = LayoutService.computeLayout(model, address, { counts });
+
+      const countValues = new Map<string, number>();
+      ReferenceService.collect(model).references.forEach(reference => {
+        if (reference.kind === 'count' && reference.target) countValues.set(reference.target, counts[reference.source]);
+      });
+
+      const modelRow = { modelIndex, modelId: model.id };
+      if (!layout.hasHeaderPoints) {
+        rows.push(
+          { ...modelRow, kind: 'header', address, size: 1, name: 'ID', value: model.id },
+          { ...modelRow, kind: 'header', address: address + 1, size: 1, name: 'L', value: layout.length }
+        );
+      }
+      layout.points.forEach((pointLayout, index) => {
+        const isHeader = layout.hasHeaderPoints && index < MODEL_HEADER_SIZE;
+        rows.push({
+          ...modelRow,
+          kind: isHeader ? 'header' : 'point',
+          address: pointLayout.address,
+          size: pointLayout.size,
+          name: pointLayout.point.name,
+          path: pointLayout.path,
+          point: pointLayout.point,
+          value: isHeader ? (index === 0 ? model.id : layout.length) : countValues.get(pointLayout.templatePath)
+        });
+      });
+
+      address += MODEL_HEADER_SIZE + layout.length;
+      return { entry, model, layout, counts };
+    });
+
+    rows.push(
+      { kind: 'end', address, size: 1, name: 'ID', value: END_MODEL_ID },
+      { kind: 'end', address: address + 1, size: 1, name: 'L', value: 0 }
+    );
+
+    return {
+      baseAddress: profile.baseAddress,
+      models: composed,
+      endAddress: address,
+      size: address + MODEL_HEADER_SIZE - profile.baseAddress,
+      rows
+    };
+  }
+
+  static toJson(profile: DeviceProfile): string {
+    return JSON.stringify(profile, null, 2);
+  }
+
+  static filename(profile: DeviceProfile): string {
+    const slug = profile.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `${slug || 'device-profile'}.json`;
+  }
+
+  // Reads a saved profile, rejecting anything that could not have been written by toJson
+  static parse(text: string): DeviceProfile {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('The profile is not valid JSON');
+    }
+
+    if (!isObject(data) || !Array.isArray(data.models)) {
+      throw new Error('A profile needs a "models" list');
+    }
+    const baseAddress = data.baseAddress ?? SUNSPEC_BASE_ADDRESSES[0];
+    if (typeof baseAddress !== 'number' || !Number.isInteger(baseAddress) || baseAddress < 0 || baseAddress > 0xffff) {
+      throw new Error(`Invalid base address ${JSON.stringify(data.baseAddress)}`);
+    }
+
+    const models = data.models.map((entry, index): ProfileEntry => {
+      if (!isObject(entry) || typeof entry.id !== 'number' || !Number.isInteger(entry.id) || entry.id < 1 || entry.id > MAX_MODEL_ID) {
+        throw new Error(`models[${index}] needs a model "id" between 1 and ${MAX_MODEL_ID}`);
+      }
+
+      const parsed: ProfileEntry = { id: entry.id };
+      if (entry.local === true) parsed.local = true;
+      if (entry.counts !== undefined) {
+        if (!isObject(entry.counts) || !Object.values(entry.counts).every(isCount)) {
+          throw new Error(`models[${index}].counts must map group paths to counts up to ${MAX_GROUP_INSTANCES}`);
+        }
+        parsed.counts = entry.counts as Record<string, number>;
+      }
+      if (entry.values !== undefined) {
+        if (!isObject(entry.values) || !Object.values(entry.values).every(isSimulatedValue)) {
+          throw new Error(`models[${index}].values must map point paths to text or lists of symbol names`);
+        }
+        parsed.values = entry.values as Record<string, SimulatedValue>;
+      }
+      return parsed;
+    });
+
+    return { name: typeof data.name === 'string' ? data.name : this.empty().name, baseAddress, models };
+  }
+}
@@ -0,0 +1,68 @@
+import { SunSpecModel, Group, PointReference, ModelReferences } from '../types';
+
+// Numeric strings such as "-2" are literal values, not point names
+const isLiteral = (value: string) => value.trim() !== '' && Number.isInteger(Number(value));
+
+export class ReferenceService {
+  /**
+   * Resolves every named scale factor and group count in a model. A point's sf is
+   * looked up in its own group and then each enclosing group; a group's count starts
+   * at the enclosing group, as LayoutService and DecoderService resolve them.
+   */
+  static collect(model: SunSpecModel): ModelReferences {
+    const references: PointReference[] = [];
+
+    const resolve = (scopes: Map<string, string>[], name: string) => {
+      for (const scope of scopes) {
+        const target = scope.get(name);
+        if (target) return target;
+      }
+      return undefined;
+    };
+
+    const walk = (group: Group, path: string, parentScopes: Map<string, string>[]) => {
+      if (typeof group.count === 'string' && !isLiteral(group.count)) {
+        references.push({ kind: 'count', source: path, name: group.count, target: resolve(parentScopes, group.count) });
+      }
+
+      const scope = new Map<string, string>();
+      (group.points || []).forEach(point => {
+        if (!scope.has(point.name)) scope.set(point.name, `${path}.${point.name}`);
+      });
+      const scopes = [scope, ...parentScopes];
+
+      (group.points || []).forEach(point => {
+        if (typeof point.sf === 'string' && !isLiteral(point.sf)) {
+          references.push({ kind: 'sf', source: `${path}.${point.name}`, name: point.sf, target: resolve(scopes, point.sf) });
+        }
+      });
+      (group.groups || []).forEach(subGroup => walk(subGroup, `${path}.${subGroup.name}`, scopes));
+    };
+    walk(model.group, model.group.name, []);
+
+    const bySource = new Map(references.map(reference => [reference.source, reference]));
+    const usedBy = new Map<string, PointReference[]>();
+    references.forEach(reference => {
+      if (!reference.target) return;
+      usedBy.set(reference.target, [...(usedBy.get(reference.target) ?? []), reference]);
+    });
+
+    return { references, bySource, usedBy };
+  }
+
+  /**
+   * Places a referenced point in the instance its source belongs to. The target's group
+   * always encloses the source, so it shares the source's leading instance segments,
+   * e.g. "Crv[2].Pt[1].V" referencing "Crv.V_SF" gives "Crv[2].V_SF".
+   */
+  static targetInstance(sourcePath: string, target: string): string {
+    const targetSegments = target.split('.');
+    const sourceSegments = sourcePath.split('.');
+    return [...sourceSegments.slice(0, targetSegments.length - 1), targetSegments[targetSegments.length - 1]].join('.');
+  }
+
+  // The group a point or group sits in, for spotting scale factors shared across groups
+  static parentPath(path: string): string {
+    return path.split('.').slice(0, -1).join('.');
+  }
+}
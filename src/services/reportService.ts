@@ -0,0 +1,55 @@
+import { SunSpecModel, Group, Point, Symbol, GroupLayout, ReportNote, ReportSection, ReportSymbolPoint } from '../types';
+
+type Annotated = Pick<SunSpecModel | Group | Point | Symbol, 'detail' | 'notes' | 'comments'>;
+
+// Anchors must be unique across a bundle, which may hold the same model twice
+const anchor = (...parts: (string | number)[]) => parts.join('-').replace(/[^A-Za-z0-9_-]+/g, '_');
+
+/**
+ * Structures a printable report: numbered group sections for each model chapter and a
+ * symbol appendix, plus the detail, notes and comments that the other views leave out.
+ */
+export class ReportService {
+  static notes(item: Annotated): ReportNote[] {
+    const notes: ReportNote[] = [];
+    if (item.detail?.trim()) notes.push({ label: 'Detail', text: item.detail.trim() });
+    if (item.notes?.trim()) notes.push({ label: 'Notes', text: item.notes.trim() });
+    const comments = (item.comments || []).map(comment => comment.trim()).filter(Boolean);
+    if (comments.length > 0) notes.push({ label: 'Comments', text: comments.join('\n') });
+    return notes;
+  }
+
+  // Every group instance in register order; the root group is section n.1
+  static sections(root: GroupLayout, chapter: number): ReportSection[] {
+    const sections: ReportSection[] = [];
+    const walk = (group: GroupLayout, depth: number) => {
+      sections.push({
+        id: anchor('model', chapter, group.path),
+        number: `${chapter}.${sections.length + 1}`,
+        group,
+        depth
+      });
+      group.groups.forEach(subGroup => walk(subGroup, depth + 1));
+    };
+    walk(root, 0);
+    return sections;
+  }
+
+  // Enum and bitfield points with symbols, numbered A.1, A.2, ... across the whole bundle
+  static symbolPoints(models: SunSpecModel[]): ReportSymbolPoint[][] {
+    let count = 0;
+    return models.map((model, modelIndex) => {
+      const points: ReportSymbolPoint[] = [];
+      const walk = (group: Group, path: string) => {
+        (group.points || []).forEach(point => {
+          if (!point.symbols || point.symbols.length === 0) return;
+          count++;
+          points.push({ id: anchor('symbols', modelIndex + 1, path, point.name), number: `A.${count}`, path: `${path}.${point.name}`, point });
+        });
+        (group.groups || []).forEach(subGroup => walk(subGroup, `${path}.${subGroup.name}`));
+      };
+      walk(model.group, model.group.name);
+      return points;
+    });
+  }
+}
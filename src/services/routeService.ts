@@ -0,0 +1,120 @@
+import { DEFAULT_GITHUB_REPO, DEFAULT_GITHUB_REF } from './githubService';
+
+export type AppView = 'catalog' | 'search' | 'scan' | 'profile' | 'report' | 'diff' | 'compare';
+
+export interface Route {
+  view: AppView;
+  modelId?: number;
+  // Dotted tree path below the model, e.g. "DERCtlAC.PFWInjEna"
+  nodePath?: string;
+  // Set for models opened from the Local models category
+  local?: boolean;
+  // Tree search term for a model, or the query of the point search view
+  search?: string;
+  // Where a model opened from a scan or profile starts on the device
+  address?: number;
+  // Scanned register values of that model, from its ID register on
+  registers?: number[];
+  repo: string;
+  ref: string;
+}
+
+const VIEW_PATHS: Record<AppView, string> = {
+  catalog: '/',
+  search: '/search',
+  scan: '/scan',
+  profile: '/profile',
+  report: '/report',
+  diff: '/diff',
+  compare: '/compare'
+};
+
+const REGISTER_WORDS = /^(?:[0-9a-f]{4})+$/i;
+
+/**
+ * Maps app state to URLs and back. Paths select the view or model, e.g.
+ * /model/704/DERCtlAC/PFWInjEna; the query string carries the repository, ref and
+ * search term, and for a model the view it was opened from with its address and
+ * scanned registers, so a shared link shows the same values.
+ */
+export class RouteService {
+  static parse(location: { pathname: string; search: string }): Route {
+    const params = new URLSearchParams(location.search);
+    const route: Route = {
+      view: 'catalog',
+      repo: params.get('repo') || DEFAULT_GITHUB_REPO,
+      ref: params.get('ref') || DEFAULT_GITHUB_REF
+    };
+
+    const segments = location.pathname.split('/').filter(Boolean).map(segment => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+
+    if (segments[0] === 'model' && /^\d+$/.test(segments[1] ?? '')) {
+      route.modelId = parseInt(segments[1], 10);
+      if (segments.length > 2) route.nodePath = segments.slice(2).join('.');
+      if (params.get('source') === 'local') route.local = true;
+      if (params.get('q')) route.search = params.get('q') ?? undefined;
+
+      const from = (Object.keys(VIEW_PATHS) as AppView[]).find(candidate => candidate === params.get('from'));
+      if (from) route.view = from;
+      const address = params.get('at');
+      if (address && /^\d+$/.test(address)) route.address = parseInt(address, 10);
+      const registers = params.get('regs');
+      if (route.address !== undefined && registers && REGISTER_WORDS.test(registers)) {
+        route.registers = registers.match(/.{4}/g)!.map(word => parseInt(word, 16));
+      }
+      return route;
+    }
+
+    const view = (Object.keys(VIEW_PATHS) as AppView[]).find(candidate => VIEW_PATHS[candidate] === `/${segments[0] ?? ''}`);
+    route.view = view ?? 'catalog';
+    if (route.view === 'search' && params.get('q')) route.search = params.get('q') ?? undefined;
+    return route;
+  }
+
+  static format(route: Route): string {
+    let pathname = VIEW_PATHS[route.view];
+    const params = new URLSearchParams();
+
+    if (route.modelId !== undefined) {
+      const nodeSegments = route.nodePath ? route.nodePath.split('.').map(encodeURIComponent) : [];
+      pathname = ['', 'model', route.modelId, ...nodeSegments].join('/');
+      if (route.local) params.set('source', 'local');
+      if (route.search) params.set('q', route.search);
+      if (route.view !== 'catalog') params.set('from', route.view);
+      if (route.address !== undefined) {
+        params.set('at', String(route.address));
+        if (route.registers) params.set('regs', route.registers.map(word => word.toString(16).padStart(4, '0')).join(''));
+      }
+    } else if (route.view === 'search' && route.search) {
+      params.set('q', route.search);
+    }
+
+    if (route.repo !== DEFAULT_GITHUB_REPO) params.set('repo', route.repo);
+    if (route.ref !== DEFAULT_GITHUB_REF) params.set('ref', route.ref);
+
+    const query = params.toString();
+    return query ? `${pathname}?${query}` : pathname;
+  }
+
+  static current(): Route {
+    return this.parse(window.location);
+  }
+
+  // Pushes a history entry unless the URL is unchanged or replace is set
+  static navigate(route: Route, replace: boolean = false) {
+    const url = this.format(route);
+    if (url === `${window.location.pathname}${window.location.search}`) return;
+
+    if (replace) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { SunSpecModel, Group, ModelSource, SearchField, SearchEntry, SearchIndex, SearchIndexModel, SearchMatch, ModelSearchResult } from '../types';
+import { ValidationService } from './validationService';
+
+export const SEARCH_FIELDS: SearchField[] = ['name', 'label', 'desc', 'units', 'type', 'standards'];
+
+// Models fetched at the same time while building an index
+const INDEX_CONCURRENCY = 6;
+
+const FIELD_PREFIXES: Record<string, SearchField> = {
+  name: 'name',
+  label: 'label',
+  desc: 'desc',
+  units: 'units',
+  type: 'type',
+  standard: 'standards',
+  standards: 'standards'
+};
+
+// Units and types are short codes, so a scoped term has to match the whole value
+const EXACT_FIELDS: SearchField[] = ['units', 'type'];
+
+interface SearchTerm {
+  field?: SearchField;
+  text: string;
+}
+
+/**
+ * A catalog-wide index of every group and point. Queries are whitespace-separated terms
+ * that must all match; a term may be scoped to one field (e.g. "units:VAr") and quoted
+ * to include spaces.
+ */
+export class SearchService {
+  private static cached: { key: string; index: Promise<SearchIndex> } | null = null;
+
+  // Reuses the last index while the same sources are selected and their content is unchanged
+  static getIndex(
+    sources: ModelSource[],
+    onProgress?: (loaded: number, total: number) => void,
+    refresh: boolean = false
+  ): Promise<SearchIndex> {
+    const key = sources.map(source => `${source.id}=${source.label}#${source.version ?? 0}`).join('|');
+    if (!refresh && this.cached?.key === key) return this.cached.index;
+
+    const index = this.buildIndex(sources, onProgress);
+    this.cached = { key, index };
+    index.catch(() => {
+      if (this.cached?.index === index) this.cached = null;
+    });
+    return index;
+  }
+
+  static async buildIndex(
+    sources: ModelSource[],
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<SearchIndex> {
+    const listings = await Promise.allSettled(sources.map(source => source.listModels()));
+    const failures = listings.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failures.length === listings.length && failures.length > 0) {
+      throw failures[0].reason;
+    }
+
+    const jobs = listings.flatMap((result, index) =>
+      result.status === 'fulfilled' ? result.value.map(info => ({ source: sources[index], info })) : []
+    );
+    const models: (SearchIndexModel | null)[] = new Array(jobs.length).fill(null);
+    const failed: string[] = [];
+    let next = 0;
+    let loaded = 0;
+
+    const worker = async () => {
+      while (next < jobs.length) {
+        const index = next++;
+        const { source, info } = jobs[index];
+        try {
+          const data = await source.getModel(info.filename);
+          ValidationService.assertDisplayable(data);
+          models[index] = { info, entries: this.indexModel(data) };
+        } catch (err) {
+          console.warn(`Skipping ${info.filename} in the search index:`, err);
+          failed.push(info.filename);
+        }
+        onProgress?.(++loaded, jobs.length);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(INDEX_CONCURRENCY, jobs.length) }, worker));
+
+    return { models: models.filter((model): model is SearchIndexModel => model !== null), failed };
+  }
+
+  // Groups and points below the root group, in register order
+  static indexModel(model: SunSpecModel): SearchEntry[] {
+    const entries: SearchEntry[] = [];
+    const walk = (group: Group, path: string) => {
+      (group.points || []).forEach(point => {
+        entries.push({
+          kind: 'point',
+          path: `${path}.${point.name}`,
+          name: point.name,
+          label: point.label,
+          desc: point.desc,
+          units: point.units,
+          type: point.type,
+          standards: point.standards
+        });
+      });
+      (group.groups || []).forEach(subGroup => {
+        const subPath = `${path}.${subGroup.name}`;
+        entries.push({ kind: 'group', path: subPath, name: subGroup.name, label: subGroup.label, desc: subGroup.desc, type: subGroup.type });
+        walk(subGroup, subPath);
+      });
+    };
+    walk(model.group, model.group.name);
+    return entries;
+  }
+
+  static search(index: SearchIndex, query: string): ModelSearchResult[] {
+    const terms = this.parseQuery(query);
+    if (terms.length === 0) return [];
+
+    return index.models
+      .map(model => ({
+        info: model.info,
+        matches: model.entries
+          .map(entry => this.match(entry, terms))
+          .filter((match): match is SearchMatch => match !== null)
+      }))
+      .filter(result => result.matches.length > 0);
+  }
+
+  private static parseQuery(query: string): SearchTerm[] {
+    return Array.from(query.matchAll(/(?:(\w+):)?(?:"([^"]*)"|(\S+))/g))
+      .map(([whole, prefix, quoted, bare]): SearchTerm => {
+        const field = prefix ? FIELD_PREFIXES[prefix.toLowerCase()] : undefined;
+        // Unknown prefixes are searched as plain text
+        const text = prefix && !field ? whole.replace(/"/g, '') : quoted ?? bare;
+        return { field, text: text.trim().toLowerCase() };
+      })
+      .filter(term => term.text.length > 0);
+  }
+
+  private static match(entry: SearchEntry, terms: SearchTerm[]): SearchMatch | null {
+    const fields = new Set<SearchField>();
+    for (const term of terms) {
+      const matched = (term.field ? [term.field] : SEARCH_FIELDS).filter(field => {
+        const exact = term.field !== undefined && EXACT_FIELDS.includes(field);
+        return this.values(entry, field).some(value => exact ? value === term.text : value.includes(term.text));
+      });
+      if (matched.length === 0) return null;
+      matched.forEach(field => fields.add(field));
+    }
+    return { entry, fields: SEARCH_FIELDS.filter(field => fields.has(field)) };
+  }
+
+  private static values(entry: SearchEntry, field: SearchField): string[] {
+    const value = entry[field];
+    if (value === undefined) return [];
+    return (Array.isArray(value) ? value : [value]).map(item => item.toLowerCase());
+  }
+}
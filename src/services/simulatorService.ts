@@ -0,0 +1,330 @@
+import { Point, RegisterMap, DecodedPoint, ComposedModel, ComposedProfile, ProfileEntry, SimulatedValue, SimulatedImage } from '../types';
+import { DecoderService } from './decoderService';
+import { SUNS_MARKER } from './deviceScanService';
+
+// Raw ranges per integer type, leaving out the values that mean "not implemented"
+const INTEGER_LIMITS: Record<string, [bigint, bigint]> = {
+  int16: [-0x7fffn, 0x7fffn],
+  uint16: [0n, 0xfffen],
+  count: [0n, 0xfffen],
+  enum16: [0n, 0xfffen],
+  bitfield16: [0n, 0xfffen],
+  acc16: [1n, 0xffffn],
+  int32: [-0x7fffffffn, 0x7fffffffn],
+  uint32: [0n, 0xfffffffen],
+  enum32: [0n, 0xfffffffen],
+  bitfield32: [0n, 0xfffffffen],
+  acc32: [1n, 0xffffffffn],
+  int64: [-0x7fffffffffffffffn, 0x7fffffffffffffffn],
+  uint64: [0n, 0xfffffffffffffffen],
+  bitfield64: [0n, 0xfffffffffffffffen],
+  acc64: [1n, 0xffffffffffffffffn],
+  sunssf: [-10n, 10n]
+};
+
+// Full-range values are valid but make poor test data, so random raw values stay readable
+const RANDOM_RANGE = 10000;
+const RANDOM_SCALE_FACTORS: [number, number] = [-3, 0];
+const HEX_DUMP_WORDS_PER_LINE = 8;
+
+const randomInt = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
+
+const hexWord = (word: number) => word.toString(16).padStart(4, '0');
+
+/**
+ * Builds simulated register images for device profiles. Values are entered in engineering
+ * units and encoded the way DecoderService reads them back.
+ */
+export class SimulatorService {
+  static encode(composed: ComposedProfile): SimulatedImage {
+    const { baseAddress } = composed;
+    const words = new Array<number>(composed.size).fill(0);
+    const errors = new Map<number, string>();
+    const write = (address: number, data: number[]) => {
+      data.forEach((word, index) => { words[address - baseAddress + index] = word & 0xffff; });
+    };
+
+    // The marker, model headers, group counts and end model are fixed by the profile
+    const fixed = this.fixedAddresses(composed);
+    composed.rows.forEach(row => {
+      if (row.value === undefined) return;
+      write(row.address, row.kind === 'marker' ? SUNS_MARKER : this.toWords(BigInt(row.value), row.size));
+    });
+
+    composed.models.forEach(placed => {
+      const values = placed.entry.values ?? {};
+      const scaleFactors = this.decodeScaleFactors(placed, values);
+
+      placed.layout.points.forEach(({ point, path, address, size }) => {
+        if (fixed.has(address)) return;
+        write(address, this.notImplemented(point.type, size));
+
+        const value = values[path];
+        if (value === undefined || point.type === 'pad') return;
+        try {
+          write(address, this.encodeValue(point, size, value, this.scaleFactor(point, path, value, scaleFactors)));
+        } catch (err) {
+          errors.set(address, err instanceof Error ? err.message : String(err));
+        }
+      });
+    });
+
+    return { startAddress: baseAddress, words, errors };
+  }
+
+  /**
+   * Gives every unset point a random value within its type's limits, returning the
+   * updated profile entries. Scale factors are drawn first, so scaled points can be
+   * written in engineering units.
+   */
+  static randomize(composed: ComposedProfile, mandatoryOnly: boolean = false): ProfileEntry[] {
+    const fixed = this.fixedAddresses(composed);
+
+    return composed.models.map(placed => {
+      const values = { ...placed.entry.values };
+      const open = placed.layout.points.filter(({ point, path, address }) =>
+        !fixed.has(address) && values[path] === undefined && point.type !== 'pad' && (!mandatoryOnly || point.mandatory === 'M'));
+
+      open.filter(({ point }) => point.type === 'sunssf').forEach(({ path }) => {
+        values[path] = String(randomInt(...RANDOM_SCALE_FACTORS));
+      });
+
+      const scaleFactors = this.decodeScaleFactors(placed, values);
+      open.filter(({ point }) => point.type !== 'sunssf').forEach(({ point, path, size }) => {
+        const sf = point.sf === undefined ? 0 : DecoderService.resolveScaleFactor(point, path, scaleFactors);
+        // Points scaled by an unset factor cannot be written in engineering units
+        if (sf !== undefined) values[path] = this.randomValue(point, size, sf);
+      });
+
+      return { ...placed.entry, values };
+    });
+  }
+
+  static encodeValue(point: Point, size: number, value: SimulatedValue, sf: number = 0): number[] {
+    if (Array.isArray(value)) {
+      return this.toWords(this.checkRange(point.type, size, this.symbolValue(point, value)), size);
+    }
+
+    const text = value.trim();
+    switch (point.type) {
+      case 'string':
+        return this.encodeString(value, size);
+      case 'ipaddr':
+        return this.encodeIpv4(text);
+      case 'ipv6addr':
+        return this.encodeIpv6(text);
+      case 'eui48':
+        return this.encodeEui48(text);
+      case 'float32':
+      case 'float64': {
+        const number = this.parseNumber(text) / 10 ** sf;
+        const view = new DataView(new ArrayBuffer(size * 2));
+        if (point.type === 'float32') view.setFloat32(0, number);
+        else view.setFloat64(0, number);
+        return Array.from({ length: size }, (_, index) => view.getUint16(index * 2));
+      }
+      default:
+        return this.toWords(this.checkRange(point.type, size, this.parseInteger(text, sf)), size);
+    }
+  }
+
+  // Inverse of DecoderService.isNotImplemented
+  static notImplemented(type: string, size: number): number[] {
+    const words = (first: number, rest: number) => [first, ...new Array<number>(Math.max(0, size - 1)).fill(rest)];
+
+    switch (type) {
+      case 'int16':
+      case 'sunssf':
+      case 'pad':
+      case 'int32':
+      case 'int64':
+        return words(0x8000, 0);
+      case 'uint16':
+      case 'count':
+      case 'enum16':
+      case 'bitfield16':
+      case 'uint32':
+      case 'enum32':
+      case 'bitfield32':
+      case 'uint64':
+      case 'bitfield64':
+        return words(0xffff, 0xffff);
+      case 'float32':
+        return words(0x7fc0, 0);
+      case 'float64':
+        return words(0x7ff8, 0);
+      default:
+        return words(0, 0);
+    }
+  }
+
+  // Big-endian bytes, as DeviceScanService reads binary images
+  static toBinary(image: SimulatedImage): Uint8Array {
+    const bytes = new Uint8Array(image.words.length * 2);
+    image.words.forEach((word, index) => {
+      bytes[index * 2] = word >> 8;
+      bytes[index * 2 + 1] = word & 0xff;
+    });
+    return bytes;
+  }
+
+  // Runs of hex words with the address as a trailing comment, so the dump can be pasted into Device Scan
+  static toHexDump(image: SimulatedImage): string {
+    const lines = [`# SunSpec register image: ${image.words.length} registers from ${image.startAddress}`];
+    for (let index = 0; index < image.words.length; index += HEX_DUMP_WORDS_PER_LINE) {
+      const line = image.words.slice(index, index + HEX_DUMP_WORDS_PER_LINE).map(hexWord).join(' ');
+      lines.push(`${line.padEnd(HEX_DUMP_WORDS_PER_LINE * 5 - 1)}  # ${image.startAddress + index}`);
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  static toRegisterJson(image: SimulatedImage): string {
+    return JSON.stringify(
+      Object.fromEntries(image.words.map((word, index) => [String(image.startAddress + index), word])),
+      null,
+      2
+    );
+  }
+
+  private static fixedAddresses(composed: ComposedProfile): Set<number> {
+    return new Set(composed.rows.filter(row => row.value !== undefined).map(row => row.address));
+  }
+
+  // Only the scale factors are encoded, which is all DecoderService needs to resolve them
+  private static decodeScaleFactors(placed: ComposedModel, values: Record<string, SimulatedValue>): Record<string, DecodedPoint> {
+    const registers: RegisterMap = new Map();
+    placed.layout.points.forEach(({ point, path, address, size }) => {
+      if (point.type !== 'sunssf' || values[path] === undefined) return;
+      try {
+        this.encodeValue(point, size, values[path]).forEach((word, index) => registers.set(address + index, word));
+      } catch {
+        // Reported when the factor itself is encoded
+      }
+    });
+    return DecoderService.decodeLayout(placed.layout, registers);
+  }
+
+  private static scaleFactor(point: Point, path: string, value: SimulatedValue, scaleFactors: Record<string, DecodedPoint>): number {
+    if (point.sf === undefined || point.type === 'sunssf' || Array.isArray(value)) return 0;
+    const sf = DecoderService.resolveScaleFactor(point, path, scaleFactors);
+    if (sf === undefined) throw new Error(`Scale factor ${point.sf} has no value`);
+    return sf;
+  }
+
+  private static limits(type: string, size: number): [bigint, bigint] {
+    return INTEGER_LIMITS[type] ?? [0n, (1n << BigInt(size * 16)) - 1n];
+  }
+
+  private static checkRange(type: string, size: number, raw: bigint): bigint {
+    const [min, max] = this.limits(type, size);
+    if (raw < min || raw > max) throw new Error(`${raw} is outside the ${type} range ${min} to ${max}`);
+    return raw;
+  }
+
+  private static toWords(raw: bigint, size: number): number[] {
+    const unsigned = BigInt.asUintN(size * 16, raw);
+    return Array.from({ length: size }, (_, index) => Number((unsigned >> BigInt((size - 1 - index) * 16)) & 0xffffn));
+  }
+
+  private static parseNumber(text: string): number {
+    const number = Number(text);
+    if (text === '' || !Number.isFinite(number)) throw new Error(`"${text}" is not a number`);
+    return number;
+  }
+
+  // Scaled values must land on a whole raw value; 64-bit integers keep their precision
+  private static parseInteger(text: string, sf: number): bigint {
+    if (sf === 0 && /^[-+]?\d+$/.test(text)) return BigInt(text);
+
+    const raw = this.parseNumber(text) / 10 ** sf;
+    const rounded = Math.round(raw);
+    if (Math.abs(raw - rounded) > 1e-6 * Math.max(1, Math.abs(raw))) {
+      throw new Error(sf === 0 ? `${text} is not a whole number` : `${text} is not a multiple of ${10 ** sf}`);
+    }
+    return BigInt(rounded);
+  }
+
+  // Enums take one symbol; bitfield symbols name the bits to set
+  private static symbolValue(point: Point, names: string[]): bigint {
+    const valueOf = (name: string) => {
+      const symbol = (point.symbols || []).find(candidate => candidate.name === name);
+      const value = Number(symbol?.value);
+      if (!symbol || !Number.isInteger(value)) throw new Error(`${point.name} has no symbol "${name}"`);
+      return BigInt(value);
+    };
+
+    if (point.type.startsWith('bitfield')) {
+      return names.reduce((bits, name) => bits | (1n << valueOf(name)), 0n);
+    }
+    if (names.length !== 1) throw new Error('Pick one symbol');
+    return valueOf(names[0]);
+  }
+
+  // Bytes are Latin-1, like DecoderService reads them; unused bytes are zero
+  private static encodeString(text: string, size: number): number[] {
+    if (text.length > size * 2) throw new Error(`Longer than ${size * 2} characters`);
+    if (Array.from(text).some(char => char.charCodeAt(0) > 0xff)) throw new Error('Only Latin-1 characters fit in a SunSpec string');
+
+    const bytes = Array.from({ length: size * 2 }, (_, index) => index < text.length ? text.charCodeAt(index) : 0);
+    return Array.from({ length: size }, (_, index) => (bytes[index * 2] << 8) | bytes[index * 2 + 1]);
+  }
+
+  private static encodeIpv4(text: string): number[] {
+    const octets = text.split('.').map(Number);
+    if (octets.length !== 4 || !octets.every(octet => Number.isInteger(octet) && octet >= 0 && octet <= 255)) {
+      throw new Error(`"${text}" is not an IPv4 address`);
+    }
+    return [(octets[0] << 8) | octets[1], (octets[2] << 8) | octets[3]];
+  }
+
+  // Accepts the full eight groups or one "::" run of zero groups
+  private static encodeIpv6(text: string): number[] {
+    const halves = text.split('::');
+    const groups = (half: string) => half ? half.split(':') : [];
+    const head = groups(halves[0]);
+    const tail = halves.length === 2 ? groups(halves[1]) : [];
+    const zeros = halves.length === 2 ? 8 - head.length - tail.length : 0;
+
+    const all = [...head, ...new Array<string>(Math.max(0, zeros)).fill('0'), ...tail];
+    if (halves.length > 2 || zeros < 0 || all.length !== 8 || !all.every(group => /^[0-9a-f]{1,4}$/i.test(group))) {
+      throw new Error(`"${text}" is not an IPv6 address`);
+    }
+    return all.map(group => parseInt(group, 16));
+  }
+
+  // The first register is padding, as DecoderService expects
+  private static encodeEui48(text: string): number[] {
+    if (!/^[0-9a-f]{2}([:-][0-9a-f]{2}){5}$/i.test(text)) throw new Error(`"${text}" is not an EUI-48 address`);
+    const bytes = text.split(/[:-]/).map(byte => parseInt(byte, 16));
+    return [0, (bytes[0] << 8) | bytes[1], (bytes[2] << 8) | bytes[3], (bytes[4] << 8) | bytes[5]];
+  }
+
+  private static randomValue(point: Point, size: number, sf: number): SimulatedValue {
+    const symbols = point.symbols || [];
+    if (symbols.length > 0 && point.type.startsWith('enum')) {
+      return [symbols[randomInt(0, symbols.length - 1)].name];
+    }
+    if (symbols.length > 0 && point.type.startsWith('bitfield')) {
+      return symbols.filter(() => Math.random() < 0.3).map(symbol => symbol.name);
+    }
+
+    switch (point.type) {
+      case 'string':
+        return `${point.name}-${randomInt(1000, 9999)}`.slice(0, size * 2);
+      case 'ipaddr':
+        return `192.168.${randomInt(0, 255)}.${randomInt(1, 254)}`;
+      case 'ipv6addr':
+        return `fd00::${randomInt(1, 0xffff).toString(16)}`;
+      case 'eui48':
+        // Locally administered, so it cannot clash with a real vendor prefix
+        return ['02', ...Array.from({ length: 5 }, () => randomInt(0, 255).toString(16).padStart(2, '0'))].join(':');
+      case 'float32':
+      case 'float64':
+        return String(randomInt(-RANDOM_RANGE, RANDOM_RANGE) / 100);
+    }
+
+    const [min, max] = this.limits(point.type, size);
+    const raw = randomInt(Math.max(Number(min), -RANDOM_RANGE), Math.min(Number(max), RANDOM_RANGE));
+    return sf === 0 ? String(raw) : (raw * 10 ** sf).toFixed(Math.max(0, -sf));
+  }
+}
@@ -0,0 +1,355 @@
+import { SunSpecModel, Group, Point, Symbol, SmdxImport, SmdxExport } from '../types';
+import { LayoutService, POINT_TYPE_SIZES } from './layoutService';
+
+const POINT_ATTRIBUTES = ['id', 'offset', 'type', 'len', 'mandatory', 'access', 'sf', 'units'];
+const HEADER_POINTS = ['ID', 'L'];
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const childElements = (element: Element, tag: string) =>
+  Array.from(element.children).filter(child => child.localName === tag);
+
+const text = (element: Element | undefined) => element?.textContent?.trim() || undefined;
+
+const toNumber = (value: string) => (/^-?\d+$/.test(value.trim()) ? parseInt(value, 10) : value);
+
+// Collects dropped fields by description, so each one is reported once with every path
+class LossReport {
+  private entries = new Map<string, string[]>();
+
+  add(description: string, path: string) {
+    const paths = this.entries.get(description) ?? [];
+    if (!paths.includes(path)) paths.push(path);
+    this.entries.set(description, paths);
+  }
+
+  lines(): string[] {
+    return Array.from(this.entries, ([description, paths]) => `${description}: ${paths.join(', ')}`);
+  }
+}
+
+/**
+ * Converts between the legacy SMDX XML format and the JSON models. SMDX has a fixed
+ * block and at most one repeating block, with labels, descriptions and notes in a
+ * separate strings section; the mapping follows the one pysunspec2 uses on import.
+ */
+export class SmdxService {
+  static isSmdxFile(filename: string): boolean {
+    return filename.toLowerCase().endsWith('.xml');
+  }
+
+  static filename(model: SunSpecModel): string {
+    return `smdx_${String(model.id).padStart(5, '0')}.xml`;
+  }
+
+  static fromSmdx(xml: string): SmdxImport {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Not a valid XML file');
+    }
+    const container = document.documentElement;
+    const modelElement = container.localName === 'sunSpecModels' ? childElements(container, 'model')[0] : undefined;
+    if (!modelElement) {
+      throw new Error('Not an SMDX file: no sunSpecModels/model element');
+    }
+    const id = parseInt(modelElement.getAttribute('id') ?? '', 10);
+    if (isNaN(id) || id <= 0) {
+      throw new Error(`Invalid model ID ${modelElement.getAttribute('id')}`);
+    }
+
+    const losses = new LossReport();
+    const name = modelElement.getAttribute('name') || `model_${id}`;
+    const blocks = childElements(modelElement, 'block');
+    const fixedBlocks = blocks.filter(block => (block.getAttribute('type') ?? 'fixed') === 'fixed');
+    const repeatingBlocks = blocks.filter(block => block.getAttribute('type') === 'repeating');
+    if (fixedBlocks.length > 1) losses.add(`${fixedBlocks.length - 1} extra fixed block(s) skipped`, name);
+    if (repeatingBlocks.length > 1) losses.add(`${repeatingBlocks.length - 1} extra repeating block(s) skipped`, name);
+
+    const root: Group = {
+      name,
+      type: 'group',
+      points: [
+        { name: 'ID', type: 'uint16', size: 1, value: id, label: 'Model ID', desc: 'Model identifier', mandatory: 'M', static: 'S' },
+        { name: 'L', type: 'uint16', size: 1, label: 'Model Length', desc: 'Model length', mandatory: 'M', static: 'S' }
+      ]
+    };
+    if (fixedBlocks[0]) this.readBlock(fixedBlocks[0], name, root, losses);
+
+    let repeating: Group | undefined;
+    if (repeatingBlocks[0]) {
+      // Count 0 repeats the block as often as the model length allows
+      repeating = { name: repeatingBlocks[0].getAttribute('name') || 'repeating', type: 'group', count: 0, points: [] };
+      this.readBlock(repeatingBlocks[0], `${name}.${repeating.name}`, repeating, losses);
+      root.groups = [repeating];
+    }
+
+    this.readStrings(container, id, root, repeating, losses);
+    const model: SunSpecModel = { id, group: root };
+
+    // The declared length must be the fixed block plus whole repeating blocks
+    const declaredLength = parseInt(modelElement.getAttribute('len') ?? '', 10);
+    if (!isNaN(declaredLength)) {
+      const { length } = LayoutService.computeLayout(model, 0, { modelLength: declaredLength });
+      if (length !== declaredLength) {
+        losses.add(`Model len ${declaredLength} does not fit the blocks, laid out as ${length}`, name);
+      }
+    }
+    return { model, losses: losses.lines() };
+  }
+
+  static toSmdx(model: SunSpecModel): SmdxExport {
+    const losses = new LossReport();
+    const root = model.group;
+    const rootPath = root.name;
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<sunSpecModels v="1">'];
+
+    if (root.type === 'sync') losses.add('Sync group type is not kept', rootPath);
+    this.noteAnnotations(model, rootPath, losses);
+    this.noteAnnotations(root, rootPath, losses);
+
+    // SMDX leaves the ID and L header implicit
+    const fixedPoints = (root.points || []).filter((point, index) => !(index < 2 && HEADER_POINTS[index] === point.name));
+
+    // The first group with a count becomes the repeating block. Groups without one have a
+    // single instance, so those ahead of it join the fixed block.
+    let repeating: Group | undefined;
+    for (const group of root.groups || []) {
+      const groupPath = `${rootPath}.${group.name}`;
+      if (repeating) {
+        losses.add(group.count !== undefined
+          ? 'Only one repeating block is allowed, group dropped'
+          : 'Groups after the repeating block are not allowed, group dropped', groupPath);
+      } else if (group.count !== undefined) {
+        repeating = group;
+      } else {
+        fixedPoints.push(...this.flattenGroup(group, groupPath, losses));
+      }
+    }
+
+    const fixedNames = new Set<string>();
+    fixedPoints.forEach(point => {
+      if (fixedNames.has(point.name)) losses.add('Point name repeats in the fixed block', `${rootPath}.${point.name}`);
+      fixedNames.add(point.name);
+    });
+
+    const repeatingPath = repeating ? `${rootPath}.${repeating.name}` : '';
+    if (repeating) {
+      if (repeating.count !== 0) {
+        losses.add(`Group count ${repeating.count ?? '1'} becomes a repeating block sized by the model length`, repeatingPath);
+      }
+      if (repeating.type === 'sync') losses.add('Sync group type is not kept', repeatingPath);
+      (['label', 'desc', 'detail'] as const).forEach(field => {
+        if (repeating[field]) losses.add(`Repeating block ${field} is not kept`, repeatingPath);
+      });
+      this.noteAnnotations(repeating, repeatingPath, losses);
+      (repeating.groups || []).forEach(group => losses.add('Nested groups are not allowed, group dropped', `${repeatingPath}.${group.name}`));
+    }
+
+    const fixedLength = this.blockLength(fixedPoints);
+    const repeatingLength = repeating ? this.blockLength(repeating.points || []) : 0;
+    lines.push(`  <model id="${model.id}" len="${fixedLength + repeatingLength}" name="${escapeXml(root.name)}">`);
+    lines.push(...this.writeBlock(fixedPoints, `<block len="${fixedLength}">`, rootPath, losses));
+    if (repeating) {
+      const tag = `<block type="repeating" len="${repeatingLength}" name="${escapeXml(repeating.name)}">`;
+      lines.push(...this.writeBlock(repeating.points || [], tag, repeatingPath, losses));
+    }
+    lines.push('  </model>');
+
+    // Strings are looked up by point name, fixed block first
+    (repeating?.points || []).forEach(point => {
+      if (fixedNames.has(point.name) && this.hasStrings(point)) {
+        losses.add('Strings shadowed by a fixed point of the same name', `${repeatingPath}.${point.name}`);
+      }
+    });
+
+    lines.push(`  <strings id="${model.id}" locale="en">`);
+    lines.push('    <model>', ...this.writeStrings({
+      label: root.label ?? model.label,
+      desc: root.desc ?? model.desc,
+      detail: root.detail ?? model.detail
+    }, '      '), '    </model>');
+    [...fixedPoints, ...(repeating?.points || [])].forEach(point => {
+      if (!this.hasStrings(point)) return;
+      lines.push(`    <point id="${escapeXml(point.name)}">`, ...this.writeStrings(point, '      '));
+      (point.symbols || [])
+        .filter(symbol => symbol.label || symbol.desc || symbol.detail)
+        .forEach(symbol => {
+          lines.push(`      <symbol id="${escapeXml(symbol.name)}">`, ...this.writeStrings(symbol, '        '), '      </symbol>');
+        });
+      lines.push('    </point>');
+    });
+    lines.push('  </strings>', '</sunSpecModels>', '');
+
+    return { xml: lines.join('\n'), losses: losses.lines() };
+  }
+
+  private static readBlock(block: Element, path: string, group: Group, losses: LossReport): number {
+    let offset = 0;
+    childElements(block, 'point').forEach(element => {
+      const point = this.readPoint(element, `${path}.${element.getAttribute('id')}`, losses);
+      const declaredOffset = element.getAttribute('offset');
+      if (declaredOffset !== null && parseInt(declaredOffset, 10) !== offset) {
+        losses.add(`Offset does not match the point sizes, laid out at ${offset} instead`, `${path}.${point.name}`);
+      }
+      group.points!.push(point);
+      offset += LayoutService.pointSize(point);
+    });
+
+    const declaredLength = block.getAttribute('len');
+    if (declaredLength !== null && parseInt(declaredLength, 10) !== offset) {
+      losses.add(`Block len ${declaredLength} does not match its points (${offset})`, path);
+    }
+    return offset;
+  }
+
+  private static readPoint(element: Element, path: string, losses: LossReport): Point {
+    const type = element.getAttribute('type') || 'uint16';
+    const len = parseInt(element.getAttribute('len') ?? '', 10);
+    const point: Point = {
+      name: element.getAttribute('id') || '',
+      type,
+      size: type === 'string' || !(type in POINT_TYPE_SIZES) ? (isNaN(len) ? 1 : len) : POINT_TYPE_SIZES[type]
+    };
+    if (!isNaN(len) && len !== point.size) {
+      losses.add(`len ${len} does not match the type, size ${point.size} used`, path);
+    }
+
+    const sf = element.getAttribute('sf');
+    if (sf) point.sf = toNumber(sf);
+    const units = element.getAttribute('units');
+    if (units) point.units = units;
+    if (element.getAttribute('access')?.toLowerCase() === 'rw') point.access = 'RW';
+    if (element.getAttribute('mandatory') === 'true') point.mandatory = 'M';
+
+    Array.from(element.attributes)
+      .filter(attribute => !POINT_ATTRIBUTES.includes(attribute.name))
+      .forEach(attribute => losses.add(`Attribute "${attribute.name}" is not read`, path));
+
+    const symbols = childElements(element, 'symbol').map((symbol): Symbol => ({
+      name: symbol.getAttribute('id') || '',
+      value: toNumber(symbol.textContent ?? '')
+    }));
+    if (symbols.length > 0) point.symbols = symbols;
+    return point;
+  }
+
+  private static readStrings(container: Element, id: number, root: Group, repeating: Group | undefined, losses: LossReport) {
+    const blocks = childElements(container, 'strings').filter(block => block.getAttribute('id') === null || block.getAttribute('id') === String(id));
+    const strings = blocks.find(block => (block.getAttribute('locale') ?? 'en') === 'en') ?? blocks[0];
+    blocks
+      .filter(block => block !== strings)
+      .forEach(block => losses.add('Only one locale is read, strings skipped', `locale ${block.getAttribute('locale')}`));
+    if (!strings) return;
+
+    const describe = (target: Group | Point | Symbol, element: Element) => {
+      const label = text(childElements(element, 'label')[0]);
+      const desc = text(childElements(element, 'description')[0]);
+      const detail = text(childElements(element, 'notes')[0]);
+      if (label) target.label = label;
+      if (desc) target.desc = desc;
+      if (detail) target.detail = detail;
+    };
+
+    const modelStrings = childElements(strings, 'model')[0];
+    if (modelStrings) describe(root, modelStrings);
+
+    childElements(strings, 'point').forEach(element => {
+      const name = element.getAttribute('id');
+      const point = root.points!.slice(HEADER_POINTS.length).find(candidate => candidate.name === name)
+        ?? repeating?.points!.find(candidate => candidate.name === name);
+      if (!point) {
+        losses.add('Strings for an unknown point skipped', `${root.name}.${name}`);
+        return;
+      }
+      describe(point, element);
+      childElements(element, 'symbol').forEach(symbolElement => {
+        const symbol = point.symbols?.find(candidate => candidate.name === symbolElement.getAttribute('id'));
+        if (symbol) {
+          describe(symbol, symbolElement);
+        } else {
+          losses.add('Strings for an unknown symbol skipped', `${root.name}.${name}.${symbolElement.getAttribute('id')}`);
+        }
+      });
+    });
+  }
+
+  private static writeBlock(points: Point[], openTag: string, path: string, losses: LossReport): string[] {
+    const lines = [`    ${openTag}`];
+    let offset = 0;
+    points.forEach(point => {
+      const pointPath = `${path}.${point.name}`;
+      const size = LayoutService.pointSize(point);
+      const attributes = [`id="${escapeXml(point.name)}"`, `offset="${offset}"`, `type="${escapeXml(point.type)}"`];
+      if (point.type === 'string' || !(point.type in POINT_TYPE_SIZES)) attributes.push(`len="${size}"`);
+      if (point.sf !== undefined) attributes.push(`sf="${escapeXml(String(point.sf))}"`);
+      if (point.units) attributes.push(`units="${escapeXml(point.units)}"`);
+      if (point.access === 'RW') attributes.push('access="rw"');
+      if (point.mandatory === 'M') attributes.push('mandatory="true"');
+      offset += size;
+
+      if (point.static) losses.add('static is not kept', pointPath);
+      if (point.value !== undefined) losses.add('value is not kept', pointPath);
+      if (point.count !== undefined) losses.add('count is not kept', pointPath);
+      if (point.standards?.length) losses.add('standards are not kept', pointPath);
+      this.noteAnnotations(point, pointPath, losses);
+
+      const symbols = point.symbols || [];
+      if (symbols.length === 0) {
+        lines.push(`      <point ${attributes.join(' ')} />`);
+        return;
+      }
+      lines.push(`      <point ${attributes.join(' ')}>`);
+      symbols.forEach(symbol => {
+        this.noteAnnotations(symbol, `${pointPath}.${symbol.name}`, losses);
+        lines.push(`        <symbol id="${escapeXml(symbol.name)}">${escapeXml(String(symbol.value))}</symbol>`);
+      });
+      lines.push('      </point>');
+    });
+    lines.push('    </block>');
+    return lines;
+  }
+
+  // Points of a group without a count, and of its groups without one, in register order
+  private static flattenGroup(group: Group, path: string, losses: LossReport): Point[] {
+    losses.add('Group without a count flattened into the fixed block', path);
+    if (group.type === 'sync') losses.add('Sync group type is not kept', path);
+    (['label', 'desc', 'detail'] as const).forEach(field => {
+      if (group[field]) losses.add(`Group ${field} is not kept`, path);
+    });
+    this.noteAnnotations(group, path, losses);
+
+    const points = [...(group.points || [])];
+    (group.groups || []).forEach(sub => {
+      const subPath = `${path}.${sub.name}`;
+      if (sub.count === undefined) {
+        points.push(...this.flattenGroup(sub, subPath, losses));
+      } else {
+        losses.add('Repeating groups inside the fixed block are not allowed, group dropped', subPath);
+      }
+    });
+    return points;
+  }
+
+  // SMDX has no place for notes or comments; its own "notes" element carries the detail
+  private static noteAnnotations(item: Pick<SunSpecModel, 'notes' | 'comments'>, path: string, losses: LossReport) {
+    if (item.notes?.trim()) losses.add('notes are not kept', path);
+    if (item.comments?.some(comment => comment.trim())) losses.add('comments are not kept', path);
+  }
+
+  private static writeStrings(item: Pick<Point, 'label' | 'desc' | 'detail'>, indent: string): string[] {
+    return [
+      item.label && `${indent}<label>${escapeXml(item.label)}</label>`,
+      item.desc && `${indent}<description>${escapeXml(item.desc)}</description>`,
+      item.detail && `${indent}<notes>${escapeXml(item.detail)}</notes>`
+    ].filter((line): line is string => Boolean(line));
+  }
+
+  private static hasStrings(point: Point): boolean {
+    return Boolean(point.label || point.desc || point.detail || point.symbols?.some(symbol => symbol.label || symbol.desc || symbol.detail));
+  }
+
+  private static blockLength(points: Point[]): number {
+    return points.reduce((length, point) => length + LayoutService.pointSize(point), 0);
+  }
+}
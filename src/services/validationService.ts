@@ -0,0 +1,395 @@
+import { SunSpecModel, ValidationIssue, ValidationResult, ValidationRule, ValidationSeverity } from '../types';
+import { POINT_TYPE_SIZES } from './layoutService';
+
+const POINT_TYPES = new Set([...Object.keys(POINT_TYPE_SIZES), 'string']);
+export const SYMBOL_TYPES = new Set(['enum16', 'enum32', 'bitfield16', 'bitfield32', 'bitfield64']);
+const SCALED_TYPES = new Set(['int16', 'int32', 'int64', 'uint16', 'uint32', 'uint64', 'acc16', 'acc32', 'acc64', 'float32', 'float64']);
+const COUNT_TYPES = new Set(['uint16', 'count']);
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_SCALE_FACTOR = 10;
+
+// Properties allowed by the official schema (json/schema.json in the models repository)
+const MODEL_PROPERTIES = ['id', 'group', 'label', 'desc', 'detail', 'notes', 'comments'];
+const GROUP_PROPERTIES = ['name', 'type', 'count', 'points', 'groups', 'label', 'desc', 'detail', 'notes', 'comments'];
+const POINT_PROPERTIES = [
+  'name', 'type', 'size', 'value', 'count', 'sf', 'units', 'access', 'mandatory', 'static',
+  'label', 'desc', 'detail', 'notes', 'comments', 'symbols', 'standards'
+];
+const SYMBOL_PROPERTIES = ['name', 'value', 'label', 'desc', 'detail', 'notes', 'comments'];
+const TEXT_PROPERTIES = ['label', 'desc', 'detail', 'notes'];
+
+type JsonObject = Record<string, unknown>;
+type Scope = Map<string, JsonObject>;
+
+interface ValidationContext {
+  issues: ValidationIssue[];
+  displayable: boolean;
+}
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumericString = (value: string) => value.trim() !== '' && Number.isInteger(Number(value));
+
+export class ValidationService {
+  /**
+   * Checks a model against the official SunSpec JSON schema and the semantic rules the
+   * schema cannot express. Issues carry the JSON path of the offending value and the
+   * tree path of the group or point it belongs to, if any.
+   */
+  static validateModel(data: unknown): ValidationResult {
+    const context: ValidationContext = { issues: [], displayable: true };
+
+    if (!isObject(data)) {
+      this.fatal(context, '$', undefined, 'A model must be a JSON object');
+    } else {
+      this.checkProperties(context, data, MODEL_PROPERTIES, '$', undefined);
+      this.checkText(context, data, '$', undefined);
+
+      if (data.id === undefined) {
+        this.fatal(context, '$.id', undefined, 'Missing required "id"');
+      } else if (!Number.isInteger(data.id) || (data.id as number) < 1 || (data.id as number) > 65535) {
+        this.report(context, '$.id', undefined, 'error', 'schema', '"id" must be an integer from 1 to 65535');
+      }
+
+      if (!isObject(data.group)) {
+        this.fatal(context, '$.group', undefined, 'Missing required "group"');
+      } else {
+        this.checkGroup(context, data.group, '$.group', [], undefined);
+        this.checkHeader(context, data);
+      }
+    }
+
+    return {
+      issues: context.issues,
+      errorCount: context.issues.filter(issue => issue.severity === 'error').length,
+      warningCount: context.issues.filter(issue => issue.severity === 'warning').length,
+      displayable: context.displayable
+    };
+  }
+
+  // Narrows unknown JSON to a model the viewer can render, or throws with the first problem
+  static assertDisplayable(data: unknown): asserts data is SunSpecModel {
+    const result = this.validateModel(data);
+    if (!result.displayable) {
+      const firstError = result.issues.find(issue => issue.severity === 'error');
+      throw new Error(`Invalid SunSpec model format. ${firstError ? this.formatIssue(firstError) : ''}`.trim());
+    }
+  }
+
+  static formatIssue(issue: ValidationIssue): string {
+    return `${issue.path}: ${issue.message}`;
+  }
+
+  private static checkGroup(context: ValidationContext, group: JsonObject, path: string, parentScopes: Scope[], parentPath?: string) {
+    const name = typeof group.name === 'string' && group.name ? group.name : undefined;
+    const nodePath = name ? (parentPath ? `${parentPath}.${name}` : name) : parentPath;
+
+    if (!name) {
+      this.fatal(context, `${path}.name`, nodePath, 'Missing required group "name"');
+    } else if (!NAME_PATTERN.test(name)) {
+      this.report(context, `${path}.name`, nodePath, 'warning', 'schema', `Group name "${name}" is not a valid identifier`);
+    }
+
+    if (group.type === undefined) {
+      this.report(context, `${path}.type`, nodePath, 'error', 'schema', 'Missing required group "type"');
+    } else if (group.type !== 'group' && group.type !== 'sync') {
+      this.report(context, `${path}.type`, nodePath, 'error', 'schema', `Group type must be "group" or "sync", not ${JSON.stringify(group.type)}`);
+    }
+
+    this.checkProperties(context, group, GROUP_PROPERTIES, path, nodePath);
+    this.checkText(context, group, path, nodePath);
+    this.checkCount(context, group.count, `${path}.count`, nodePath, parentScopes);
+
+    const points = this.checkArray(context, group.points, `${path}.points`, nodePath);
+    const groups = this.checkArray(context, group.groups, `${path}.groups`, nodePath);
+
+    // Scale factors may point at sunssf points declared later in the same group
+    const scope: Scope = new Map();
+    points.forEach(point => {
+      if (isObject(point) && typeof point.name === 'string' && !scope.has(point.name)) {
+        scope.set(point.name, point);
+      }
+    });
+    const scopes = [scope, ...parentScopes];
+
+    const seen = new Map<string, string>();
+    const checkUnique = (childName: unknown, childPath: string) => {
+      if (typeof childName !== 'string' || !childName) return;
+      const previous = seen.get(childName);
+      if (previous) {
+        this.report(context, `${childPath}.name`, nodePath ? `${nodePath}.${childName}` : childName, 'error', 'unique-name',
+          `Duplicate name "${childName}"${name ? ` in group ${name}` : ''}; also used at ${previous}`);
+      } else {
+        seen.set(childName, childPath);
+      }
+    };
+
+    points.forEach((point, index) => {
+      const pointPath = `${path}.points[${index}]`;
+      if (!isObject(point)) {
+        this.fatal(context, pointPath, nodePath, 'A point must be a JSON object');
+        return;
+      }
+      checkUnique(point.name, pointPath);
+      this.checkPoint(context, point, pointPath, nodePath, scopes);
+    });
+
+    groups.forEach((subGroup, index) => {
+      const groupPath = `${path}.groups[${index}]`;
+      if (!isObject(subGroup)) {
+        this.fatal(context, groupPath, nodePath, 'A group must be a JSON object');
+        return;
+      }
+      checkUnique(subGroup.name, groupPath);
+      this.checkGroup(context, subGroup, groupPath, scopes, nodePath);
+    });
+  }
+
+  private static checkCount(context: ValidationContext, count: unknown, path: string, nodePath: string | undefined, scopes: Scope[]) {
+    if (count === undefined) return;
+
+    if (typeof count === 'number') {
+      if (!Number.isInteger(count) || count < 0) {
+        this.report(context, path, nodePath, 'error', 'schema', 'A numeric count must be a non-negative integer');
+      }
+      return;
+    }
+
+    if (typeof count !== 'string') {
+      this.report(context, path, nodePath, 'error', 'schema', 'Count must be an integer or the name of a point');
+      return;
+    }
+
+    if (isNumericString(count)) return;
+
+    const target = this.resolve(scopes, count);
+    if (!target) {
+      this.report(context, path, nodePath, 'error', 'count-ref', `Count "${count}" does not match a point in an enclosing group`);
+    } else if (!COUNT_TYPES.has(String(target.type))) {
+      this.report(context, path, nodePath, 'warning', 'count-ref', `Count point "${count}" is ${target.type}, expected uint16 or count`);
+    }
+  }
+
+  private static checkPoint(context: ValidationContext, point: JsonObject, path: string, groupPath: string | undefined, scopes: Scope[]) {
+    const name = typeof point.name === 'string' && point.name ? point.name : undefined;
+    const nodePath = name ? (groupPath ? `${groupPath}.${name}` : name) : groupPath;
+
+    if (!name) {
+      this.fatal(context, `${path}.name`, nodePath, 'Missing required point "name"');
+    } else if (!NAME_PATTERN.test(name)) {
+      this.report(context, `${path}.name`, nodePath, 'warning', 'schema', `Point name "${name}" is not a valid identifier`);
+    }
+
+    const type = typeof point.type === 'string' ? point.type : undefined;
+    if (!type) {
+      this.fatal(context, `${path}.type`, nodePath, 'Missing required point "type"');
+    } else if (!POINT_TYPES.has(type)) {
+      this.report(context, `${path}.type`, nodePath, 'error', 'schema', `Unknown point type "${type}"`);
+    }
+
+    this.checkProperties(context, point, POINT_PROPERTIES, path, nodePath);
+    this.checkText(context, point, path, nodePath);
+    this.checkSize(context, point.size, type, `${path}.size`, nodePath);
+
+    const enums: [string, string[]][] = [['access', ['R', 'RW']], ['mandatory', ['M', 'O']], ['static', ['D', 'S']]];
+    enums.forEach(([property, allowed]) => {
+      if (point[property] !== undefined && !allowed.includes(point[property] as string)) {
+        this.report(context, `${path}.${property}`, nodePath, 'error', 'schema',
+          `"${property}" must be one of ${allowed.join(', ')}, not ${JSON.stringify(point[property])}`);
+      }
+    });
+
+    if (point.units !== undefined && typeof point.units !== 'string') {
+      this.report(context, `${path}.units`, nodePath, 'error', 'schema', '"units" must be a string');
+    }
+    if (point.count !== undefined && (!Number.isInteger(point.count) || (point.count as number) < 1)) {
+      this.report(context, `${path}.count`, nodePath, 'error', 'schema', '"count" must be a positive integer');
+    }
+    if (point.standards !== undefined && !(Array.isArray(point.standards) && point.standards.every(item => typeof item === 'string'))) {
+      this.report(context, `${path}.standards`, nodePath, 'error', 'schema', '"standards" must be an array of strings');
+    }
+
+    this.checkScaleFactor(context, point.sf, type, `${path}.sf`, nodePath, scopes);
+    this.checkSymbols(context, point.symbols, type, `${path}.symbols`, nodePath);
+  }
+
+  private static checkSize(context: ValidationContext, size: unknown, type: string | undefined, path: string, nodePath: string | undefined) {
+    const expected = type ? POINT_TYPE_SIZES[type] : undefined;
+
+    if (size === undefined) {
+      if (type === 'string') {
+        this.report(context, path, nodePath, 'error', 'size-type', 'String points need a "size" in registers');
+      } else {
+        this.report(context, path, nodePath, 'warning', 'size-type', `Missing "size"${expected ? `; ${type} is ${expected} register${expected === 1 ? '' : 's'}` : ''}`);
+      }
+      return;
+    }
+
+    if (!Number.isInteger(size) || (size as number) < 1) {
+      this.report(context, path, nodePath, 'error', 'schema', '"size" must be a positive integer');
+      return;
+    }
+
+    if (expected !== undefined && size !== expected) {
+      this.report(context, path, nodePath, 'error', 'size-type', `Size ${size} does not match type ${type}, which is ${expected} register${expected === 1 ? '' : 's'}`);
+    }
+  }
+
+  private static checkScaleFactor(
+    context: ValidationContext,
+    sf: unknown,
+    type: string | undefined,
+    path: string,
+    nodePath: string | undefined,
+    scopes: Scope[]
+  ) {
+    if (sf === undefined) return;
+
+    if (type && !SCALED_TYPES.has(type)) {
+      this.report(context, path, nodePath, 'warning', 'sf-scope', `Scale factor on ${type} point has no effect`);
+    }
+
+    const fixed = typeof sf === 'number' ? sf : typeof sf === 'string' && isNumericString(sf) ? Number(sf) : undefined;
+    if (fixed !== undefined) {
+      if (!Number.isInteger(fixed)) {
+        this.report(context, path, nodePath, 'error', 'schema', 'A numeric scale factor must be an integer');
+      } else if (Math.abs(fixed) > MAX_SCALE_FACTOR) {
+        this.report(context, path, nodePath, 'warning', 'sf-scope', `Scale factor ${fixed} is outside -${MAX_SCALE_FACTOR}..${MAX_SCALE_FACTOR}`);
+      }
+      return;
+    }
+
+    if (typeof sf !== 'string') {
+      this.report(context, path, nodePath, 'error', 'schema', '"sf" must be an integer or the name of a sunssf point');
+      return;
+    }
+
+    const target = this.resolve(scopes, sf);
+    if (!target) {
+      this.report(context, path, nodePath, 'error', 'sf-scope', `Scale factor "${sf}" does not match a point in this or an enclosing group`);
+    } else if (target.type !== 'sunssf') {
+      this.report(context, path, nodePath, 'error', 'sf-scope', `Scale factor "${sf}" is a ${target.type} point, not sunssf`);
+    }
+  }
+
+  private static checkSymbols(context: ValidationContext, symbols: unknown, type: string | undefined, path: string, nodePath: string | undefined) {
+    if (symbols === undefined) return;
+
+    if (!Array.isArray(symbols)) {
+      this.report(context, path, nodePath, 'error', 'schema', '"symbols" must be an array');
+      return;
+    }
+    if (symbols.length > 0 && type && !SYMBOL_TYPES.has(type)) {
+      this.report(context, path, nodePath, 'error', 'symbols-type', `Symbols are only allowed on enum and bitfield points, not ${type}`);
+    }
+
+    const bitfieldBits = type?.startsWith('bitfield') ? Number(type.slice('bitfield'.length)) : undefined;
+    const names = new Set<string>();
+    const values = new Set<number>();
+
+    symbols.forEach((symbol, index) => {
+      const symbolPath = `${path}[${index}]`;
+      if (!isObject(symbol)) {
+        this.report(context, symbolPath, nodePath, 'error', 'schema', 'A symbol must be a JSON object');
+        return;
+      }
+
+      this.checkProperties(context, symbol, SYMBOL_PROPERTIES, symbolPath, nodePath);
+      this.checkText(context, symbol, symbolPath, nodePath);
+
+      if (typeof symbol.name !== 'string' || !symbol.name) {
+        this.report(context, `${symbolPath}.name`, nodePath, 'error', 'schema', 'Missing required symbol "name"');
+      } else if (names.has(symbol.name)) {
+        this.report(context, `${symbolPath}.name`, nodePath, 'error', 'unique-name', `Duplicate symbol name "${symbol.name}"`);
+      } else {
+        names.add(symbol.name);
+      }
+
+      if (symbol.value === undefined) {
+        this.report(context, `${symbolPath}.value`, nodePath, 'error', 'schema', 'Missing required symbol "value"');
+        return;
+      }
+      if (!Number.isInteger(symbol.value)) {
+        this.report(context, `${symbolPath}.value`, nodePath, 'error', 'schema', 'Symbol "value" must be an integer');
+        return;
+      }
+
+      const value = symbol.value as number;
+      if (bitfieldBits !== undefined && (value < 0 || value >= bitfieldBits)) {
+        this.report(context, `${symbolPath}.value`, nodePath, 'error', 'symbols-type', `Bit ${value} does not fit in a ${type}`);
+      } else if (values.has(value)) {
+        this.report(context, `${symbolPath}.value`, nodePath, 'warning', 'symbols-type', `Value ${value} is used by more than one symbol`);
+      }
+      values.add(value);
+    });
+  }
+
+  // Every model starts with the ID and L header points
+  private static checkHeader(context: ValidationContext, model: JsonObject) {
+    const group = model.group as JsonObject;
+    const points = Array.isArray(group.points) ? group.points : [];
+    const rootPath = typeof group.name === 'string' ? group.name : undefined;
+    const [id, length] = points.map(point => (isObject(point) ? point : {}));
+
+    if (id?.name !== 'ID' || length?.name !== 'L') {
+      this.report(context, '$.group.points', rootPath, 'warning', 'header', 'The first two points should be the ID and L header points');
+      return;
+    }
+    if (id.value !== undefined && id.value !== model.id) {
+      this.report(context, '$.group.points[0].value', `${rootPath}.ID`, 'warning', 'header', `ID point value ${id.value} does not match model id ${model.id}`);
+    }
+  }
+
+  private static checkArray(context: ValidationContext, value: unknown, path: string, nodePath: string | undefined): unknown[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      this.fatal(context, path, nodePath, `"${path.split('.').pop()}" must be an array`);
+      return [];
+    }
+    return value;
+  }
+
+  private static checkProperties(context: ValidationContext, value: JsonObject, allowed: string[], path: string, nodePath: string | undefined) {
+    Object.keys(value)
+      .filter(key => !allowed.includes(key))
+      .forEach(key => this.report(context, `${path}.${key}`, nodePath, 'warning', 'schema', `Unknown property "${key}"`));
+  }
+
+  private static checkText(context: ValidationContext, value: JsonObject, path: string, nodePath: string | undefined) {
+    TEXT_PROPERTIES.forEach(property => {
+      if (value[property] !== undefined && typeof value[property] !== 'string') {
+        this.report(context, `${path}.${property}`, nodePath, 'error', 'schema', `"${property}" must be a string`);
+      }
+    });
+    if (value.comments !== undefined && !(Array.isArray(value.comments) && value.comments.every(item => typeof item === 'string'))) {
+      this.report(context, `${path}.comments`, nodePath, 'error', 'schema', '"comments" must be an array of strings');
+    }
+  }
+
+  // Nearest enclosing group first, as LayoutService resolves counts
+  private static resolve(scopes: Scope[], name: string): JsonObject | undefined {
+    for (const scope of scopes) {
+      const point = scope.get(name);
+      if (point) return point;
+    }
+    return undefined;
+  }
+
+  // Structural problems that would stop the tree from rendering at all
+  private static fatal(context: ValidationContext, path: string, nodePath: string | undefined, message: string) {
+    context.displayable = false;
+    this.report(context, path, nodePath, 'error', 'schema', message);
+  }
+
+  private static report(
+    context: ValidationContext,
+    path: string,
+    nodePath: string | undefined,
+    severity: ValidationSeverity,
+    rule: ValidationRule,
+    message: string
+  ) {
+    context.issues.push({ path, nodePath, severity, rule, message });
+  }
+}
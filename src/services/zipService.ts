@@ -0,0 +1,152 @@
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Version 2.0 readers, names in UTF-8
+const ZIP_VERSION = 20;
+const FLAG_UTF8 = 0x0800;
+// 1980-01-01 00:00, so the same entries always give the same archive
+const DOS_DATE = 0x0021;
+const DOS_TIME = 0;
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+export class ZipService {
+  /**
+   * Reads every file out of a zip archive. Only stored and deflated entries are
+   * supported, which covers archives produced by GitHub and common zip tools.
+   */
+  static async readZip(buffer: ArrayBuffer): Promise<ZipEntry[]> {
+    const view = new DataView(buffer);
+    const eocd = this.findEndOfCentralDirectory(view);
+    const entryCount = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < entryCount; i++) {
+      if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Corrupt zip archive: bad central directory');
+      }
+
+      const method = view.getUint16(offset + 10, true);
+      const compressedSize = view.getUint32(offset + 20, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const localHeaderOffset = view.getUint32(offset + 42, true);
+      const name = new TextDecoder().decode(new Uint8Array(buffer, offset + 46, nameLength));
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      // Directories have no data
+      if (name.endsWith('/')) continue;
+
+      if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt zip archive: bad local header for ${name}`);
+      }
+      const dataStart = localHeaderOffset + 30 + view.getUint16(localHeaderOffset + 26, true) + view.getUint16(localHeaderOffset + 28, true);
+      const compressed = new Uint8Array(buffer, dataStart, compressedSize);
+
+      if (method === METHOD_STORED) {
+        entries.push({ name, data: compressed.slice() });
+      } else if (method === METHOD_DEFLATE) {
+        entries.push({ name, data: await this.inflate(compressed) });
+      } else {
+        console.warn(`Skipping ${name}: unsupported zip compression method ${method}`);
+      }
+    }
+
+    return entries;
+  }
+
+  // Writes an archive of stored (uncompressed) entries, which every zip reader accepts
+  static writeZip(entries: ZipEntry[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const files = entries.map(entry => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data) }));
+    const localSize = files.reduce((sum, file) => sum + 30 + file.nameBytes.length + file.data.length, 0);
+    const centralSize = files.reduce((sum, file) => sum + 46 + file.nameBytes.length, 0);
+
+    const output = new Uint8Array(localSize + centralSize + 22);
+    const view = new DataView(output.buffer);
+    let offset = 0;
+
+    // Fields shared by the local and the central directory headers, from "version needed" on
+    const writeCommon = (at: number, file: typeof files[number]) => {
+      view.setUint16(at, ZIP_VERSION, true);
+      view.setUint16(at + 2, FLAG_UTF8, true);
+      view.setUint16(at + 4, METHOD_STORED, true);
+      view.setUint16(at + 6, DOS_TIME, true);
+      view.setUint16(at + 8, DOS_DATE, true);
+      view.setUint32(at + 10, file.crc, true);
+      view.setUint32(at + 14, file.data.length, true);
+      view.setUint32(at + 18, file.data.length, true);
+      view.setUint16(at + 22, file.nameBytes.length, true);
+      view.setUint16(at + 24, 0, true);
+    };
+
+    const localOffsets = files.map(file => {
+      const start = offset;
+      view.setUint32(offset, LOCAL_FILE_HEADER, true);
+      writeCommon(offset + 4, file);
+      output.set(file.nameBytes, offset + 30);
+      output.set(file.data, offset + 30 + file.nameBytes.length);
+      offset += 30 + file.nameBytes.length + file.data.length;
+      return start;
+    });
+
+    const centralStart = offset;
+    files.forEach((file, index) => {
+      view.setUint32(offset, CENTRAL_DIRECTORY_HEADER, true);
+      view.setUint16(offset + 4, ZIP_VERSION, true);
+      writeCommon(offset + 6, file);
+      // Comment length, disk number and attributes stay zero
+      view.setUint32(offset + 42, localOffsets[index], true);
+      output.set(file.nameBytes, offset + 46);
+      offset += 46 + file.nameBytes.length;
+    });
+
+    view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+    view.setUint16(offset + 8, files.length, true);
+    view.setUint16(offset + 10, files.length, true);
+    view.setUint32(offset + 12, centralSize, true);
+    view.setUint32(offset + 16, centralStart, true);
+    return output;
+  }
+
+  private static findEndOfCentralDirectory(view: DataView): number {
+    // The record sits at the end, followed by a comment of at most 64 KiB
+    const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+    for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+      if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+        return offset;
+      }
+    }
+    throw new Error('Not a zip archive');
+  }
+
+  private static async inflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+}
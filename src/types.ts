@@ -60,6 +60,10 @@ export interface TreeNode {
   children: TreeNode[];
   data?: SunSpecModel | Group | Point;
   level: number;
+  path?: string;
+  offset?: number;
+  address?: number;
+  size?: number;
 }
 
 export interface ModelInfo {
@@ -68,4 +72,447 @@ export interface ModelInfo {
   label?: string;
   desc?: string;
   filename: string;
-}
\ No newline at end of file
+  pointCount?: number;
+  length?: number;
+  sha?: string;
+  sourceId?: string;
+}
+
+export interface PointLayout {
+  path: string;
+  templatePath: string;
+  point: Point;
+  offset: number;
+  address: number;
+  size: number;
+}
+
+export interface GroupLayout {
+  path: string;
+  templatePath: string;
+  index?: number;
+  group: Group;
+  offset: number;
+  address: number;
+  size: number;
+  points: PointLayout[];
+  groups: GroupLayout[];
+}
+
+export interface ModelLayout {
+  modelId: number;
+  startAddress: number;
+  length: number;
+  hasHeaderPoints: boolean;
+  root: GroupLayout;
+  points: PointLayout[];
+}
+
+export interface LayoutOptions {
+  counts?: Record<string, number>;
+  pointValues?: Record<string, number>;
+  // The model's L register, which groups with count 0 fill
+  modelLength?: number;
+}
+
+export interface RepeatingGroup {
+  path: string;
+  group: Group;
+  count?: number | string;
+}
+
+export type RegisterMap = Map<number, number>;
+
+export interface RegisterDump {
+  registers: RegisterMap;
+  invalidLines: number[];
+}
+
+export interface DecodedPoint {
+  path: string;
+  words: number[];
+  raw: number | bigint | string | null;
+  implemented: boolean;
+  missing: boolean;
+  sf?: number;
+  scaled?: number;
+  symbols?: string[];
+}
+
+export interface DecodedModel {
+  layout: ModelLayout;
+  points: Record<string, DecodedPoint>;
+}
+
+export interface ScannedModel {
+  id: number;
+  address: number;
+  length: number;
+  model?: SunSpecModel;
+  expectedLength?: number;
+  error?: string;
+}
+
+export interface DeviceScanResult {
+  baseAddress: number;
+  models: ScannedModel[];
+  endAddress?: number;
+  error?: string;
+}
+
+export type DiffStatus = 'added' | 'removed' | 'moved' | 'changed' | 'unchanged';
+
+export interface AttributeChange {
+  attribute: string;
+  before?: string;
+  after?: string;
+}
+
+export interface PointDiff {
+  name: string;
+  path: string;
+  oldPath?: string;
+  status: DiffStatus;
+  changes: AttributeChange[];
+  point: Point;
+  oldOffset?: number;
+  newOffset?: number;
+}
+
+export interface GroupDiff {
+  name: string;
+  path: string;
+  status: DiffStatus;
+  changes: AttributeChange[];
+  group: Group;
+  points: PointDiff[];
+  groups: GroupDiff[];
+}
+
+export interface ModelDiff {
+  modelId: number;
+  oldRef: string;
+  newRef: string;
+  root: GroupDiff;
+  summary: { added: number; removed: number; moved: number; changed: number; shifted: number };
+}
+
+export interface AlignedPoint {
+  path: string;
+  name: string;
+  label?: string;
+  offset: number;
+  type: string;
+  units?: string;
+  sf?: string;
+  size: number;
+  point: Point;
+}
+
+export interface AlignedPair {
+  left: AlignedPoint;
+  right: AlignedPoint;
+  matchedBy: 'name' | 'label';
+  differences: string[];
+}
+
+export interface ModelAlignment {
+  left: SunSpecModel;
+  right: SunSpecModel;
+  pairs: AlignedPair[];
+  leftOnly: AlignedPoint[];
+  rightOnly: AlignedPoint[];
+}
+
+export interface CatalogEntry {
+  id: number;
+  name: string;
+  filename: string;
+  label?: string;
+  desc?: string;
+  pointCount: number;
+  length: number;
+  sha: string;
+}
+
+export interface CatalogManifest {
+  version: number;
+  repo: string;
+  ref: string;
+  generatedAt: string;
+  models: CatalogEntry[];
+}
+
+export interface CatalogUpdates {
+  changed: string[];
+  added: string[];
+  removed: string[];
+}
+
+export type ModelSourceKind = 'github' | 'local' | 'http' | 'memory' | 'composite';
+
+export interface ModelSource {
+  id: string;
+  label: string;
+  kind: ModelSourceKind;
+  // Changes whenever models are added or removed, for sources whose content can change
+  version?: number;
+  listModels(): Promise<ModelInfo[]>;
+  getModel(filename: string): Promise<SunSpecModel>;
+  // Loads one model without listing the whole source
+  getModelById(id: number): Promise<SunSpecModel>;
+}
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationRule =
+  | 'schema'
+  | 'sf-scope'
+  | 'count-ref'
+  | 'size-type'
+  | 'unique-name'
+  | 'symbols-type'
+  | 'header';
+
+export interface ValidationIssue {
+  path: string;
+  nodePath?: string;
+  severity: ValidationSeverity;
+  rule: ValidationRule;
+  message: string;
+}
+
+export interface ValidationResult {
+  issues: ValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+  displayable: boolean;
+}
+
+export type SearchField = 'name' | 'label' | 'desc' | 'units' | 'type' | 'standards';
+
+export interface SearchEntry {
+  kind: 'group' | 'point';
+  // Template path, e.g. "DERCtlAC.PFWInjEna"
+  path: string;
+  name: string;
+  label?: string;
+  desc?: string;
+  units?: string;
+  type?: string;
+  standards?: string[];
+}
+
+export interface SearchIndexModel {
+  info: ModelInfo;
+  entries: SearchEntry[];
+}
+
+export interface SearchIndex {
+  models: SearchIndexModel[];
+  // Files that could not be loaded or are not valid models
+  failed: string[];
+}
+
+export interface SearchMatch {
+  entry: SearchEntry;
+  fields: SearchField[];
+}
+
+export interface ModelSearchResult {
+  info: ModelInfo;
+  matches: SearchMatch[];
+}
+
+export type ReferenceKind = 'sf' | 'count';
+
+export interface PointReference {
+  kind: ReferenceKind;
+  // Template path of the point (sf) or group (count) holding the reference
+  source: string;
+  name: string;
+  // Template path of the referenced point; unset when the name does not resolve
+  target?: string;
+}
+
+export interface ModelReferences {
+  references: PointReference[];
+  bySource: Map<string, PointReference>;
+  usedBy: Map<string, PointReference[]>;
+}
+
+export interface EditTarget {
+  kind: 'group' | 'point';
+  // Template path, e.g. "DERVoltVar.Crv.Pt.V"
+  path: string;
+}
+
+export interface EditResult {
+  model: SunSpecModel;
+  // Node to select after the edit, if it moved or is new
+  path?: string;
+}
+
+// Typed text in engineering units, or the names of the enum symbol or bitfield bits that are set
+export type SimulatedValue = string | string[];
+
+export interface ProfileEntry {
+  id: number;
+  // Set for models taken from the Local models category
+  local?: boolean;
+  // Instances per repeating group template path; unset groups use the model's count or one
+  counts?: Record<string, number>;
+  // Point values for a simulated register image, by instance path; unset points are not implemented
+  values?: Record<string, SimulatedValue>;
+}
+
+export interface DeviceProfile {
+  name: string;
+  baseAddress: number;
+  models: ProfileEntry[];
+}
+
+export type ProfileRowKind = 'marker' | 'header' | 'point' | 'end';
+
+export interface ProfileRow {
+  kind: ProfileRowKind;
+  address: number;
+  size: number;
+  name: string;
+  // Position of the model in the profile
+  modelIndex?: number;
+  modelId?: number;
+  path?: string;
+  point?: Point;
+  // Contents fixed by the profile: the marker, headers and group counts
+  value?: number | string;
+}
+
+export interface ComposedModel {
+  entry: ProfileEntry;
+  model: SunSpecModel;
+  layout: ModelLayout;
+  counts: Record<string, number>;
+}
+
+export interface ComposedProfile {
+  baseAddress: number;
+  models: ComposedModel[];
+  endAddress: number;
+  // Registers from the SunS marker through the end model
+  size: number;
+  rows: ProfileRow[];
+}
+
+export interface SimulatedImage {
+  startAddress: number;
+  // One word per register from the SunS marker through the end model
+  words: number[];
+  // Why a value could not be encoded, by the point's address; those points are left not implemented
+  errors: Map<number, string>;
+}
+
+export type FilterField = 'type' | 'access' | 'mandatory' | 'static' | 'units' | 'sf' | 'has' | 'name' | 'label' | 'desc';
+
+export type FilterExpression =
+  | { kind: 'text'; text: string }
+  | { kind: 'field'; field: FilterField; value: string }
+  | { kind: 'not'; operand: FilterExpression }
+  | { kind: 'and' | 'or'; operands: FilterExpression[] };
+
+export interface FilterQuery {
+  // Null when the query has no terms yet
+  expression: FilterExpression | null;
+  errors: string[];
+}
+
+export interface FilterSuggestion {
+  label: string;
+  // Replaces the word being typed
+  insert: string;
+  detail?: string;
+}
+
+export interface FilterCompletion {
+  // Range of the word being typed
+  from: number;
+  to: number;
+  suggestions: FilterSuggestion[];
+}
+
+export type PointTableColumn =
+  | 'group' | 'name' | 'label' | 'address' | 'offset' | 'size' | 'type'
+  | 'units' | 'sf' | 'access' | 'mandatory' | 'static' | 'desc';
+
+// Unset fields take the table's defaults
+export interface PointTableSettings {
+  hidden?: PointTableColumn[];
+  // Pixel widths of resized columns
+  widths?: Partial<Record<PointTableColumn, number>>;
+  // Unset keeps register order
+  sort?: { column: PointTableColumn; descending: boolean };
+  groupByGroup?: boolean;
+}
+
+export interface ExportOptions {
+  startAddress: number;
+  // Instances per repeating group, keyed by template path
+  counts: Record<string, number>;
+}
+
+export interface RegisterExportRow {
+  address: number;
+  // Instance path of the group holding the point, e.g. "DERVoltVar.Crv[2]"
+  group: string;
+  templateGroup: string;
+  name: string;
+  label?: string;
+  type: string;
+  size: number;
+  units?: string;
+  sf?: string;
+  access: string;
+  mandatory: string;
+  desc?: string;
+}
+
+export interface SymbolExportRow {
+  // Template path of the point
+  point: string;
+  name: string;
+  value: number;
+  label?: string;
+  desc?: string;
+}
+
+export interface ReportNote {
+  label: 'Detail' | 'Notes' | 'Comments';
+  text: string;
+}
+
+// A group instance in the report, numbered within its model chapter, e.g. "2.3"
+export interface ReportSection {
+  id: string;
+  number: string;
+  group: GroupLayout;
+  depth: number;
+}
+
+export interface ReportSymbolPoint {
+  id: string;
+  number: string;
+  // Template path, as symbols are the same in every instance
+  path: string;
+  point: Point;
+}
+
+// What an SMDX conversion could not carry over, one line per field with the paths affected
+export interface SmdxImport {
+  model: SunSpecModel;
+  losses: string[];
+}
+
+export interface SmdxExport {
+  xml: string;
+  losses: string[];
+}
@@ -1,9 +1,42 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+const WORKER_VERSION = "const BUILD_VERSION = 'dev';";
+const WORKER_ASSETS = 'const BUILD_ASSETS = [];';
+
+// Writes the hashed build output into the copy of public/sw.js, which names its cache
+// after them, so each deploy installs a new worker and the old cache is dropped
+const precacheManifest = (): Plugin => {
+  let worker = '';
+  let files: string[] = [];
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      worker = path.resolve(config.root, config.build.outDir, 'sw.js');
+    },
+    generateBundle(_, bundle) {
+      files = Object.keys(bundle).filter(file => !file.endsWith('.map')).map(file => `/${file}`);
+    },
+    closeBundle() {
+      const source = readFileSync(worker, 'utf8');
+      if (!source.includes(WORKER_VERSION) || !source.includes(WORKER_ASSETS)) {
+        throw new Error(`${worker} has no ${WORKER_VERSION} or ${WORKER_ASSETS} to fill in`);
+      }
+      const version = createHash('sha1').update(files.join('\n')).digest('hex').slice(0, 12);
+      writeFileSync(worker, source
+        .replace(WORKER_VERSION, `const BUILD_VERSION = '${version}';`)
+        .replace(WORKER_ASSETS, `const BUILD_ASSETS = ${JSON.stringify(files)};`));
+    },
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },